@@ -1,25 +1,20 @@
 // app/(tabs)/index.tsx
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import {
-  collection,
-  documentId as fsDocumentId,
-  getDocs,
-  query,
-  where
-} from 'firebase/firestore';
 import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
 
 import MainScreen from '../../components/screens/MainScreen';
 import WelcomeScreen from '../../components/screens/WelcomeScreen';
-import { TARGET_COLLECTION } from '../../config';
 import { useLocation } from '../../context/LocationContext';
-import { db } from '../../firebase/firebaseConfig';
-
-const RULES_STORAGE_KEY = '@garbageRulesData_';
-// SỬA: Key này giờ sẽ lưu một object chứa 3 giá trị
-const LOCATION_STORAGE_KEY = '@userSelectedLocation_v2'; // Đổi tên key để tránh xung đột cache cũ
+import { rescheduleGarbageReminders } from '../../services/garbageReminderService';
+import {
+  readCachedRules,
+  refreshRules,
+  revalidateRules,
+  shouldRevalidate,
+} from '../../services/rulesCacheService';
+import { ICachedRules } from '../../types/garbageRules';
 
 interface IAppState {
   status: 'loading' | 'ready' | 'error' | 'idle';
@@ -27,148 +22,119 @@ interface IAppState {
   error: string | null;
   rules: any;
   districtId: string | null; // SỬA: Thêm districtId vào appState
+  rulesUpdatedAt: number | null; // "Rules last updated" (epoch ms)
 }
 
+// null = đang xem rules, 'add' = thêm địa điểm mới, 'replace' = đổi địa chỉ của địa điểm đang chọn
+type LocationPickerMode = 'add' | 'replace' | null;
+
 export default function HomeScreen() {
-  const { locationString, compositeId, setLocationContext } = useLocation();
-  const [districtId, setDistrictId] = useState<string | null>(null); // SỬA: Thêm state cho District ID
-  
-  const [isInitialLoading, setIsInitialLoading] = useState(true);
+  const { t } = useTranslation();
+  // Địa điểm đang chọn được suy ra từ danh sách địa điểm đã lưu (LocationContext)
+  const {
+    locationString,
+    compositeId,
+    districtId,
+    savedLocations,
+    isLocationsLoaded,
+    saveLocation,
+  } = useLocation();
+  const [pickerMode, setPickerMode] = useState<LocationPickerMode>(null);
+
+  const isInitialLoading = !isLocationsLoaded;
   const [appState, setAppState] = useState<IAppState>({
     status: 'loading',
     statusCount: 0,
     error: null,
     rules: {},
     districtId: null, // SỬA: Khởi tạo
+    rulesUpdatedAt: null,
   });
 
-  // Logic tải dữ liệu đã lưu khi khởi động
-  useEffect(() => {
-    const loadSavedData = async () => {
-      setIsInitialLoading(true);
-      try {
-        const savedLocationJson = await AsyncStorage.getItem(LOCATION_STORAGE_KEY);
-        
-        if (savedLocationJson) {
-          // SỬA: Đọc cả 3 giá trị
-          const { 
-            locationString: savedLocationStr, 
-            compositeId: savedCompositeId, 
-            districtId: savedDistrictId 
-          } = JSON.parse(savedLocationJson);
-          
-          if (savedLocationStr && savedCompositeId && savedDistrictId) {
-            const savedRulesJson = await AsyncStorage.getItem(RULES_STORAGE_KEY + savedCompositeId);
-            if (savedRulesJson) {
-              const savedRules = JSON.parse(savedRulesJson);
-              setLocationContext(savedLocationStr, savedCompositeId); 
-              setDistrictId(savedDistrictId);
-              setDistrictId(savedDistrictId); // SỬA: Set districtId
-              setAppState({
-                status: 'ready',
-                statusCount: Object.keys(savedRules.waste_categories || {}).length,
-                error: null,
-                rules: savedRules,
-                districtId: savedDistrictId, // SỬA: Set districtId
-              });
-            } else {
-              // Có location nhưng không có rules, kích hoạt tải lại
-              setLocationContext(savedLocationStr, savedCompositeId);
-              setDistrictId(savedDistrictId);
-              setDistrictId(savedDistrictId); // SỬA: Set districtId
-            }
-          } else {
-            setAppState(prev => ({ ...prev, status: 'idle' }));
-          }
-        } else {
-          setAppState(prev => ({ ...prev, status: 'idle' }));
-        }
-      } catch (e) {
-        console.error("Lỗi tải dữ liệu đã lưu:", e);
-        await AsyncStorage.clear();
-        setLocationContext(null, null);
-        setAppState(prev => ({ ...prev, status: 'idle' }));
-      } finally {
-        setIsInitialLoading(false);
-      }
-    };
-    loadSavedData();
-  }, [setLocationContext]);
-
-  // Logic tải rules TỰ ĐỘNG (Không đổi, vì nó tải rules của cả thành phố)
+  // Logic tải rules TỰ ĐỘNG: cache trước (offline-first), sau đó kiểm tra Firestore ở nền
   useEffect(() => {
-    if (isInitialLoading || !compositeId) {
+    if (isInitialLoading) {
+      return;
+    }
+    if (!compositeId) {
+      setAppState({
+        status: 'idle', statusCount: 0, error: null, rules: {}, districtId: null, rulesUpdatedAt: null,
+      });
       return;
     }
 
-    const fetchRules = async (documentId: string) => {
-      console.log(`Đang tải rules cho: ${documentId} (sử dụng getDocs)`);
-      setAppState(prev => ({ 
-        ...prev, 
-        status: 'loading', 
-        error: null, 
-        rules: {},
+    // Bỏ qua kết quả nếu người dùng đã đổi location trong lúc đang tải
+    let isCancelled = false;
+
+    const applyRules = (entry: ICachedRules) => {
+      if (isCancelled) return;
+      setAppState({
+        status: 'ready',
+        statusCount: Object.keys(entry.rules.waste_categories || {}).length,
+        error: null,
+        rules: entry.rules,
         districtId: districtId, // Giữ districtId
-      }));
+        rulesUpdatedAt: entry.updatedAt,
+      });
+    };
 
+    const fetchRules = async (documentId: string) => {
       try {
-        const cachedRulesJson = await AsyncStorage.getItem(RULES_STORAGE_KEY + documentId);
-        if (cachedRulesJson) {
-          const rulesData = JSON.parse(cachedRulesJson);
-          setAppState({
-            status: 'ready',
-            statusCount: Object.keys(rulesData.waste_categories || {}).length,
-            error: null,
-            rules: rulesData,
-            districtId: districtId, // Giữ districtId
-          });
+        const cached = await readCachedRules(documentId);
+        if (cached) {
+          applyRules(cached);
           console.log("Tải rules từ cache thành công!");
-          return;
-        }
-        
-        console.log("Cache không có, tải từ Firestore...");
-        
-        const q = query(
-          collection(db, TARGET_COLLECTION), 
-          where(fsDocumentId(), "==", documentId)
-        );
-        const querySnap = await getDocs(q);
 
-        if (!querySnap.empty) {
-          const rulesData = querySnap.docs[0].data();
-          
-          if (rulesData.waste_categories) { 
-            await AsyncStorage.setItem(RULES_STORAGE_KEY + documentId, JSON.stringify(rulesData));
-            setAppState({
-              status: 'ready',
-              statusCount: Object.keys(rulesData.waste_categories || {}).length,
-              error: null,
-              rules: rulesData,
-              districtId: districtId, // Giữ districtId
-            });
-            console.log("Tải và lưu rules (Firestore) thành công!");
-          } else {
-            throw new Error("errorInvalidRules"); 
+          // Stale-while-revalidate: hiển thị cache ngay, cập nhật nếu Firestore có bản mới
+          if (shouldRevalidate(cached)) {
+            const updated = await revalidateRules(documentId, cached);
+            if (updated) applyRules(updated);
           }
-        } else {
-          throw new Error(`errorRuleNotFound`); 
+          return;
         }
+
+        console.log(`Cache không có, tải rules cho: ${documentId} từ Firestore...`);
+        setAppState(prev => ({ 
+          ...prev, 
+          status: 'loading', 
+          error: null, 
+          rules: {},
+          districtId: districtId, // Giữ districtId
+          rulesUpdatedAt: null,
+        }));
+
+        applyRules(await refreshRules(documentId));
+        console.log("Tải và lưu rules (Firestore) thành công!");
       } catch (err: any) {
         console.error("Lỗi tải hoặc lưu rules:", err);
+        if (isCancelled) return;
         setAppState(prev => ({
           ...prev,
           status: 'error',
           error: err.message || 'errorUnknown', 
           rules: {},
           districtId: districtId, // Giữ districtId
+          rulesUpdatedAt: null,
         }));
       }
     };
 
     fetchRules(compositeId);
-    
+
+    return () => {
+      isCancelled = true;
+    };
   }, [compositeId, isInitialLoading]); 
 
+  // Tính lại nhắc nhở (của mọi địa điểm) mỗi khi địa điểm hoặc rules (cache/Firestore) thay đổi
+  useEffect(() => {
+    if (isInitialLoading || appState.status === 'loading') {
+      return;
+    }
+    rescheduleGarbageReminders(t)
+      .catch(e => console.error("Lỗi lên lịch nhắc nhở:", e));
+  }, [appState.rules, appState.status, savedLocations, isInitialLoading, t]);
+
   // SỬA: handleLocationSelect (nhận 3 tham số)
   const handleLocationSelect = async (
     newLocationString: string, 
@@ -183,22 +149,17 @@ export default function HomeScreen() {
         error: 'errorLocationSelect',
         rules: {},
         districtId: null,
+        rulesUpdatedAt: null,
       }));
       return;
     }
 
     try {
-      const locationData = JSON.stringify({
-        locationString: newLocationString,
-        compositeId: newCompositeId,
-        districtId: newDistrictId,
-      });
-      await AsyncStorage.setItem(LOCATION_STORAGE_KEY, locationData);
-      
-      setLocationContext(newLocationString, newCompositeId);
-      setDistrictId(newDistrictId);
-      setDistrictId(newDistrictId); // SỬA: Set state
-      
+      await saveLocation(
+        { locationString: newLocationString, compositeId: newCompositeId, districtId: newDistrictId },
+        pickerMode === 'replace' ? 'replace' : 'add'
+      );
+      setPickerMode(null);
     } catch (e) {
       console.error("Lỗi lưu location mới:", e);
       setAppState(prev => ({ 
@@ -207,30 +168,18 @@ export default function HomeScreen() {
         error: 'errorSavingLocation', 
         rules: {},
         districtId: null,
+        rulesUpdatedAt: null,
       }));
     }
   };
 
+  // "Đổi địa điểm": chọn lại địa chỉ cho địa điểm đang chọn (giữ tên và cài đặt nhắc nhở)
+  const handleLocationReset = () => {
+    setPickerMode('replace');
+  };
 
-  // SỬA: Cập nhật handleLocationReset
-  const handleLocationReset = async () => {
-    try {
-      if (compositeId) {
-         await AsyncStorage.removeItem(RULES_STORAGE_KEY + compositeId);
-      }
-      await AsyncStorage.removeItem(LOCATION_STORAGE_KEY);
-      
-      setLocationContext(null, null); 
-      setDistrictId(null);
-      setDistrictId(null); // SỬA: Reset
-      
-      setAppState({
-          status: 'idle', statusCount: 0, error: null, rules: {}, districtId: null,
-      });
-      console.log("Đã xóa dữ liệu location và rules đã lưu.");
-    } catch (e) {
-      console.error("Lỗi xóa dữ liệu đã lưu:", e);
-    }
+  const handleAddLocation = () => {
+    setPickerMode('add');
   };
 
   const handleLoginClick = () => {
@@ -249,17 +198,20 @@ export default function HomeScreen() {
   return (
     <View style={styles.container}>
       {/* SỬA: Kiểm tra cả 3 state */}
-      {locationString && compositeId && districtId ? (
+      {locationString && compositeId && districtId && !pickerMode ? (
         <MainScreen
           location={locationString}
           onLocationReset={handleLocationReset}
-          appState={appState} // appState giờ đã chứa districtId
+          onAddLocation={handleAddLocation}
+          // districtId lấy từ địa điểm đang chọn (hai địa điểm có thể dùng chung rules của một thành phố)
+          appState={{ ...appState, districtId }}
         />
       ) : (
         <WelcomeScreen
           appState={appState}
           onLocationSelect={handleLocationSelect}
           onLoginClick={handleLoginClick}
+          onCancel={pickerMode && savedLocations.length > 0 ? () => setPickerMode(null) : undefined}
         />
       )}
     </View>
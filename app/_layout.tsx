@@ -5,6 +5,7 @@ import { AuthProvider } from '../context/AuthContext';
 import { LocationProvider } from '../context/LocationContext';
 import { SubscriptionProvider } from '../context/SubscriptionContext';
 import '../i18n';
+import { configureNotificationHandler } from '../services/garbageReminderService';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
 
@@ -12,6 +13,9 @@ export const unstable_settings = {
   anchor: '(tabs)',
 };
 
+// Hiển thị nhắc nhở vứt rác cả khi app đang mở
+configureNotificationHandler();
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
@@ -0,0 +1,373 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { useAuth } from '../../context/AuthContext';
+import { useRouter } from 'expo-router';
+import {
+  getCorrectionImageUrl,
+  getPendingCorrections,
+  reviewGarbageCorrection,
+} from '../../services/correctionService';
+import { IGarbageCorrection } from '../../types/corrections';
+
+// Admin overrides typed before approving, per correction
+interface ReviewOverrides {
+  category: string;
+  itemName: string;
+}
+
+export default function CorrectionsQueueScreen() {
+  const { role } = useAuth();
+  const router = useRouter();
+  const [corrections, setCorrections] = useState<IGarbageCorrection[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [overrides, setOverrides] = useState<Record<string, ReviewOverrides>>({});
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Admins and super admins can review corrections
+    if (role !== 'admin' && role !== 'superadmin') {
+      Alert.alert('Access Denied', 'Only admins can access this page');
+      router.back();
+      return;
+    }
+
+    loadCorrections();
+  }, [role]);
+
+  const loadCorrections = async () => {
+    try {
+      setLoading(true);
+      const pending = await getPendingCorrections();
+      setCorrections(pending);
+
+      // Photos are private in Storage, resolve download URLs for the ones attached
+      const urls: Record<string, string> = {};
+      await Promise.all(
+        pending
+          .filter((correction) => correction.imagePath)
+          .map(async (correction) => {
+            try {
+              urls[correction.id] = await getCorrectionImageUrl(correction.imagePath!);
+            } catch (error) {
+              console.warn('Error loading correction image:', error);
+            }
+          })
+      );
+      setImageUrls(urls);
+    } catch (error) {
+      console.error('Error loading corrections:', error);
+      Alert.alert('Error', 'Failed to load corrections');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateOverride = (correctionId: string, field: keyof ReviewOverrides, value: string) => {
+    setOverrides((current) => ({
+      ...current,
+      [correctionId]: { ...(current[correctionId] || { category: '', itemName: '' }), [field]: value },
+    }));
+  };
+
+  const handleReview = (correction: IGarbageCorrection, decision: 'approve' | 'reject') => {
+    const override = overrides[correction.id];
+    const category = override?.category.trim() || correction.correctedCategory;
+    const itemName = override?.itemName.trim() || correction.itemName;
+
+    const message = decision === 'approve'
+      ? `Move "${itemName}" to "${category}" in ${correction.compositeId}?`
+      : `Reject the report for "${correction.itemName}"?`;
+
+    Alert.alert(decision === 'approve' ? 'Approve Correction' : 'Reject Correction', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Confirm',
+        style: decision === 'reject' ? 'destructive' : 'default',
+        onPress: async () => {
+          try {
+            setReviewingId(correction.id);
+            await reviewGarbageCorrection({
+              correctionId: correction.id,
+              decision,
+              category: override?.category.trim() || undefined,
+              itemName: override?.itemName.trim() || undefined,
+            });
+            setCorrections((current) => current.filter((c) => c.id !== correction.id));
+          } catch (error: any) {
+            console.error('Error reviewing correction:', error);
+            Alert.alert('Error', error?.message || 'Failed to review correction');
+          } finally {
+            setReviewingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#10B981" />
+        <Text style={styles.loadingText}>Loading corrections...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Corrections Queue</Text>
+        <Text style={styles.headerSubtitle}>
+          {corrections.length} pending report{corrections.length === 1 ? '' : 's'}
+        </Text>
+      </View>
+
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        {corrections.map((correction) => {
+          const isReviewing = reviewingId === correction.id;
+          const analyzedItem = correction.itemIndex !== null
+            ? correction.analysis?.items?.[correction.itemIndex]
+            : undefined;
+
+          return (
+            <View key={correction.id} style={styles.card}>
+              {imageUrls[correction.id] && (
+                <Image source={{ uri: imageUrls[correction.id] }} style={styles.image} resizeMode="contain" />
+              )}
+
+              <View style={styles.cardMeta}>
+                <View style={[styles.sourceBadge, correction.source === 'scanner' ? styles.scannerBadge : styles.rulesBadge]}>
+                  <Text style={styles.sourceBadgeText}>{correction.source.toUpperCase()}</Text>
+                </View>
+                <Text style={styles.metaText}>{correction.compositeId}</Text>
+              </View>
+
+              <Text style={styles.itemName}>{correction.itemName}</Text>
+              <Text style={styles.categoryChange}>
+                {correction.originalCategory || 'unknown'} → {correction.correctedCategory}
+              </Text>
+              {analyzedItem && (
+                <Text style={styles.metaText}>
+                  AI: {analyzedItem.itemName} ({analyzedItem.confidence}%)
+                </Text>
+              )}
+              {correction.note && <Text style={styles.note}>"{correction.note}"</Text>}
+              {correction.createdAt && (
+                <Text style={styles.metaText}>{correction.createdAt.toLocaleString()}</Text>
+              )}
+
+              <View style={styles.overrideRow}>
+                <TextInput
+                  style={styles.overrideInput}
+                  placeholder={correction.correctedCategory}
+                  value={overrides[correction.id]?.category || ''}
+                  onChangeText={(value) => updateOverride(correction.id, 'category', value)}
+                  autoCapitalize="none"
+                />
+                <TextInput
+                  style={styles.overrideInput}
+                  placeholder={correction.itemName}
+                  value={overrides[correction.id]?.itemName || ''}
+                  onChangeText={(value) => updateOverride(correction.id, 'itemName', value)}
+                />
+              </View>
+
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.approveButton, isReviewing && styles.actionButtonDisabled]}
+                  disabled={isReviewing}
+                  onPress={() => handleReview(correction, 'approve')}
+                >
+                  <Text style={styles.actionButtonText}>Approve</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.rejectButton, isReviewing && styles.actionButtonDisabled]}
+                  disabled={isReviewing}
+                  onPress={() => handleReview(correction, 'reject')}
+                >
+                  <Text style={styles.actionButtonText}>Reject</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+
+        {corrections.length === 0 && (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No pending corrections</Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#10B981',
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  image: {
+    width: '100%',
+    height: 200,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    marginBottom: 12,
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  sourceBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  scannerBadge: {
+    backgroundColor: '#2563EB',
+  },
+  rulesBadge: {
+    backgroundColor: '#F59E0B',
+  },
+  sourceBadgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  metaText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  categoryChange: {
+    fontSize: 15,
+    color: '#111827',
+    marginTop: 4,
+  },
+  note: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: '#374151',
+    marginTop: 6,
+  },
+  overrideRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  overrideInput: {
+    flex: 1,
+    backgroundColor: '#F3F4F6',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  approveButton: {
+    backgroundColor: '#10B981',
+  },
+  rejectButton: {
+    backgroundColor: '#DC2626',
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  emptyContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#9CA3AF',
+  },
+});
@@ -16,11 +16,12 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { ArrowLeft, Send, Star, List, Settings } from 'lucide-react-native';
-import { chatWithAI, ChatMessage, TokenUsage, CachingOptions } from '../services/geminiService';
+import { ai, AIError, deleteChatContextCache } from '../services/aiClient';
+import { ChatMessage } from '../types/ai';
 import { useAuth } from '../context/AuthContext';
 import { useSubscription } from '../context/SubscriptionContext';
 import { CreditDisplay, CreditInfoModal } from '../components/credits';
-import { doc, setDoc, getDoc, updateDoc, Timestamp, collection, query, where, getDocs } from 'firebase/firestore';
+import { doc, setDoc, getDoc, Timestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '../firebase/firebaseConfig';
 
 type TranslationLanguage = 'ja' | 'en' | 'vi' | 'zh' | 'ko' | 'pt' | 'es' | 'fil' | 'th' | 'id';
@@ -31,6 +32,7 @@ export default function AIChatScreen() {
   const { chatId } = useLocalSearchParams();
   const { user, subscription, role } = useAuth();
   const scrollViewRef = useRef<ScrollView>(null);
+  const requestControllerRef = useRef<AbortController | null>(null); // Pending AI reply
 
   // Check if user is logged in
   const isSuperAdmin = role === 'superadmin';
@@ -53,11 +55,9 @@ export default function AIChatScreen() {
   ]);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null); // Reply being received
   const [chatHistoryLoaded, setChatHistoryLoaded] = useState(false);
 
-  // Cache management state
-  const [cacheId, setCacheId] = useState<string | null>(null);
-  const [cacheCreatedAt, setCacheCreatedAt] = useState<Date | null>(null);
 
   const translationLanguages: { code: TranslationLanguage; name: string; flag: string }[] = [
     { code: 'en', name: 'English', flag: '🇬🇧' },
@@ -84,7 +84,20 @@ export default function AIChatScreen() {
     setTimeout(() => {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // Leaving the screen cancels the pending reply
+  useEffect(() => {
+    return () => requestControllerRef.current?.abort();
+  }, []);
+
+  // Leaving the chat drops its context cache on the server (it is rebuilt if the chat is reopened)
+  useEffect(() => {
+    if (!currentChatId) return;
+    return () => {
+      deleteChatContextCache('ai_chat', currentChatId);
+    };
+  }, [currentChatId]);
 
   // Load chat history from Firestore
   const loadChatHistory = async () => {
@@ -126,14 +139,6 @@ export default function AIChatScreen() {
           setTranslationLanguage(chatData.translationLanguage);
         }
         setIsImportant(chatData.isImportant || false);
-
-        // Load cache information
-        if (chatData.cacheId) {
-          setCacheId(chatData.cacheId);
-          if (chatData.cacheCreatedAt) {
-            setCacheCreatedAt(chatData.cacheCreatedAt.toDate());
-          }
-        }
       }
     } catch (error) {
       console.error('Error loading chat history:', error);
@@ -179,9 +184,6 @@ export default function AIChatScreen() {
         messages: updatedMessages,
         translationLanguage: translationLanguage,
         isImportant: isImportant,
-        // Cache information
-        cacheId: cacheId || existingData?.cacheId || null,
-        cacheCreatedAt: cacheCreatedAt ? Timestamp.fromDate(cacheCreatedAt) : (existingData?.cacheCreatedAt || null),
         createdAt: existingData?.createdAt || now,
         lastUpdatedAt: now,
       });
@@ -259,106 +261,48 @@ export default function AIChatScreen() {
     setInputText('');
     setLoading(true);
 
-    try {
-      // Get userId and userTier
-      const userId = user?.uid || '';
-      const userTier = subscription || 'FREE';
-
-      // Token usage callback - show breakdown to all users
-      const onTokenUsage = (usage: TokenUsage) => {
-        if (usage.breakdown) {
-          // Show detailed breakdown
-          const breakdown = usage.breakdown;
-          const message = `📊 MODEL: ${breakdown.modelTier.toUpperCase()} (${breakdown.promptSizeTier} prompt)\n\n` +
-            `💰 COST BREAKDOWN:\n` +
-            `• Input: ${breakdown.inputTokens.toLocaleString()} tokens × $${breakdown.inputPricePerMillion}/1M = $${breakdown.inputCostUSD.toFixed(6)}\n` +
-            `• Output: ${breakdown.outputTokens.toLocaleString()} tokens × $${breakdown.outputPricePerMillion}/1M = $${breakdown.outputCostUSD.toFixed(6)}\n` +
-            (breakdown.cachingCostUSD > 0 ? `• Cache: ${breakdown.cachedTokens.toLocaleString()} tokens × $${breakdown.cachingPricePerMillion}/1M = $${breakdown.cachingCostUSD.toFixed(6)}\n` : '') +
-            (breakdown.groundingDetails?.googleSearch ? `• Google Search: $${breakdown.groundingCostUSD.toFixed(6)}\n` : '') +
-            (breakdown.groundingDetails?.googleMaps ? `• Google Maps: $${breakdown.groundingCostUSD.toFixed(6)}\n` : '') +
-            `\n📈 TOTAL: $${breakdown.totalCostUSD.toFixed(6)}\n` +
-            `× ${breakdown.profitMargin}x margin = ${breakdown.finalCredits} credits\n\n` +
-            `💳 Credits deducted: ${breakdown.finalCredits}`;
-
-          Alert.alert(
-            '💳 Credit Calculation',
-            message,
-            [{ text: 'OK' }]
-          );
-        } else {
-          // Fallback to simple display (for super admin debugging)
-          if (isSuperAdmin) {
-            Alert.alert(
-              '🔧 Token Usage (Debug)',
-              `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
-              [{ text: 'OK' }]
-            );
-          }
-        }
-      };
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
 
-      const response = await chatWithAI(
-        userId,
-        userTier,
-        [...messages, userMessage],
-        translationLanguage,
-        'lite', // AI Chat uses Lite 2.5 model
-        onTokenUsage,
-        undefined, // groundingOptions
+    try {
+      const { output, usage } = await ai.run(
+        'ai_chat',
         {
-          // Pass cache options
-          cacheId: cacheId || undefined,
-          cacheCreatedAt: cacheCreatedAt || undefined,
-          onCacheCreated: async (newCacheId: string, createdAt: Date) => {
-            // Save new cache ID
-            setCacheId(newCacheId);
-            setCacheCreatedAt(createdAt);
-            console.log('New cache created:', newCacheId);
-
-            // Save cache info to Firestore immediately (don't wait for state update)
-            if (user && currentChatId) {
-              try {
-                const chatDocRef = doc(db, 'aiChats', currentChatId);
-                await updateDoc(chatDocRef, {
-                  cacheId: newCacheId,
-                  cacheCreatedAt: Timestamp.fromDate(createdAt),
-                  lastUpdatedAt: Timestamp.now(),
-                });
-                console.log('✅ Cache info saved to Firestore:', newCacheId);
-              } catch (error) {
-                console.error('❌ Failed to save cache info to Firestore:', error);
-              }
-            }
-          },
-          onCacheUpdated: async (updatedCacheId: string, updatedAt: Date) => {
-            // Update cache timestamp
-            setCacheCreatedAt(updatedAt);
-            console.log('Cache TTL renewed:', updatedCacheId);
-
-            // Update cache timestamp in Firestore
-            if (user && currentChatId) {
-              try {
-                const chatDocRef = doc(db, 'aiChats', currentChatId);
-                await updateDoc(chatDocRef, {
-                  cacheCreatedAt: Timestamp.fromDate(updatedAt),
-                  lastUpdatedAt: Timestamp.now(),
-                });
-                console.log('✅ Cache timestamp updated in Firestore');
-              } catch (error) {
-                console.error('❌ Failed to update cache timestamp:', error);
-              }
-            }
-          },
+          messages: [...messages, userMessage],
+          conversationId: currentChatId || undefined, // Context cache kept by the Cloud Function
+        },
+        {
+          modelTier: 'lite', // AI Chat uses Lite 2.5 model
+          language: translationLanguage,
+          signal: controller.signal,
+          onTextChunk: (chunk: string) => setStreamingText((current) => (current || '') + chunk),
         }
       );
 
+      if (isSuperAdmin) {
+        Alert.alert(
+          '🔧 Token Usage (Debug)',
+          `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
+          [{ text: 'OK' }]
+        );
+      } else {
+        // Charged by the Cloud Function
+        Alert.alert(
+          '💳 Credits',
+          `💳 Credits deducted: ${usage.creditsCharged}\n` +
+          `Remaining: ${usage.remainingCredits ?? '-'}`,
+          [{ text: 'OK' }]
+        );
+      }
+
       const assistantMessage: ChatMessage = {
         role: 'assistant',
-        content: response,
+        content: output.text,
       };
 
       const updatedMessages = [...messages, userMessage, assistantMessage];
       setMessages(updatedMessages);
+      setStreamingText(null);
 
       // Save to Firebase
       saveChatHistory(updatedMessages);
@@ -366,11 +310,12 @@ export default function AIChatScreen() {
       // Refresh credit balance to update UI
       await refreshCreditBalance();
     } catch (error: any) {
+      // Left the screen
+      if (error instanceof AIError && error.code === 'cancelled') return;
       console.error('AI error:', error);
 
       // Check if it's a credit error
-      if (error.message?.includes('Insufficient credits') ||
-          error.message?.includes('Failed to deduct credits')) {
+      if (error instanceof AIError && error.code === 'insufficient_credits') {
         Alert.alert(
           t('insufficientCredits', 'Insufficient Credits'),
           t('insufficientCreditsMessage', 'You have run out of credits. Please wait for your daily/monthly reset or upgrade your plan for more credits.'),
@@ -389,6 +334,7 @@ export default function AIChatScreen() {
         setMessages((prev) => [...prev, errorMessage]);
       }
     } finally {
+      setStreamingText(null);
       setLoading(false);
     }
   };
@@ -500,7 +446,12 @@ export default function AIChatScreen() {
             </Text>
           </View>
         ))}
-        {loading && (
+        {streamingText !== null && (
+          <View style={[styles.messageBubble, styles.assistantBubble]}>
+            <Text style={[styles.messageText, styles.assistantText]}>{streamingText}</Text>
+          </View>
+        )}
+        {loading && streamingText === null && (
           <View style={styles.loadingBubble}>
             <ActivityIndicator size="small" color="#6B7280" />
           </View>
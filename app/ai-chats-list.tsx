@@ -16,6 +16,7 @@ import { ArrowLeft, Plus, MessageCircle, Star, Trash2, Info } from 'lucide-react
 import { useAuth } from '../context/AuthContext';
 import { collection, query, where, getDocs, orderBy, deleteDoc, doc, Timestamp } from 'firebase/firestore';
 import { db } from '../firebase/firebaseConfig';
+import { deleteChatContextCache } from '../services/aiClient';
 
 interface Chat {
   id: string;
@@ -120,6 +121,7 @@ export default function AIChatsListScreen() {
           onPress: async () => {
             try {
               await deleteDoc(doc(db, 'aiChats', chatId));
+              deleteChatContextCache('ai_chat', chatId, true);
               setChats(chats.filter(c => c.id !== chatId));
             } catch (error) {
               console.error('Error deleting chat:', error);
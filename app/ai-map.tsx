@@ -18,7 +18,8 @@ import { useRouter } from 'expo-router';
 import { ArrowLeft, Send, MapPin, Star, Navigation, ChevronUp, ChevronDown } from 'lucide-react-native';
 import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
 // import * as Location from 'expo-location'; // Temporarily disabled - requires rebuild
-import { chatWithAI, ChatMessage } from '../services/geminiService';
+import { ai, AIError } from '../services/aiClient';
+import { ChatMessage } from '../types/ai';
 import { useAuth } from '../context/AuthContext';
 import { useSubscription } from '../context/SubscriptionContext';
 import { CreditDisplay, CreditInfoModal } from '../components/credits';
@@ -61,42 +62,12 @@ export default function AIMapScreen() {
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
 
-  // Cache management
-  const [cacheId, setCacheId] = useState<string | null>(null);
-  const [cacheCreatedAt, setCacheCreatedAt] = useState<Date | null>(null);
-
-  // System prompt for AI Map
-  const systemPrompt = `You are a helpful location recommendation assistant for people living in Japan. Your role is to:
-
-1. Help users find nearby places like:
-   - Supermarkets (スーパー)
-   - Convenience stores (コンビニ)
-   - Restaurants (レストラン)
-   - Entertainment venues (娯楽施設)
-   - Parks and recreational areas (公園・レクリエーション)
-   - Shopping malls (ショッピングモール)
-   - Hospitals and clinics (病院・クリニック)
-   - Post offices and banks (郵便局・銀行)
-
-2. Provide detailed information about:
-   - Location descriptions
-   - Operating hours
-   - Popular items/services
-   - Price ranges
-   - Tips for visiting
-
-3. Ask for the user's current location or area of interest
-4. Provide recommendations based on:
-   - Distance from user
-   - Popularity
-   - User preferences (budget, cuisine type, etc.)
-   - Special features
-
-5. Respond in the user's preferred language
-6. Use respectful and helpful tone
-7. Include Japanese names with furigana when helpful
-
-Remember to be specific and practical with your recommendations. If you don't have exact information, suggest how the user can verify details (e.g., checking Google Maps, calling ahead).`;
+  const requestControllerRef = useRef<AbortController | null>(null); // Pending AI reply
+
+  // Leaving the screen cancels the pending reply
+  useEffect(() => {
+    return () => requestControllerRef.current?.abort();
+  }, []);
 
   // Request location permission and get current location
   // Temporarily disabled - requires rebuild with native modules
@@ -190,36 +161,41 @@ Remember to be specific and practical with your recommendations. If you don't ha
       toggleChatExpand();
     }
 
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+
     try {
-      const response = await chatWithAI(
-        updatedMessages,
-        'flash', // AI Map uses Flash 2.5 model
+      const { output } = await ai.run(
+        'ai_map',
+        { messages: updatedMessages },
         {
-          systemPrompt,
-          cacheId: cacheId || undefined,
-          cacheCreatedAt: cacheCreatedAt || undefined,
-          featureType: 'ai_map',
+          modelTier: 'flash', // AI Map uses Flash 2.5 model
+          language: i18n.language,
+          signal: controller.signal,
         }
       );
 
       const assistantMessage: ChatMessage = {
         role: 'assistant',
-        content: response.text,
+        content: output.text,
       };
 
       setMessages([...updatedMessages, assistantMessage]);
 
-      // Update cache info
-      if (response.cache?.cacheId) {
-        setCacheId(response.cache.cacheId);
-        setCacheCreatedAt(new Date(response.cache.createdAt));
-      }
-
       // Refresh credit balance
       await refreshCreditBalance();
     } catch (error: any) {
+      // Left the screen
+      if (error instanceof AIError && error.code === 'cancelled') return;
       console.error('Error sending message:', error);
-      Alert.alert(t('error'), error.message || t('failedToSendMessage'));
+      if (error instanceof AIError && error.code === 'insufficient_credits') {
+        Alert.alert(
+          t('insufficientCredits', 'Insufficient Credits'),
+          t('insufficientCreditsMessage', 'You have run out of credits. Please wait for your daily/monthly reset or upgrade your plan for more credits.')
+        );
+      } else {
+        Alert.alert(t('error'), error.message || t('failedToSendMessage'));
+      }
     } finally {
       setLoading(false);
     }
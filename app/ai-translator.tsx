@@ -16,7 +16,7 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { ArrowLeft, Send, Languages, Settings } from 'lucide-react-native';
-import { translateJapanese, TokenUsage } from '../services/geminiService';
+import { ai, AIError } from '../services/aiClient';
 import { useAuth } from '../context/AuthContext';
 import { useSubscription } from '../context/SubscriptionContext';
 import { CreditDisplay, CreditInfoModal } from '../components/credits';
@@ -29,7 +29,7 @@ interface Message {
 export default function AITranslatorScreen() {
   const { t, i18n } = useTranslation();
   const router = useRouter();
-  const { user, subscription, role } = useAuth();
+  const { user, role } = useAuth();
   const scrollViewRef = useRef<ScrollView>(null);
 
   // Check if user is logged in
@@ -67,31 +67,24 @@ export default function AITranslatorScreen() {
     setLoading(true);
 
     try {
-      // Get userId and userTier
-      const userId = user?.uid || '';
-      const userTier = subscription || 'FREE';
+      const { output, usage } = await ai.run(
+        'japanese_translation',
+        { text: userMessage.content },
+        { modelTier: 'lite', language: i18n.language } // AI Translator uses Lite 2.5 model
+      );
 
-      // Token usage callback for super admin
-      const onTokenUsage = isSuperAdmin ? (usage: TokenUsage) => {
+      // Token usage for super admin
+      if (isSuperAdmin) {
         Alert.alert(
           '🔧 Token Usage (Super Admin)',
           `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
           [{ text: 'OK' }]
         );
-      } : undefined;
-
-      const response = await translateJapanese(
-        userId,
-        userTier,
-        userMessage.content,
-        i18n.language,
-        'lite', // AI Translator uses Lite 2.5 model
-        onTokenUsage
-      );
+      }
 
       const assistantMessage: Message = {
         role: 'assistant',
-        content: response,
+        content: output.text,
       };
 
       setMessages((prev) => [...prev, assistantMessage]);
@@ -102,8 +95,7 @@ export default function AITranslatorScreen() {
       console.error('AI Translator error:', error);
 
       // Check if it's a credit error
-      if (error.message?.includes('Insufficient credits') ||
-          error.message?.includes('Failed to deduct credits')) {
+      if (error instanceof AIError && error.code === 'insufficient_credits') {
         Alert.alert(
           t('insufficientCredits', 'Insufficient Credits'),
           t('insufficientCreditsMessage', 'You have run out of credits. Please wait for your daily/monthly reset or upgrade your plan for more credits.'),
@@ -1,6 +1,6 @@
 // app/japanese-learning.tsx
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { collection, doc, getDoc, getDocs, query, setDoc, Timestamp, updateDoc, where } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, query, setDoc, Timestamp, where } from 'firebase/firestore';
 import { ArrowLeft, List, Send, Settings, Star } from 'lucide-react-native';
 import React, { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
@@ -23,17 +23,25 @@ import SaveToNotebookModal from '../components/vocabulary/SaveToNotebookModal';
 import { useAuth } from '../context/AuthContext';
 import { useSubscription } from '../context/SubscriptionContext';
 import { db } from '../firebase/firebaseConfig';
-import { chatJapaneseLearning, ChatMessage, TokenUsage } from '../services/geminiService';
+import { ai, AIError, deleteChatContextCache } from '../services/aiClient';
+import { ChatMessage, TJlptLevel } from '../types/ai';
 
-type JLPTLevel = 'N1' | 'N2' | 'N3' | 'N4' | 'N5';
 type TranslationLanguage = 'ja' | 'en' | 'vi' | 'zh' | 'ko' | 'pt' | 'es' | 'fil' | 'th' | 'id';
 
+// While streaming, hide a {{kanji|hiragana|translation}} word until its closing braces arrive
+const hideIncompleteMarkup = (text: string): string => {
+  const openIndex = text.lastIndexOf('{{');
+  const visible = openIndex > text.lastIndexOf('}}') ? text.slice(0, openIndex) : text;
+  return visible.endsWith('{') ? visible.slice(0, -1) : visible;
+};
+
 export default function JapaneseLearningScreen() {
   const { t, i18n } = useTranslation();
   const router = useRouter();
   const { chatId } = useLocalSearchParams();
   const { user, subscription, role } = useAuth();
   const scrollViewRef = useRef<ScrollView>(null);
+  const requestControllerRef = useRef<AbortController | null>(null); // Pending AI reply
 
   // Check if user is logged in
   const isSuperAdmin = role === 'superadmin';
@@ -41,7 +49,7 @@ export default function JapaneseLearningScreen() {
   const [currentChatId, setCurrentChatId] = useState<string | null>(
     typeof chatId === 'string' ? chatId : null
   );
-  const [jlptLevel, setJlptLevel] = useState<JLPTLevel>('N5');
+  const [jlptLevel, setJlptLevel] = useState<TJlptLevel>('N5');
   const [translationLanguage, setTranslationLanguage] = useState<TranslationLanguage>(
     i18n.language as TranslationLanguage
   );
@@ -59,14 +67,12 @@ export default function JapaneseLearningScreen() {
   ]);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null); // Reply being received
   const [chatHistoryLoaded, setChatHistoryLoaded] = useState(false);
 
-  // Cache management state
-  const [cacheId, setCacheId] = useState<string | null>(null);
-  const [cacheCreatedAt, setCacheCreatedAt] = useState<Date | null>(null);
 
-  const levels: JLPTLevel[] = ['N5', 'N4', 'N3', 'N2', 'N1'];
-  const levelDescriptions: Record<JLPTLevel, string> = {
+  const levels: TJlptLevel[] = ['N5', 'N4', 'N3', 'N2', 'N1'];
+  const levelDescriptions: Record<TJlptLevel, string> = {
     N5: t('jlptN5', 'Beginner - Basic phrases and simple grammar'),
     N4: t('jlptN4', 'Elementary - Daily conversation topics'),
     N3: t('jlptN3', 'Intermediate - Everyday situations'),
@@ -99,7 +105,20 @@ export default function JapaneseLearningScreen() {
     setTimeout(() => {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
-  }, [messages]);
+  }, [messages, streamingText]);
+
+  // Leaving the screen cancels the pending reply
+  useEffect(() => {
+    return () => requestControllerRef.current?.abort();
+  }, []);
+
+  // Leaving the chat drops its context cache on the server (it is rebuilt if the chat is reopened)
+  useEffect(() => {
+    if (!currentChatId) return;
+    return () => {
+      deleteChatContextCache('japanese_learning', currentChatId);
+    };
+  }, [currentChatId]);
 
   // Load chat history from Firestore
   const loadChatHistory = async () => {
@@ -144,14 +163,6 @@ export default function JapaneseLearningScreen() {
           setTranslationLanguage(chatData.translationLanguage);
         }
         setIsImportant(chatData.isImportant || false);
-
-        // Load cache data if available
-        if (chatData.cacheId) {
-          setCacheId(chatData.cacheId);
-          if (chatData.cacheCreatedAt) {
-            setCacheCreatedAt(chatData.cacheCreatedAt.toDate());
-          }
-        }
       }
     } catch (error) {
       console.error('Error loading chat history:', error);
@@ -168,7 +179,7 @@ export default function JapaneseLearningScreen() {
   };
 
   // Save chat to Firestore
-  const saveChatHistory = async (updatedMessages: ChatMessage[], currentLevel: JLPTLevel) => {
+  const saveChatHistory = async (updatedMessages: ChatMessage[], currentLevel: TJlptLevel) => {
     if (!user) return;
 
     try {
@@ -198,8 +209,6 @@ export default function JapaneseLearningScreen() {
         jlptLevel: currentLevel,
         translationLanguage: translationLanguage,
         isImportant: isImportant,
-        cacheId: cacheId || existingData?.cacheId || null,
-        cacheCreatedAt: cacheCreatedAt ? Timestamp.fromDate(cacheCreatedAt) : null,
         createdAt: existingData?.createdAt || now,
         lastUpdatedAt: now,
       });
@@ -277,102 +286,49 @@ export default function JapaneseLearningScreen() {
     setInputText('');
     setLoading(true);
 
-    try {
-      // Get userId and userTier
-      const userId = user?.uid || '';
-      const userTier = subscription || 'FREE';
-
-      // Token usage callback - show breakdown to all users
-      const onTokenUsage = (usage: TokenUsage) => {
-        if (usage.breakdown) {
-          // Show detailed breakdown
-          const breakdown = usage.breakdown;
-          const message = `📊 MODEL: ${breakdown.modelTier.toUpperCase()} (${breakdown.promptSizeTier} prompt)\n\n` +
-            `💰 COST BREAKDOWN:\n` +
-            `• Input: ${breakdown.inputTokens.toLocaleString()} tokens × $${breakdown.inputPricePerMillion}/1M = $${breakdown.inputCostUSD.toFixed(6)}\n` +
-            `• Output: ${breakdown.outputTokens.toLocaleString()} tokens × $${breakdown.outputPricePerMillion}/1M = $${breakdown.outputCostUSD.toFixed(6)}\n` +
-            (breakdown.cachingCostUSD > 0 ? `• Cache: ${breakdown.cachedTokens.toLocaleString()} tokens × $${breakdown.cachingPricePerMillion}/1M = $${breakdown.cachingCostUSD.toFixed(6)}\n` : '') +
-            (breakdown.groundingDetails?.googleSearch ? `• Google Search: $${breakdown.groundingCostUSD.toFixed(6)}\n` : '') +
-            (breakdown.groundingDetails?.googleMaps ? `• Google Maps: $${breakdown.groundingCostUSD.toFixed(6)}\n` : '') +
-            `\n📈 TOTAL: $${breakdown.totalCostUSD.toFixed(6)}\n` +
-            `× ${breakdown.profitMargin}x margin = ${breakdown.finalCredits} credits\n\n` +
-            `💳 Credits deducted: ${breakdown.finalCredits}`;
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
 
-          Alert.alert(
-            '💳 Credit Calculation',
-            message,
-            [{ text: 'OK' }]
-          );
-        } else {
-          // Fallback to simple display (for super admin debugging)
-          if (isSuperAdmin) {
-            Alert.alert(
-              '🔧 Token Usage (Debug)',
-              `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
-              [{ text: 'OK' }]
-            );
-          }
-        }
-      };
-
-      const response = await chatJapaneseLearning(
-        userId,
-        userTier,
-        [...messages, userMessage],
-        jlptLevel,
-        translationLanguage,
-        'lite', // Japanese Learning uses Lite 2.5 model
-        onTokenUsage,
-        undefined, // groundingOptions
+    try {
+      const { output, usage } = await ai.run(
+        'japanese_learning',
         {
-          cacheId: cacheId || undefined,
-          cacheCreatedAt: cacheCreatedAt || undefined,
-          onCacheCreated: async (newCacheId: string, createdAt: Date) => {
-            setCacheId(newCacheId);
-            setCacheCreatedAt(createdAt);
-
-            // Save cache info to Firestore immediately (don't wait for state update)
-            if (user && currentChatId) {
-              try {
-                const chatDocRef = doc(db, 'japaneseLearningChats', currentChatId);
-                await updateDoc(chatDocRef, {
-                  cacheId: newCacheId,
-                  cacheCreatedAt: Timestamp.fromDate(createdAt),
-                  lastUpdatedAt: Timestamp.now(),
-                });
-                console.log('✅ Cache info saved to Firestore:', newCacheId);
-              } catch (error) {
-                console.error('❌ Failed to save cache info to Firestore:', error);
-              }
-            }
-          },
-          onCacheUpdated: async (updatedCacheId: string, updatedAt: Date) => {
-            setCacheCreatedAt(updatedAt);
-
-            // Update cache timestamp in Firestore
-            if (user && currentChatId) {
-              try {
-                const chatDocRef = doc(db, 'japaneseLearningChats', currentChatId);
-                await updateDoc(chatDocRef, {
-                  cacheCreatedAt: Timestamp.fromDate(updatedAt),
-                  lastUpdatedAt: Timestamp.now(),
-                });
-                console.log('✅ Cache timestamp updated in Firestore');
-              } catch (error) {
-                console.error('❌ Failed to update cache timestamp:', error);
-              }
-            }
-          },
+          messages: [...messages, userMessage],
+          jlptLevel,
+          conversationId: currentChatId || undefined, // Context cache kept by the Cloud Function
+        },
+        {
+          modelTier: 'lite', // Japanese Learning uses Lite 2.5 model
+          language: translationLanguage,
+          signal: controller.signal,
+          onTextChunk: (chunk: string) => setStreamingText((current) => (current || '') + chunk),
         }
       );
 
+      if (isSuperAdmin) {
+        Alert.alert(
+          '🔧 Token Usage (Debug)',
+          `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
+          [{ text: 'OK' }]
+        );
+      } else {
+        // Charged by the Cloud Function
+        Alert.alert(
+          '💳 Credits',
+          `💳 Credits deducted: ${usage.creditsCharged}\n` +
+          `Remaining: ${usage.remainingCredits ?? '-'}`,
+          [{ text: 'OK' }]
+        );
+      }
+
       const assistantMessage: ChatMessage = {
         role: 'assistant',
-        content: response,
+        content: output.text,
       };
 
       const updatedMessages = [...messages, userMessage, assistantMessage];
       setMessages(updatedMessages);
+      setStreamingText(null);
 
       // Save to Firebase
       saveChatHistory(updatedMessages, jlptLevel);
@@ -380,11 +336,12 @@ export default function JapaneseLearningScreen() {
       // Refresh credit balance to update UI
       await refreshCreditBalance();
     } catch (error: any) {
+      // Left the screen
+      if (error instanceof AIError && error.code === 'cancelled') return;
       console.error('AI error:', error);
 
       // Check if it's a credit error
-      if (error.message?.includes('Insufficient credits') ||
-        error.message?.includes('Failed to deduct credits')) {
+      if (error instanceof AIError && error.code === 'insufficient_credits') {
         Alert.alert(
           t('insufficientCredits', 'Insufficient Credits'),
           t('insufficientCreditsMessage', 'You have run out of credits. Please wait for your daily/monthly reset or upgrade your plan for more credits.'),
@@ -403,11 +360,12 @@ export default function JapaneseLearningScreen() {
         setMessages((prev) => [...prev, errorMessage]);
       }
     } finally {
+      setStreamingText(null);
       setLoading(false);
     }
   };
 
-  const handleLevelChange = (level: JLPTLevel) => {
+  const handleLevelChange = (level: TJlptLevel) => {
     setJlptLevel(level);
 
     // Add system message about level change
@@ -533,7 +491,17 @@ export default function JapaneseLearningScreen() {
             )}
           </View>
         ))}
-        {loading && (
+        {streamingText !== null && (
+          <View style={[styles.messageBubble, styles.assistantBubble]}>
+            <TranslatableText
+              text={hideIncompleteMarkup(streamingText)}
+              textStyle={[styles.messageText, styles.assistantText]}
+              onSaveWord={handleSaveWord}
+              jlptLevel={jlptLevel}
+            />
+          </View>
+        )}
+        {loading && streamingText === null && (
           <View style={styles.loadingBubble}>
             <ActivityIndicator size="small" color="#6B7280" />
           </View>
@@ -273,6 +273,24 @@ export default function SettingsScreen() {
         </View>
       )}
 
+      {/* Corrections Queue Section - Only for admin and superadmin */}
+      {isAdmin && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Moderation</Text>
+          <TouchableOpacity
+            style={styles.adminPanelButton}
+            onPress={() => router.push('/admin/corrections')}
+          >
+            <Text style={styles.adminPanelIcon}>📝</Text>
+            <View style={styles.adminPanelTextContainer}>
+              <Text style={styles.adminPanelTitle}>Corrections Queue</Text>
+              <Text style={styles.adminPanelDescription}>Review wrong-category reports from users</Text>
+            </View>
+            <Text style={styles.adminPanelArrow}>→</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Language Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t('language', 'Language')}</Text>
@@ -26,7 +26,7 @@ import {
   Settings
 } from 'lucide-react-native';
 import { Alert, Modal } from 'react-native';
-import { askAboutWebContent, TokenUsage } from '../services/geminiService';
+import { ai, AIError } from '../services/aiClient';
 import { useAuth } from '../context/AuthContext';
 import { useSubscription } from '../context/SubscriptionContext';
 import { CreditDisplay, CreditInfoModal } from '../components/credits';
@@ -44,7 +44,7 @@ interface Message {
 export default function WebBrowserScreen() {
   const { t, i18n } = useTranslation();
   const router = useRouter();
-  const { user, subscription, role } = useAuth();
+  const { user, role } = useAuth();
   const webViewRef = useRef<WebView>(null);
 
   // Check if user is logged in
@@ -248,33 +248,25 @@ export default function WebBrowserScreen() {
       // Always fetch fresh page content before sending to AI
       const content = await fetchPageContent();
 
-      // Get userId and userTier
-      const userId = user?.uid || '';
-      const userTier = subscription || 'FREE';
+      // Get AI response with actual content
+      const { output, usage } = await ai.run(
+        'web_qa',
+        { pageText: content, question: userMessage.content },
+        { modelTier: 'flash', language: i18n.language } // AI Browser uses Flash 2.5 model
+      );
 
-      // Token usage callback for super admin
-      const onTokenUsage = isSuperAdmin ? (usage: TokenUsage) => {
+      // Token usage for super admin
+      if (isSuperAdmin) {
         Alert.alert(
           '🔧 Token Usage (Super Admin)',
           `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
           [{ text: 'OK' }]
         );
-      } : undefined;
-
-      // Get AI response with actual content
-      const response = await askAboutWebContent(
-        userId,
-        userTier,
-        content,
-        userMessage.content,
-        i18n.language,
-        'flash', // AI Browser uses Flash 2.5 model
-        onTokenUsage
-      );
+      }
 
       const assistantMessage: Message = {
         role: 'assistant',
-        content: response,
+        content: output.text,
       };
 
       setMessages((prev) => [...prev, assistantMessage]);
@@ -285,8 +277,7 @@ export default function WebBrowserScreen() {
       console.error('AI response error:', error);
 
       // Check if it's a credit error
-      if (error.message?.includes('Insufficient credits') ||
-          error.message?.includes('Failed to deduct credits')) {
+      if (error instanceof AIError && error.code === 'insufficient_credits') {
         Alert.alert(
           t('insufficientCredits', 'Insufficient Credits'),
           t('insufficientCreditsMessage', 'You have run out of credits. Please wait for your daily/monthly reset or upgrade your plan for more credits.'),
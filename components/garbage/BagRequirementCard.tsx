@@ -0,0 +1,151 @@
+// components/garbage/BagRequirementCard.tsx
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { IBagRequirement } from '../../types/garbageRules';
+import { DocumentIcon } from '../icons/Icons';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface BagRequirementCardProps {
+  bagRequirement: IBagRequirement;
+  referencePage?: number;
+  onOpenReference?: (page: number) => void; // Mở tài liệu gốc đúng trang để đối chiếu
+}
+
+// Màu theo loại túi
+const BAG_TYPE_COLORS: Record<IBagRequirement['type'], { background: string; text: string }> = {
+  designated: { background: '#FEF3C7', text: '#B45309' },
+  transparent: { background: '#DBEAFE', text: '#1D4ED8' },
+  no_bag: { background: '#D1FAE5', text: '#047857' },
+  unknown: { background: '#F3F4F6', text: '#4B5563' },
+};
+
+// --- COMPONENT ---
+
+// Thẻ "túi rác": loại túi, quy cách, nơi mua, và liên kết tới trang tham chiếu trong PDF
+const BagRequirementCard: React.FC<BagRequirementCardProps> = ({ bagRequirement, referencePage, onOpenReference }) => {
+  const { t } = useTranslation();
+
+  const typeLabel = {
+    designated: t('designatedBagRequired'),
+    transparent: t('transparentBagRequired'),
+    no_bag: t('noBagRequired'),
+    unknown: t('bagRequirementUnknown'),
+  }[bagRequirement.type] || t('notSpecified');
+  const colors = BAG_TYPE_COLORS[bagRequirement.type] || BAG_TYPE_COLORS.unknown;
+  const purchaseLocations = bagRequirement.purchase_locations || [];
+  const sizes = bagRequirement.sizes || [];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>{t('bagRequirement')}</Text>
+        <View style={[styles.typeBadge, { backgroundColor: colors.background }]}>
+          <Text style={[styles.typeBadgeText, { color: colors.text }]}>{typeLabel}</Text>
+        </View>
+      </View>
+
+      {bagRequirement.specifications && (
+        <Text style={styles.detailText}>{t(bagRequirement.specifications, bagRequirement.specifications)}</Text>
+      )}
+
+      {sizes.length > 0 && (
+        <Text style={styles.detailText}>
+          {t('bagSizes', 'Sizes')}: {sizes.join(' / ')}
+        </Text>
+      )}
+
+      {bagRequirement.type === 'designated' && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('whereToBuyBags', 'Where to buy')}</Text>
+          {purchaseLocations.length > 0 ? (
+            purchaseLocations.map((place, index) => (
+              <Text key={`bag-place-${index}`} style={styles.detailText}>• {t(place, place)}</Text>
+            ))
+          ) : (
+            <Text style={styles.mutedText}>
+              {t('whereToBuyBagsDefault', 'Designated bags are usually sold at supermarkets, drugstores and convenience stores in the city.')}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {referencePage && onOpenReference && (
+        <TouchableOpacity style={styles.referenceButton} onPress={() => onOpenReference(referencePage)}>
+          <DocumentIcon color="#3B82F6" size={16} />
+          <Text style={styles.referenceButtonText}>
+            {t('verifyInOfficialGuide', 'Check in the official guide (p. {{page}})', { page: referencePage })}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+export default BagRequirementCard;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#F9FAFB',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    padding: 12,
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 6,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  typeBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  typeBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  section: {
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 2,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#4B5563',
+    lineHeight: 20,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#6B7280',
+    lineHeight: 18,
+  },
+  referenceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+  },
+  referenceButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#3B82F6',
+  },
+});
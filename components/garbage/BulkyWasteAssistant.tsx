@@ -0,0 +1,521 @@
+// components/garbage/BulkyWasteAssistant.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Linking,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import {
+  buildBulkyFeeIndex,
+  estimateBulkyWasteFee,
+  findBulkyFeeItems,
+  getEarliestPickupDate,
+  matchBulkyFeeItem,
+} from '../../services/bulkyWasteService';
+import { describeScheduleRule } from '../../services/garbageCalendarService';
+import { IBulkyFeeItem, IBulkyWasteLine, IBulkyWasteRules } from '../../types/garbageRules';
+import { XIcon } from '../icons/Icons';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface BulkyWasteAssistantProps {
+  visible: boolean;
+  onClose: () => void;
+  bulkyWaste: IBulkyWasteRules;
+  initialItemName?: string | null; // Món do AI scanner nhận diện (ví dụ: sofa)
+}
+
+// --- HELPERS ---
+
+const formatYen = (amount: number): string => `¥${amount.toLocaleString('ja-JP')}`;
+
+const createLineId = (): string => `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+// --- COMPONENT ---
+
+// Trợ lý 粗大ごみ: liệt kê đồ cần vứt, ước tính phí, hướng dẫn đặt lịch / mua tem / ngày thu gom
+const BulkyWasteAssistant: React.FC<BulkyWasteAssistantProps> = ({
+  visible,
+  onClose,
+  bulkyWaste,
+  initialItemName,
+}) => {
+  const { t, i18n } = useTranslation();
+  const [lines, setLines] = useState<IBulkyWasteLine[]>([]);
+  const [itemInput, setItemInput] = useState<string>('');
+
+  const feeIndex = useMemo(() => buildBulkyFeeIndex(bulkyWaste, i18n), [bulkyWaste, i18n]);
+  const estimate = useMemo(() => estimateBulkyWasteFee(bulkyWaste, lines), [bulkyWaste, lines]);
+  const earliestPickup = useMemo(() => getEarliestPickupDate(bulkyWaste), [bulkyWaste]);
+
+  const suggestions = useMemo(
+    () => (itemInput.trim() ? findBulkyFeeItems(bulkyWaste, feeIndex, itemInput) : []),
+    [bulkyWaste, feeIndex, itemInput]
+  );
+
+  // Món từ AI scanner: tự khớp với bảng phí nếu chắc chắn
+  useEffect(() => {
+    if (!visible || !initialItemName) return;
+    setLines(current => {
+      if (current.some(line => line.name === initialItemName)) return current;
+      return [...current, {
+        id: createLineId(),
+        name: initialItemName,
+        feeItem: matchBulkyFeeItem(bulkyWaste, feeIndex, initialItemName),
+        quantity: 1,
+      }];
+    });
+  }, [visible, initialItemName, bulkyWaste, feeIndex]);
+
+  const handleClose = () => {
+    setLines([]);
+    setItemInput('');
+    onClose();
+  };
+
+  const addLine = (name: string, feeItem: IBulkyFeeItem | null) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setLines(current => {
+      // Same fee table row (a size variant of the same item is a separate line)
+      const existing = feeItem && current.find(line => line.feeItem === feeItem);
+      if (existing) {
+        return current.map(line => (line.id === existing.id ? { ...line, quantity: line.quantity + 1 } : line));
+      }
+      return [...current, { id: createLineId(), name: trimmed, feeItem, quantity: 1 }];
+    });
+    setItemInput('');
+  };
+
+  const updateQuantity = (lineId: string, delta: number) => {
+    setLines(current =>
+      current
+        .map(line => (line.id === lineId ? { ...line, quantity: line.quantity + delta } : line))
+        .filter(line => line.quantity > 0)
+    );
+  };
+
+  const assignFeeItem = (lineId: string, feeItem: IBulkyFeeItem) => {
+    setLines(current => current.map(line => (line.id === lineId ? { ...line, feeItem } : line)));
+  };
+
+  const openUrl = (url: string) => {
+    Linking.openURL(url).catch(err => console.error('Error opening link:', err));
+  };
+
+  const { booking, sticker, pickup } = bulkyWaste;
+
+  const renderLine = (line: IBulkyWasteLine) => {
+    // Món chưa khớp bảng phí: gợi ý các dòng gần nhất để người dùng chọn
+    const lineSuggestions = line.feeItem ? [] : findBulkyFeeItems(bulkyWaste, feeIndex, line.name, 3);
+
+    return (
+      <View key={line.id} style={styles.line}>
+        <View style={styles.lineRow}>
+          <View style={styles.lineInfo}>
+            <Text style={styles.lineName}>{line.feeItem ? t(line.feeItem.item, line.feeItem.item) : line.name}</Text>
+            {line.feeItem ? (
+              <Text style={styles.lineFee}>
+                {formatYen(line.feeItem.fee)}
+                {line.feeItem.size_note ? ` · ${line.feeItem.size_note}` : ''}
+              </Text>
+            ) : (
+              <Text style={styles.lineUnpriced}>{t('bulkyFeeUnknown', 'Not in the fee table, confirm when booking')}</Text>
+            )}
+          </View>
+          <View style={styles.quantityControl}>
+            <TouchableOpacity style={styles.quantityButton} onPress={() => updateQuantity(line.id, -1)}>
+              <Text style={styles.quantityButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.quantityText}>{line.quantity}</Text>
+            <TouchableOpacity style={styles.quantityButton} onPress={() => updateQuantity(line.id, 1)}>
+              <Text style={styles.quantityButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+        {lineSuggestions.length > 0 && (
+          <View style={styles.chipRow}>
+            {lineSuggestions.map(({ rowId, feeItem }) => (
+              <TouchableOpacity key={rowId} style={styles.chip} onPress={() => assignFeeItem(line.id, feeItem)}>
+                <Text style={styles.chipText}>
+                  {t(feeItem.item, feeItem.item)}{feeItem.size_note ? ` (${feeItem.size_note})` : ''} {formatYen(feeItem.fee)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{t('bulkyWasteAssistant', 'Bulky waste request')}</Text>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <XIcon size={24} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Bước 1: Liệt kê đồ cần vứt */}
+          <View style={styles.card}>
+            <Text style={styles.stepTitle}>1. {t('bulkyListItems', 'What do you want to throw away?')}</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.input}
+                value={itemInput}
+                onChangeText={setItemInput}
+                placeholder={t('bulkyItemPlaceholder', 'e.g. sofa, bicycle, desk')}
+                returnKeyType="done"
+                onSubmitEditing={() => addLine(itemInput, suggestions[0]?.feeItem ?? null)}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, !itemInput.trim() && styles.addButtonDisabled]}
+                disabled={!itemInput.trim()}
+                onPress={() => addLine(itemInput, suggestions[0]?.feeItem ?? null)}
+              >
+                <Text style={styles.addButtonText}>{t('add', 'Add')}</Text>
+              </TouchableOpacity>
+            </View>
+            {suggestions.length > 0 && (
+              <View style={styles.suggestions}>
+                {suggestions.map(({ rowId, feeItem }) => (
+                  <TouchableOpacity
+                    key={rowId}
+                    style={styles.suggestionItem}
+                    onPress={() => addLine(feeItem.item, feeItem)}
+                  >
+                    <Text style={styles.suggestionName}>
+                      {t(feeItem.item, feeItem.item)}
+                      {feeItem.size_note ? ` · ${feeItem.size_note}` : ''}
+                    </Text>
+                    <Text style={styles.suggestionFee}>{formatYen(feeItem.fee)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            {lines.length > 0 ? (
+              <View style={styles.lines}>{lines.map(renderLine)}</View>
+            ) : (
+              <Text style={styles.mutedText}>{t('bulkyNoItems', 'Add the items you want collected to estimate the fee.')}</Text>
+            )}
+          </View>
+
+          {/* Ước tính phí */}
+          {lines.length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.stepTitle}>{t('bulkyEstimatedFee', 'Estimated fee')}</Text>
+              <Text style={styles.totalText}>{formatYen(estimate.total)}</Text>
+              {estimate.stickers.length > 0 && (
+                <Text style={styles.detailText}>
+                  {sticker?.name || t('bulkySticker', 'Fee stickers')}:{' '}
+                  {estimate.stickers.map(s => `${formatYen(s.denomination)} × ${s.count}`).join(', ')}
+                </Text>
+              )}
+              {estimate.unpricedCount > 0 && (
+                <Text style={styles.warningText}>
+                  {t('bulkyUnpricedWarning', '{{count}} item(s) are not in the fee table and are not included.', {
+                    count: estimate.unpricedCount,
+                  })}
+                </Text>
+              )}
+              {estimate.exceedsMaxItems && (
+                <Text style={styles.warningText}>
+                  {t('bulkyMaxItemsWarning', 'At most {{count}} items can be collected per request.', {
+                    count: pickup?.max_items,
+                  })}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Bước 2: Đặt lịch */}
+          <View style={styles.card}>
+            <Text style={styles.stepTitle}>2. {t('bulkyBookPickup', 'Book a pickup')}</Text>
+            {booking?.lead_time_days ? (
+              <Text style={styles.detailText}>
+                {t('bulkyLeadTime', 'Book at least {{count}} days in advance.', { count: booking.lead_time_days })}
+              </Text>
+            ) : null}
+            {booking?.hours && (
+              <Text style={styles.detailText}>{t('bulkyBookingHours', 'Reception hours')}: {booking.hours}</Text>
+            )}
+            <View style={styles.bookingButtons}>
+              {booking?.phone && (
+                <TouchableOpacity
+                  style={styles.bookingButton}
+                  onPress={() => openUrl(`tel:${booking.phone!.replace(/[^0-9+]/g, '')}`)}
+                >
+                  <Text style={styles.bookingButtonText}>{t('bulkyCall', 'Call')} {booking.phone}</Text>
+                </TouchableOpacity>
+              )}
+              {booking?.url && (
+                <TouchableOpacity style={styles.bookingButton} onPress={() => openUrl(booking.url!)}>
+                  <Text style={styles.bookingButtonText}>{t('bulkyBookOnline', 'Book online')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {(booking?.notes || []).map((note, index) => (
+              <Text key={`booking-note-${index}`} style={styles.detailText}>• {t(note, note)}</Text>
+            ))}
+          </View>
+
+          {/* Bước 3: Mua tem phí */}
+          <View style={styles.card}>
+            <Text style={styles.stepTitle}>3. {t('bulkyBuyStickers', 'Buy fee stickers')}</Text>
+            {sticker?.name && <Text style={styles.detailText}>{sticker.name}</Text>}
+            {(sticker?.purchase_locations || []).map((place, index) => (
+              <Text key={`sticker-place-${index}`} style={styles.detailText}>• {t(place, place)}</Text>
+            ))}
+            <Text style={styles.mutedText}>
+              {t('bulkyStickerHint', 'Write your name or booking number on each sticker and attach it to the item.')}
+            </Text>
+          </View>
+
+          {/* Bước 4: Ngày thu gom */}
+          <View style={styles.card}>
+            <Text style={styles.stepTitle}>4. {t('bulkyPickupDay', 'On pickup day')}</Text>
+            {(pickup?.schedule || []).length > 0 && (
+              <Text style={styles.detailText}>
+                {t('bulkyPickupDays', 'Pickup days')}: {(pickup.schedule || []).map(rule => describeScheduleRule(rule, t)).join(', ')}
+              </Text>
+            )}
+            {earliestPickup && (
+              <Text style={styles.detailText}>
+                {t('bulkyEarliestPickup', 'Earliest pickup if you book today')}: {earliestPickup.toLocaleDateString(i18n.language)}
+              </Text>
+            )}
+            {pickup?.place && <Text style={styles.detailText}>{t('bulkyPickupPlace', 'Place')}: {t(pickup.place, pickup.place)}</Text>}
+            {pickup?.time && <Text style={styles.detailText}>{t('bulkyPickupTime', 'Time')}: {t(pickup.time, pickup.time)}</Text>}
+            {(pickup?.notes || []).map((note, index) => (
+              <Text key={`pickup-note-${index}`} style={styles.detailText}>• {t(note, note)}</Text>
+            ))}
+          </View>
+
+          {(bulkyWaste.notes || []).length > 0 && (
+            <View style={styles.card}>
+              <Text style={styles.stepTitle}>{t('importantNotes')}</Text>
+              {(bulkyWaste.notes || []).map((note, index) => (
+                <Text key={`note-${index}`} style={styles.detailText}>• {t(note, note)}</Text>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+export default BulkyWasteAssistant;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  stepTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  addButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  suggestions: {
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+  },
+  suggestionItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  suggestionName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  suggestionFee: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  lines: {
+    marginTop: 12,
+    gap: 8,
+  },
+  line: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  lineInfo: {
+    flex: 1,
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  lineFee: {
+    fontSize: 13,
+    color: '#4B5563',
+    marginTop: 2,
+  },
+  lineUnpriced: {
+    fontSize: 13,
+    color: '#B45309',
+    marginTop: 2,
+  },
+  quantityControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  quantityButtonText: {
+    fontSize: 18,
+    color: '#374151',
+  },
+  quantityText: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: '#EFF6FF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#2563EB',
+  },
+  totalText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#4B5563',
+    lineHeight: 20,
+    marginTop: 2,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    marginTop: 8,
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#B45309',
+    marginTop: 6,
+  },
+  bookingButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginVertical: 8,
+  },
+  bookingButton: {
+    backgroundColor: '#2563EB',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  bookingButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,382 @@
+// components/garbage/CollectionCalendar.tsx
+
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  addDays,
+  expandCollectionCalendar,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  toDateKey,
+} from '../../services/garbageCalendarService';
+import { CalendarViewMode, ICollectionDay, IWasteCategory } from '../../types/garbageRules';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface CollectionCalendarProps {
+  wasteCategories: Record<string, IWasteCategory> | undefined;
+  districtId: string | null;
+}
+
+const WEEKDAY_KEYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Bảng màu cho từng loại rác (theo thứ tự category)
+const CATEGORY_COLORS = ['#10B981', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6366F1'];
+
+// --- COMPONENT ---
+
+const CollectionCalendar: React.FC<CollectionCalendarProps> = ({ wasteCategories, districtId }) => {
+  const { t } = useTranslation();
+  const [viewMode, setViewMode] = useState<CalendarViewMode>('week');
+  const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
+
+  const todayKey = toDateKey(new Date());
+
+  const categoryColors = useMemo<Record<string, string>>(() => {
+    const colors: Record<string, string> = {};
+    Object.keys(wasteCategories || {}).forEach((key, index) => {
+      colors[key] = CATEGORY_COLORS[index % CATEGORY_COLORS.length];
+    });
+    return colors;
+  }, [wasteCategories]);
+
+  // Khoảng ngày cần mở rộng theo chế độ xem
+  const days = useMemo<ICollectionDay[]>(() => {
+    if (viewMode === 'day') {
+      return expandCollectionCalendar(wasteCategories, districtId, selectedDate, 1);
+    }
+    if (viewMode === 'week') {
+      return expandCollectionCalendar(wasteCategories, districtId, startOfWeek(selectedDate), 7);
+    }
+    // Lưới tháng: 6 tuần bắt đầu từ Chủ nhật trước ngày 1
+    return expandCollectionCalendar(wasteCategories, districtId, startOfWeek(startOfMonth(selectedDate)), 42);
+  }, [viewMode, selectedDate, wasteCategories, districtId]);
+
+  const selectedDay = useMemo<ICollectionDay | undefined>(
+    () => days.find(d => d.dateKey === toDateKey(selectedDate)),
+    [days, selectedDate]
+  );
+
+  const handleNavigate = (direction: 1 | -1) => {
+    if (viewMode === 'day') {
+      setSelectedDate(addDays(selectedDate, direction));
+    } else if (viewMode === 'week') {
+      setSelectedDate(addDays(selectedDate, direction * 7));
+    } else {
+      setSelectedDate(new Date(selectedDate.getFullYear(), selectedDate.getMonth() + direction, 1));
+    }
+  };
+
+  const formatDate = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`;
+
+  const headerTitle = (() => {
+    if (viewMode === 'day') {
+      return `${formatDate(selectedDate)} (${t(WEEKDAY_KEYS[selectedDate.getDay()])})`;
+    }
+    if (viewMode === 'week') {
+      return `${formatDate(days[0].date)} - ${formatDate(days[days.length - 1].date)}`;
+    }
+    return `${selectedDate.getFullYear()}/${selectedDate.getMonth() + 1}`;
+  })();
+
+  const renderCategoryChips = (day: ICollectionDay) => (
+    <View style={styles.chipContainer}>
+      {day.categories.map(category => (
+        <View key={category} style={[styles.chip, { backgroundColor: categoryColors[category] }]}>
+          <Text style={styles.chipText}>{t(category, category)}</Text>
+        </View>
+      ))}
+      {day.skippedCategories.map(category => (
+        <View key={`skip-${category}`} style={[styles.chip, styles.chipSkipped]}>
+          <Text style={styles.chipSkippedText}>{t(category, category)}</Text>
+        </View>
+      ))}
+      {day.suspendedCategories.map(category => (
+        <View key={`suspend-${category}`} style={[styles.chip, styles.chipSkipped]}>
+          <Text style={styles.chipSkippedText}>{t(category, category)}</Text>
+        </View>
+      ))}
+      {day.categories.length === 0 && day.skippedCategories.length === 0 && day.suspendedCategories.length === 0 && (
+        <Text style={styles.emptyText}>{t('noCollection', 'No collection')}</Text>
+      )}
+    </View>
+  );
+
+  const renderDayView = () => (
+    <View style={styles.dayView}>
+      {selectedDay && renderCategoryChips(selectedDay)}
+      {selectedDay?.isHoliday && (
+        <Text style={styles.holidayText}>{t('nationalHoliday', 'National holiday')}</Text>
+      )}
+    </View>
+  );
+
+  const renderWeekView = () => (
+    <View>
+      {days.map(day => (
+        <TouchableOpacity
+          key={day.dateKey}
+          style={[styles.weekRow, day.dateKey === todayKey && styles.todayRow]}
+          onPress={() => {
+            setSelectedDate(day.date);
+            setViewMode('day');
+          }}
+        >
+          <Text style={[styles.weekDate, day.isHoliday && styles.holidayDate]}>
+            {formatDate(day.date)} {t(WEEKDAY_KEYS[day.date.getDay()])}
+          </Text>
+          {renderCategoryChips(day)}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderMonthView = () => (
+    <View>
+      <View style={styles.monthHeaderRow}>
+        {WEEKDAY_KEYS.map(key => (
+          <Text key={key} style={styles.monthHeaderText} numberOfLines={1}>
+            {t(key).slice(0, 3)}
+          </Text>
+        ))}
+      </View>
+      <View style={styles.monthGrid}>
+        {days.map(day => {
+          const isCurrentMonth = day.date.getMonth() === selectedDate.getMonth();
+          const isSelected = day.dateKey === toDateKey(selectedDate);
+          return (
+            <TouchableOpacity
+              key={day.dateKey}
+              style={[
+                styles.monthCell,
+                isSelected && styles.monthCellSelected,
+                day.dateKey === todayKey && styles.monthCellToday,
+              ]}
+              onPress={() => setSelectedDate(day.date)}
+            >
+              <Text
+                style={[
+                  styles.monthCellText,
+                  !isCurrentMonth && styles.monthCellTextMuted,
+                  (day.isHoliday || day.date.getDay() === 0) && styles.holidayDate,
+                ]}
+              >
+                {day.date.getDate()}
+              </Text>
+              <View style={styles.dotRow}>
+                {day.categories.map(category => (
+                  <View key={category} style={[styles.dot, { backgroundColor: categoryColors[category] }]} />
+                ))}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {selectedDay && (
+        <View style={styles.monthSelectedDetail}>
+          <Text style={styles.weekDate}>
+            {formatDate(selectedDay.date)} {t(WEEKDAY_KEYS[selectedDay.date.getDay()])}
+          </Text>
+          {renderCategoryChips(selectedDay)}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View>
+      {/* Chọn chế độ xem */}
+      <View style={styles.modeContainer}>
+        {(['day', 'week', 'month'] as CalendarViewMode[]).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.modeButton, viewMode === mode && styles.modeButtonActive]}
+            onPress={() => setViewMode(mode)}
+          >
+            <Text style={[styles.modeText, viewMode === mode && styles.modeTextActive]}>
+              {mode === 'day' ? t('calendarDay', 'Day') : mode === 'week' ? t('calendarWeek', 'Week') : t('calendarMonth', 'Month')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Điều hướng */}
+      <View style={styles.navRow}>
+        <TouchableOpacity onPress={() => handleNavigate(-1)} style={styles.navButton}>
+          <Text style={styles.navButtonText}>‹</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setSelectedDate(startOfDay(new Date()))}>
+          <Text style={styles.navTitle}>{headerTitle}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleNavigate(1)} style={styles.navButton}>
+          <Text style={styles.navButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {viewMode === 'day' && renderDayView()}
+      {viewMode === 'week' && renderWeekView()}
+      {viewMode === 'month' && renderMonthView()}
+    </View>
+  );
+};
+
+export default CollectionCalendar;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  modeContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 12,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4B5563',
+  },
+  modeTextActive: {
+    color: '#1F2937',
+  },
+  navRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  navButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  navButtonText: {
+    fontSize: 24,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  navTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  dayView: {
+    paddingVertical: 8,
+  },
+  weekRow: {
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  todayRow: {
+    backgroundColor: '#EFF6FF',
+    borderRadius: 6,
+  },
+  weekDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  holidayDate: {
+    color: '#DC2626',
+  },
+  holidayText: {
+    fontSize: 12,
+    color: '#DC2626',
+    marginTop: 6,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  chipSkipped: {
+    backgroundColor: '#F3F4F6',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+  },
+  chipSkippedText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+  },
+  monthHeaderRow: {
+    flexDirection: 'row',
+  },
+  monthHeaderText: {
+    width: `${100 / 7}%`,
+    textAlign: 'center',
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  monthGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  monthCell: {
+    width: `${100 / 7}%`,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 6,
+  },
+  monthCellSelected: {
+    backgroundColor: '#DBEAFE',
+  },
+  monthCellToday: {
+    borderWidth: 1,
+    borderColor: '#3B82F6',
+  },
+  monthCellText: {
+    fontSize: 13,
+    color: '#1F2937',
+  },
+  monthCellTextMuted: {
+    color: '#D1D5DB',
+  },
+  dotRow: {
+    flexDirection: 'row',
+    gap: 2,
+    marginTop: 2,
+    height: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  monthSelectedDetail: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+  },
+});
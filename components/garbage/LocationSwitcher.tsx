@@ -0,0 +1,220 @@
+// components/garbage/LocationSwitcher.tsx
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useLocation } from '../../context/LocationContext';
+import { ISavedLocation } from '../../types/locations';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface LocationSwitcherProps {
+  onAddLocation: () => void;
+}
+
+// --- COMPONENT ---
+
+// Chuyển nhanh giữa các địa điểm đã lưu (nhà, chỗ làm, nhà bố mẹ...)
+const LocationSwitcher: React.FC<LocationSwitcherProps> = ({ onAddLocation }) => {
+  const { t } = useTranslation();
+  const { savedLocations, activeLocationId, switchLocation, renameLocation, removeLocation } = useLocation();
+
+  const [renamingLocation, setRenamingLocation] = useState<ISavedLocation | null>(null);
+  const [labelInput, setLabelInput] = useState<string>('');
+
+  const handleLongPress = (location: ISavedLocation) => {
+    Alert.alert(location.label, location.locationString, [
+      {
+        text: t('rename', 'Rename'),
+        onPress: () => {
+          setLabelInput(location.label);
+          setRenamingLocation(location);
+        },
+      },
+      {
+        text: t('remove', 'Remove'),
+        style: 'destructive',
+        onPress: () => {
+          Alert.alert(
+            t('removeLocationTitle', 'Remove location?'),
+            t('removeLocationMessage', 'Its cached rules and reminders will be removed from this device.'),
+            [
+              { text: t('cancel', 'Cancel'), style: 'cancel' },
+              { text: t('remove', 'Remove'), style: 'destructive', onPress: () => removeLocation(location.id) },
+            ]
+          );
+        },
+      },
+      { text: t('cancel', 'Cancel'), style: 'cancel' },
+    ]);
+  };
+
+  const handleSaveLabel = async () => {
+    if (renamingLocation) {
+      await renameLocation(renamingLocation.id, labelInput);
+    }
+    setRenamingLocation(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {savedLocations.map(location => {
+          const isActive = location.id === activeLocationId;
+          return (
+            <TouchableOpacity
+              key={location.id}
+              style={[styles.chip, isActive && styles.chipActive]}
+              onPress={() => !isActive && switchLocation(location.id)}
+              onLongPress={() => handleLongPress(location)}
+            >
+              <Text style={[styles.chipText, isActive && styles.chipTextActive]} numberOfLines={1}>
+                {location.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={[styles.chip, styles.addChip]} onPress={onAddLocation}>
+          <Text style={styles.addChipText}>+ {t('addLocation', 'Add location')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {savedLocations.length > 1 && (
+        <Text style={styles.hint}>{t('locationSwitcherHint', 'Long press a location to rename or remove it')}</Text>
+      )}
+
+      {/* Đổi tên địa điểm */}
+      <Modal
+        visible={!!renamingLocation}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRenamingLocation(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('renameLocation', 'Rename location')}</Text>
+            <TextInput
+              style={styles.input}
+              value={labelInput}
+              onChangeText={setLabelInput}
+              placeholder={t('locationLabelPlaceholder', 'e.g. Home, Work, Parents')}
+              autoFocus
+              maxLength={30}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity onPress={() => setRenamingLocation(null)} style={styles.modalButton}>
+                <Text style={styles.modalCancelText}>{t('cancel', 'Cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSaveLabel} style={[styles.modalButton, styles.modalSaveButton]}>
+                <Text style={styles.modalSaveText}>{t('save', 'Save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+export default LocationSwitcher;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chipRow: {
+    gap: 8,
+    paddingVertical: 2,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    maxWidth: 160,
+  },
+  chipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  addChip: {
+    borderStyle: 'dashed',
+    borderColor: '#9CA3AF',
+  },
+  addChipText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  hint: {
+    fontSize: 11,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 16,
+  },
+  modalButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  modalSaveButton: {
+    backgroundColor: '#3B82F6',
+  },
+  modalCancelText: {
+    color: '#6B7280',
+    fontWeight: '600',
+  },
+  modalSaveText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,188 @@
+// components/garbage/ReminderSettingsCard.tsx
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getReminderSettings,
+  requestReminderPermission,
+  rescheduleGarbageReminders,
+  saveReminderSettings,
+} from '../../services/garbageReminderService';
+import { IReminderSettings } from '../../types/garbageRules';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface ReminderSettingsCardProps {
+  locationId: string | null; // Cài đặt nhắc nhở riêng cho từng địa điểm đã lưu
+  categories: string[];
+}
+
+const MINUTE_STEP = 15;
+
+// --- COMPONENT ---
+
+const ReminderSettingsCard: React.FC<ReminderSettingsCardProps> = ({ locationId, categories }) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<IReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [scheduledCount, setScheduledCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    setScheduledCount(null);
+    getReminderSettings(locationId).then(setSettings);
+  }, [locationId]);
+
+  // Lưu cài đặt rồi tính lại toàn bộ nhắc nhở
+  const applySettings = async (newSettings: IReminderSettings) => {
+    if (!locationId) return;
+    setSettings(newSettings);
+    try {
+      await saveReminderSettings(locationId, newSettings);
+      const count = await rescheduleGarbageReminders(t);
+      setScheduledCount(newSettings.enabled ? count : null);
+    } catch (error) {
+      console.error('Error updating reminders:', error);
+    }
+  };
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    if (enabled) {
+      const granted = await requestReminderPermission();
+      if (!granted) {
+        Alert.alert(
+          t('permissionRequired', 'Permission Required'),
+          t('notificationPermissionMessage', 'Please allow notifications to receive collection reminders')
+        );
+        return;
+      }
+    }
+    await applySettings({ ...settings, enabled });
+  };
+
+  const handleShiftTime = (direction: 1 | -1) => {
+    const totalMinutes = (settings.hour * 60 + settings.minute + direction * MINUTE_STEP + 24 * 60) % (24 * 60);
+    applySettings({ ...settings, hour: Math.floor(totalMinutes / 60), minute: totalMinutes % 60 });
+  };
+
+  const handleToggleCategory = (category: string, on: boolean) => {
+    const mutedCategories = on
+      ? settings.mutedCategories.filter(c => c !== category)
+      : [...settings.mutedCategories, category];
+    applySettings({ ...settings, mutedCategories });
+  };
+
+  const timeLabel = `${String(settings.hour).padStart(2, '0')}:${String(settings.minute).padStart(2, '0')}`;
+
+  return (
+    <View>
+      <View style={styles.row}>
+        <View style={styles.rowText}>
+          <Text style={styles.label}>{t('collectionReminders', 'Collection reminders')}</Text>
+          <Text style={styles.hint}>
+            {t('collectionRemindersHint', 'Get notified the evening before each collection day')}
+          </Text>
+        </View>
+        <Switch value={settings.enabled} onValueChange={handleToggleEnabled} />
+      </View>
+
+      {settings.enabled && (
+        <>
+          {/* Giờ nhắc nhở */}
+          <View style={styles.row}>
+            <Text style={styles.label}>{t('reminderTime', 'Reminder time (day before)')}</Text>
+            <View style={styles.timeStepper}>
+              <TouchableOpacity onPress={() => handleShiftTime(-1)} style={styles.stepButton}>
+                <Text style={styles.stepButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.timeText}>{timeLabel}</Text>
+              <TouchableOpacity onPress={() => handleShiftTime(1)} style={styles.stepButton}>
+                <Text style={styles.stepButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Bật/tắt từng loại rác */}
+          {categories.map(category => (
+            <View key={category} style={styles.categoryRow}>
+              <Text style={styles.categoryText}>{t(category, category)}</Text>
+              <Switch
+                value={!settings.mutedCategories.includes(category)}
+                onValueChange={on => handleToggleCategory(category, on)}
+              />
+            </View>
+          ))}
+
+          {scheduledCount !== null && (
+            <Text style={styles.hint}>
+              {t('remindersScheduled', '{{count}} reminders scheduled', { count: scheduledCount })}
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+export default ReminderSettingsCard;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  timeStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#EFF6FF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonText: {
+    fontSize: 18,
+    color: '#3B82F6',
+    fontWeight: '600',
+  },
+  timeText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    minWidth: 52,
+    textAlign: 'center',
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+    paddingLeft: 8,
+  },
+  categoryText: {
+    fontSize: 14,
+    color: '#4B5563',
+    flex: 1,
+  },
+});
@@ -0,0 +1,280 @@
+// components/garbage/ReportCorrectionModal.tsx
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useAuth } from '../../context/AuthContext';
+import { submitGarbageCorrection } from '../../services/correctionService';
+import type { GarbageAnalysisResult } from '../../services/geminiService';
+import { TCorrectionSource } from '../../types/corrections';
+import { IWasteCategory } from '../../types/garbageRules';
+import { XIcon } from '../icons/Icons';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface ReportCorrectionModalProps {
+  visible: boolean;
+  onClose: () => void;
+  source: TCorrectionSource;
+  compositeId: string | null;
+  wasteCategories: Record<string, IWasteCategory> | undefined;
+  initialItemName: string;
+  originalCategory: string | null; // Loại rác đang hiển thị (AI hoặc rules)
+  imageUri?: string | null; // Ảnh scanner đã chụp
+  analysis?: GarbageAnalysisResult | null;
+  itemIndex?: number;
+}
+
+const MAX_NOTE_LENGTH = 500;
+
+// --- COMPONENT ---
+
+// "Thông tin này sai": người dùng chọn loại rác đúng, báo cáo vào hàng đợi để admin duyệt
+const ReportCorrectionModal: React.FC<ReportCorrectionModalProps> = ({
+  visible,
+  onClose,
+  source,
+  compositeId,
+  wasteCategories,
+  initialItemName,
+  originalCategory,
+  imageUri,
+  analysis,
+  itemIndex,
+}) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [itemName, setItemName] = useState<string>(initialItemName);
+  const [correctedCategory, setCorrectedCategory] = useState<string | null>(null);
+  const [note, setNote] = useState<string>('');
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  // Mỗi lần mở: điền sẵn đồ vật đang được báo sai
+  useEffect(() => {
+    if (!visible) return;
+    setItemName(initialItemName);
+    setCorrectedCategory(null);
+    setNote('');
+  }, [visible, initialItemName]);
+
+  const categoryKeys = Object.keys(wasteCategories || {}).filter(key => key !== originalCategory);
+  const canSubmit = !!user && !!compositeId && !!itemName.trim() && !!correctedCategory && !submitting;
+
+  const handleSubmit = async () => {
+    if (!user || !compositeId || !correctedCategory) return;
+
+    setSubmitting(true);
+    try {
+      await submitGarbageCorrection(user.uid, {
+        source,
+        compositeId,
+        itemName: itemName.trim(),
+        originalCategory,
+        correctedCategory,
+        note: note.trim() || undefined,
+        imageUri: imageUri ?? null,
+        analysis: analysis ?? null,
+        itemIndex,
+      });
+      Alert.alert(
+        t('correctionSubmitted', 'Thanks for the report'),
+        t('correctionSubmittedMessage', 'An admin will review it. Once approved, the rules and the scanner will be updated.')
+      );
+      onClose();
+    } catch (error: any) {
+      Alert.alert(t('error', 'Error'), t(error.message || 'errorSubmittingCorrection', 'Could not send the report. Please try again.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{t('reportWrongCategory', 'Report a wrong category')}</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <XIcon size={24} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Đồ vật */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('correctionItemName', 'Item')}</Text>
+            <TextInput
+              style={styles.input}
+              value={itemName}
+              onChangeText={setItemName}
+              maxLength={100}
+              placeholder={t('correctionItemPlaceholder', 'e.g. ペットボトルのキャップ')}
+            />
+            {originalCategory && (
+              <Text style={styles.mutedText}>
+                {t('correctionCurrentCategory', 'Currently shown as')}: {t(originalCategory, originalCategory)}
+              </Text>
+            )}
+          </View>
+
+          {/* Loại rác đúng */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('correctionCorrectCategory', 'Correct category')}</Text>
+            <View style={styles.chipRow}>
+              {categoryKeys.map(key => (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.chip, correctedCategory === key && styles.chipSelected]}
+                  onPress={() => setCorrectedCategory(key)}
+                >
+                  <Text style={[styles.chipText, correctedCategory === key && styles.chipTextSelected]}>
+                    {t(key, key)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Ghi chú */}
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('correctionNote', 'Note (optional)')}</Text>
+            <TextInput
+              style={[styles.input, styles.noteInput]}
+              value={note}
+              onChangeText={setNote}
+              maxLength={MAX_NOTE_LENGTH}
+              multiline
+              placeholder={t('correctionNotePlaceholder', 'e.g. The city guide lists this as non-burnable')}
+            />
+            {!!imageUri && (
+              <Text style={styles.mutedText}>{t('correctionPhotoAttached', 'Your photo will be attached to the report.')}</Text>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+            disabled={!canSubmit}
+            onPress={handleSubmit}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.submitButtonText}>{t('sendReport', 'Send report')}</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+export default ReportCorrectionModal;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  noteInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    backgroundColor: '#FFFFFF',
+  },
+  chipSelected: {
+    backgroundColor: '#2563EB',
+    borderColor: '#2563EB',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#2563EB',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,373 @@
+// components/garbage/ScanHistoryModal.tsx
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useAuth } from '../../context/AuthContext';
+import { useLocation } from '../../context/LocationContext';
+import {
+  deleteScanHistoryEntry,
+  filterScanHistory,
+  findSavedItems,
+  getScanHistory,
+  getScanThumbnailUrl,
+} from '../../services/scanHistoryService';
+import { IScanHistoryEntry, ISavedGarbageItem } from '../../types/scanHistory';
+import { XIcon } from '../icons/Icons';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface ScanHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  savedItems: ISavedGarbageItem[];
+  onSelectEntry: (entry: IScanHistoryEntry, thumbnailUrl: string | null) => void; // Mở lại kết quả, không gọi AI
+  onSelectSavedItem: (item: ISavedGarbageItem) => void;
+  onRemoveSavedItem: (item: ISavedGarbageItem) => void;
+}
+
+type HistoryTab = 'history' | 'saved';
+
+// --- COMPONENT CON ---
+
+// Ảnh thu nhỏ tải theo từng dòng (URL của Storage được cache trong service)
+const HistoryThumbnail: React.FC<{ path: string | null; onLoaded?: (url: string) => void }> = ({ path, onLoaded }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!path) return;
+    let isActive = true;
+    getScanThumbnailUrl(path)
+      .then(downloadUrl => {
+        if (!isActive) return;
+        setUrl(downloadUrl);
+        onLoaded?.(downloadUrl);
+      })
+      .catch(error => console.warn('Error loading thumbnail:', error));
+    return () => { isActive = false; };
+  }, [path]);
+
+  return url
+    ? <Image source={{ uri: url }} style={styles.thumbnail} />
+    : <View style={[styles.thumbnail, styles.thumbnailPlaceholder]} />;
+};
+
+// --- COMPONENT ---
+
+// Lịch sử quét và đồ vật đã lưu: xem lại kết quả cũ mà không tốn credits
+const ScanHistoryModal: React.FC<ScanHistoryModalProps> = ({
+  visible,
+  onClose,
+  savedItems,
+  onSelectEntry,
+  onSelectSavedItem,
+  onRemoveSavedItem,
+}) => {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const { savedLocations } = useLocation();
+  const [activeTab, setActiveTab] = useState<HistoryTab>('history');
+  const [entries, setEntries] = useState<IScanHistoryEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!visible || !user) return;
+    setLoading(true);
+    getScanHistory(user.uid)
+      .then(setEntries)
+      .catch(error => {
+        console.error('Error loading scan history:', error);
+        Alert.alert(t('error', 'Error'), t('errorLoadingScanHistory', 'Could not load your scan history.'));
+      })
+      .finally(() => setLoading(false));
+  }, [visible, user]);
+
+  const translate = (key: string) => t(key, key);
+
+  const filteredEntries = useMemo(
+    () => filterScanHistory(entries, searchQuery, translate),
+    [entries, searchQuery, i18n.language]
+  );
+  const filteredSavedItems = useMemo(
+    () => findSavedItems(savedItems, null, searchQuery, translate),
+    [savedItems, searchQuery, i18n.language]
+  );
+
+  // Tên địa điểm đã lưu (Nhà, Công ty...) thay cho compositeId nếu có
+  const getMunicipalityLabel = (compositeId: string) =>
+    savedLocations.find(location => location.compositeId === compositeId)?.label || compositeId;
+
+  const handleClose = () => {
+    setSearchQuery('');
+    onClose();
+  };
+
+  const handleDeleteEntry = (entry: IScanHistoryEntry) => {
+    Alert.alert(
+      t('deleteScan', 'Delete scan'),
+      t('deleteScanMessage', 'Remove this scan from your history?'),
+      [
+        { text: t('cancel', 'Cancel'), style: 'cancel' },
+        {
+          text: t('delete', 'Delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteScanHistoryEntry(entry);
+              setEntries(current => current.filter(e => e.id !== entry.id));
+            } catch (error) {
+              console.error('Error deleting scan:', error);
+              Alert.alert(t('error', 'Error'), t('errorDeletingScan', 'Could not delete this scan.'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderEntry = (entry: IScanHistoryEntry) => (
+    <TouchableOpacity
+      key={entry.id}
+      style={styles.row}
+      onPress={() => onSelectEntry(entry, thumbnailUrls[entry.id] || null)}
+      onLongPress={() => handleDeleteEntry(entry)}
+    >
+      <HistoryThumbnail
+        path={entry.thumbnailPath}
+        onLoaded={url => setThumbnailUrls(current => ({ ...current, [entry.id]: url }))}
+      />
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {entry.itemNames.join(', ') || t('noItemsDetected', 'No items detected')}
+        </Text>
+        {entry.mode === 'marks' ? (
+          <Text style={styles.rowSubtitle}>{t('scanModeMarks', 'Recycling marks')}</Text>
+        ) : entry.categories.length > 0 && (
+          <Text style={styles.rowSubtitle} numberOfLines={1}>
+            {Array.from(new Set(entry.categories)).map(translate).join(', ')}
+          </Text>
+        )}
+        <Text style={styles.rowMeta} numberOfLines={1}>
+          {getMunicipalityLabel(entry.compositeId)}
+          {entry.lastScannedAt ? ` · ${entry.lastScannedAt.toLocaleDateString(i18n.language)}` : ''}
+          {entry.scanCount > 1 ? ` · ×${entry.scanCount}` : ''}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => handleDeleteEntry(entry)} style={styles.rowAction}>
+        <XIcon size={16} color="#9CA3AF" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  const renderSavedItem = (item: ISavedGarbageItem) => (
+    <TouchableOpacity key={item.id} style={styles.row} onPress={() => onSelectSavedItem(item)}>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{item.itemName}</Text>
+        {item.category && <Text style={styles.rowSubtitle}>{translate(item.category)}</Text>}
+        <Text style={styles.rowMeta} numberOfLines={1}>{getMunicipalityLabel(item.compositeId)}</Text>
+      </View>
+      <TouchableOpacity onPress={() => onRemoveSavedItem(item)} style={styles.rowAction}>
+        <XIcon size={16} color="#9CA3AF" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>{t('scanHistory', 'Scan history')}</Text>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <XIcon size={24} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Tabs: lịch sử / đã lưu */}
+        <View style={styles.tabs}>
+          {(['history', 'saved'] as HistoryTab[]).map(tab => (
+            <TouchableOpacity
+              key={tab}
+              style={[styles.tab, activeTab === tab && styles.tabActive]}
+              onPress={() => setActiveTab(tab)}
+            >
+              <Text style={[styles.tabText, activeTab === tab && styles.tabTextActive]}>
+                {tab === 'history'
+                  ? t('scanHistoryTab', 'History')
+                  : `${t('savedItemsTab', 'Saved items')} (${savedItems.length})`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder={t('searchScanHistory', 'Search by item, category or city')}
+            autoCorrect={false}
+          />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {activeTab === 'history' && (
+            loading ? (
+              <ActivityIndicator size="large" color="#2563EB" style={styles.loader} />
+            ) : filteredEntries.length > 0 ? (
+              filteredEntries.map(renderEntry)
+            ) : (
+              <Text style={styles.emptyText}>
+                {searchQuery ? t('noMatchingScans', 'No matching scans') : t('noScansYet', 'Your scans will appear here.')}
+              </Text>
+            )
+          )}
+
+          {activeTab === 'saved' && (
+            filteredSavedItems.length > 0 ? (
+              filteredSavedItems.map(renderSavedItem)
+            ) : (
+              <Text style={styles.emptyText}>
+                {searchQuery
+                  ? t('noMatchingSavedItems', 'No matching saved items')
+                  : t('noSavedItemsYet', 'Save an item from a scan result to look it up instantly next time.')}
+              </Text>
+            )
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+export default ScanHistoryModal;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  tabs: {
+    flexDirection: 'row',
+    margin: 16,
+    marginBottom: 8,
+    padding: 4,
+    borderRadius: 12,
+    backgroundColor: '#E5E7EB',
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  tabActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  tabTextActive: {
+    color: '#2563EB',
+  },
+  searchContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  content: {
+    padding: 16,
+    paddingTop: 8,
+    paddingBottom: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#FFFFFF',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: '#E5E7EB',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: '#2563EB',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  rowAction: {
+    padding: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
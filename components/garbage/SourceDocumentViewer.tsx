@@ -0,0 +1,295 @@
+// components/garbage/SourceDocumentViewer.tsx
+
+import { ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Linking,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import {
+  SOURCE_DOCUMENTS_DIR,
+  getCachedSourceDocument,
+  getSourceDocumentViewerUri,
+} from '../../services/sourceDocumentService';
+import { XIcon } from '../icons/Icons';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface SourceDocumentViewerProps {
+  visible: boolean;
+  onClose: () => void;
+  pdfUrl: string;
+  initialPage?: number; // reference_page của loại rác đang xem
+  title?: string;
+}
+
+type ViewerMessage =
+  | { type: 'loaded'; numPages: number }
+  | { type: 'page'; page: number }
+  | { type: 'error'; message: string };
+
+// --- COMPONENT ---
+
+// Android WebView không hiển thị được PDF, nên dùng pdf.js (scripts/build-pdf-viewer.js) cho cả hai nền tảng
+
+// Xem tài liệu gốc của thành phố ngay trong app, mở đúng trang tham chiếu
+const SourceDocumentViewer: React.FC<SourceDocumentViewerProps> = ({
+  visible,
+  onClose,
+  pdfUrl,
+  initialPage = 1,
+  title,
+}) => {
+  const { t } = useTranslation();
+  const webViewRef = useRef<WebView>(null);
+  // Trang viewer pdf.js (đóng gói trong app) và file PDF đã cache, cả hai là file:// URI
+  const [viewerUri, setViewerUri] = useState<string | null>(null);
+  const [documentUri, setDocumentUri] = useState<string | null>(null);
+  const [isWebViewReady, setIsWebViewReady] = useState<boolean>(false);
+  const [currentPage, setCurrentPage] = useState<number>(initialPage);
+  const [numPages, setNumPages] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tải PDF (có cache) khi mở viewer
+  useEffect(() => {
+    if (!visible) return;
+
+    let isCancelled = false;
+    setError(null);
+    setViewerUri(null);
+    setDocumentUri(null);
+    setNumPages(null);
+    setCurrentPage(initialPage);
+
+    Promise.all([getSourceDocumentViewerUri(), getCachedSourceDocument(pdfUrl)])
+      .then(([viewer, fileUri]) => {
+        if (isCancelled) return;
+        setViewerUri(viewer);
+        setDocumentUri(fileUri);
+      })
+      .catch(err => {
+        console.error('Error loading source document:', err);
+        if (!isCancelled) setError('errorSourceDocumentUnavailable');
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [visible, pdfUrl]);
+
+  // Chỉ truyền URI của file, pdf.js tự đọc PDF
+  useEffect(() => {
+    if (!documentUri || !isWebViewReady) return;
+    webViewRef.current?.injectJavaScript(`window.loadPdf(${JSON.stringify(documentUri)}, ${initialPage}); true;`);
+  }, [documentUri, isWebViewReady]);
+
+  const handleClose = () => {
+    setIsWebViewReady(false);
+    setViewerUri(null);
+    setDocumentUri(null);
+    onClose();
+  };
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message: ViewerMessage = JSON.parse(event.nativeEvent.data);
+      if (message.type === 'loaded') setNumPages(message.numPages);
+      else if (message.type === 'page') setCurrentPage(message.page);
+      else if (message.type === 'error') {
+        console.error('PDF viewer error:', message.message);
+        setError('errorSourceDocumentUnavailable');
+      }
+    } catch (err) {
+      console.error('Invalid PDF viewer message:', err);
+    }
+  };
+
+  const goToPage = (page: number) => {
+    if (!numPages) return;
+    const target = Math.min(Math.max(1, page), numPages);
+    webViewRef.current?.injectJavaScript(`window.goToPage(${target}); true;`);
+  };
+
+  const handleOpenExternally = () => {
+    Linking.openURL(pdfUrl).catch(err => console.error('Error opening PDF:', err));
+  };
+
+  const isLoading = !error && (!documentUri || !numPages);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {title || t('viewOriginalGuide')}
+          </Text>
+          <TouchableOpacity onPress={handleOpenExternally} style={styles.headerButton}>
+            <ExternalLink size={20} color="#6B7280" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleClose} style={styles.headerButton}>
+            <XIcon size={24} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Document */}
+        <View style={styles.documentContainer}>
+          {error ? (
+            <View style={styles.centered}>
+              <Text style={styles.errorText}>
+                {t('errorSourceDocumentUnavailable', 'Could not load the official guide.')}
+              </Text>
+              <TouchableOpacity style={styles.externalButton} onPress={handleOpenExternally}>
+                <Text style={styles.externalButtonText}>{t('openInBrowser', 'Open in browser')}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <>
+              {viewerUri && (
+                <WebView
+                  ref={webViewRef}
+                  originWhitelist={['*']}
+                  source={{ uri: viewerUri }}
+                  allowFileAccess
+                  allowFileAccessFromFileURLs
+                  allowingReadAccessToURL={SOURCE_DOCUMENTS_DIR}
+                  onLoadEnd={() => setIsWebViewReady(true)}
+                  onMessage={handleMessage}
+                  style={styles.webView}
+                />
+              )}
+              {isLoading && (
+                <View style={[styles.centered, styles.loadingOverlay]}>
+                  <ActivityIndicator size="large" color="#3B82F6" />
+                  <Text style={styles.loadingText}>{t('loadingSourceDocument', 'Loading official guide...')}</Text>
+                </View>
+              )}
+            </>
+          )}
+        </View>
+
+        {/* Page navigation */}
+        {!error && numPages !== null && (
+          <View style={styles.pageBar}>
+            <TouchableOpacity
+              onPress={() => goToPage(currentPage - 1)}
+              disabled={currentPage <= 1}
+              style={[styles.pageButton, currentPage <= 1 && styles.pageButtonDisabled]}
+            >
+              <ChevronLeft size={22} color="#1F2937" />
+            </TouchableOpacity>
+            <Text style={styles.pageText}>
+              {t('pageOf', 'Page {{page}} / {{total}}', { page: currentPage, total: numPages })}
+            </Text>
+            <TouchableOpacity
+              onPress={() => goToPage(currentPage + 1)}
+              disabled={currentPage >= numPages}
+              style={[styles.pageButton, currentPage >= numPages && styles.pageButtonDisabled]}
+            >
+              <ChevronRight size={22} color="#1F2937" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+export default SourceDocumentViewer;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  headerButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  documentContainer: {
+    flex: 1,
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#E5E7EB',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#F9FAFB',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  errorText: {
+    fontSize: 15,
+    color: '#DC2626',
+    textAlign: 'center',
+  },
+  externalButton: {
+    marginTop: 16,
+    backgroundColor: '#3B82F6',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  externalButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  pageBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    paddingVertical: 10,
+    paddingBottom: 24,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  pageButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+  },
+  pageButtonDisabled: {
+    opacity: 0.4,
+  },
+  pageText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+    minWidth: 100,
+    textAlign: 'center',
+  },
+});
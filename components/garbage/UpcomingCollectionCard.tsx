@@ -0,0 +1,116 @@
+// components/garbage/UpcomingCollectionCard.tsx
+
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, View } from 'react-native';
+import { addDays, getCollectionDay } from '../../services/garbageCalendarService';
+import { ICollectionDay, IWasteCategory } from '../../types/garbageRules';
+import { TrashIcon } from '../icons/Icons';
+
+// --- ĐỊNH NGHĨA TYPESCRIPT ---
+
+interface UpcomingCollectionCardProps {
+  wasteCategories: Record<string, IWasteCategory> | undefined;
+  districtId: string | null;
+}
+
+// --- COMPONENT ---
+
+// Thẻ "Hôm nay / Ngày mai": trả lời nhanh câu hỏi "mai vứt gì?"
+const UpcomingCollectionCard: React.FC<UpcomingCollectionCardProps> = ({ wasteCategories, districtId }) => {
+  const { t } = useTranslation();
+
+  const [today, tomorrow] = useMemo<ICollectionDay[]>(() => {
+    const now = new Date();
+    return [
+      getCollectionDay(wasteCategories, districtId, now),
+      getCollectionDay(wasteCategories, districtId, addDays(now, 1)),
+    ];
+  }, [wasteCategories, districtId]);
+
+  const renderDay = (label: string, day: ICollectionDay) => (
+    <View style={styles.dayColumn}>
+      <Text style={styles.dayLabel}>
+        {label} ({day.date.getMonth() + 1}/{day.date.getDate()})
+      </Text>
+      {day.categories.length > 0 ? (
+        day.categories.map(category => (
+          <View key={category} style={styles.categoryRow}>
+            <TrashIcon color="#10B981" size={16} />
+            <Text style={styles.categoryText}>{t(category, category)}</Text>
+          </View>
+        ))
+      ) : (
+        <Text style={styles.emptyText}>{t('noCollection', 'No collection')}</Text>
+      )}
+      {day.skippedCategories.length > 0 && (
+        <Text style={styles.holidayText}>
+          {t('holidayNoCollection', 'Holiday - no collection')}: {day.skippedCategories.map(c => t(c, c)).join(', ')}
+        </Text>
+      )}
+      {day.suspendedCategories.length > 0 && (
+        <Text style={styles.holidayText}>
+          {t('collectionSuspended', 'No collection')}: {day.suspendedCategories.map(c => t(c, c)).join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.card}>
+      {renderDay(t('today', 'Today'), today)}
+      <View style={styles.divider} />
+      {renderDay(t('tomorrow', 'Tomorrow'), tomorrow)}
+    </View>
+  );
+};
+
+export default UpcomingCollectionCard;
+
+// --- STYLESHEET ---
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#ECFDF5',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#A7F3D0',
+    padding: 16,
+    marginBottom: 16,
+  },
+  dayColumn: {
+    flex: 1,
+    gap: 6,
+  },
+  divider: {
+    width: 1,
+    backgroundColor: '#A7F3D0',
+    marginHorizontal: 12,
+  },
+  dayLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#065F46',
+    marginBottom: 2,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  categoryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    flexShrink: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  holidayText: {
+    fontSize: 12,
+    color: '#B45309',
+    fontStyle: 'italic',
+  },
+});
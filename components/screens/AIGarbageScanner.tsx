@@ -1,7 +1,8 @@
 // components/screens/AIGarbageScanner.tsx
 
+import { BarcodeScanningResult, CameraView } from 'expo-camera';
 import * as ImagePicker from 'expo-image-picker';
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   ActivityIndicator,
@@ -11,43 +12,220 @@ import {
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View
 } from 'react-native';
 import { CameraIcon, CheckCircleIcon, XIcon } from '../icons/Icons';
 import {
+  BoundingBox,
+  DetectedGarbageItem,
   GarbageAnalysisResult,
-  analyzeGarbageImage,
+  RecyclingMarkAnalysisResult,
+  RecyclingMarkDetection,
+  ScanRecordInfo,
   getCategoryDetails,
-  validateCategory,
-  TokenUsage
+  getAnalysisErrorReason,
+  validateCategory
 } from '../../services/geminiService';
+import { ai } from '../../services/aiClient';
+import { IAIScanOutput, IAIUsage } from '../../types/ai';
 import { useAuth } from '../../context/AuthContext';
+import ReportCorrectionModal from '../garbage/ReportCorrectionModal';
+import ScanHistoryModal from '../garbage/ScanHistoryModal';
+import { isBulkyCategory } from '../../services/bulkyWasteService';
+import { lookupBarcode, mapRecyclingMarksToCategories } from '../../services/productLookupService';
+import { readCachedRules, refreshRules } from '../../services/rulesCacheService';
+import {
+  attachScanThumbnail,
+  findSavedItem,
+  findSavedItems,
+  getSavedItems,
+  removeSavedItem,
+  saveGarbageItem,
+} from '../../services/scanHistoryService';
+import { IBarcodeLookupResult, TRecyclingMark } from '../../types/products';
+import { IScanHistoryEntry, ISavedGarbageItem } from '../../types/scanHistory';
 
 interface AIGarbageScannerProps {
   visible: boolean;
   onClose: () => void;
   wasteCategories: any;
+  compositeId: string | null; // Server tải rules của thành phố theo ID này
   districtId: string | null;
+  onBulkyItemDetected?: (itemName: string) => void; // Chuyển sang trợ lý 粗大ごみ
+  onCategorySelect?: (category: string) => void; // Mở tab loại rác tương ứng ở MainScreen
 }
 
+// Màu khung theo thứ tự đồ vật (lặp lại nếu nhiều hơn)
+const BOX_COLORS = ['#2563EB', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1', '#84CC16'];
+
+// Ảnh chụp được cắt theo tỉ lệ 4:3
+const DEFAULT_IMAGE_ASPECT_RATIO = 4 / 3;
+
+const getBoxColor = (index: number) => BOX_COLORS[index % BOX_COLORS.length];
+
+// 'items': nhận diện đồ vật; 'marks': đọc ký hiệu tái chế in trên bao bì
+type ScanMode = 'items' | 'marks';
+
+type MarkPartResult = RecyclingMarkDetection & { category: string | null };
+
+// Ký hiệu được in đúng như vậy trên bao bì, không dịch
+const MARK_LABELS: Record<TRecyclingMark, string> = {
+  pla: 'プラ',
+  pet: 'PET',
+  paper: '紙',
+  paper_carton: '紙パック',
+  cardboard: '段ボール',
+  aluminum: 'アルミ',
+  steel: 'スチール',
+};
+
+// Số đồ vật đã lưu hiện dưới ô tra nhanh
+const MAX_SAVED_ITEM_MATCHES = 3;
+
+// Mã sản phẩm bán lẻ: JAN-13 / JAN-8, UPC-A cho hàng nhập khẩu
+const PRODUCT_BARCODE_TYPES: ('ean13' | 'ean8' | 'upc_a')[] = ['ean13', 'ean8', 'upc_a'];
+
 export default function AIGarbageScanner({
   visible,
   onClose,
   wasteCategories,
+  compositeId,
   districtId,
+  onBulkyItemDetected,
+  onCategorySelect,
 }: AIGarbageScannerProps) {
   const { t, i18n } = useTranslation();
-  const { user, subscription, role } = useAuth();
+  const { user, role } = useAuth();
   const isSuperAdmin = role === 'superadmin';
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [result, setResult] = useState<GarbageAnalysisResult | null>(null);
+  const [imageAspectRatio, setImageAspectRatio] = useState<number>(DEFAULT_IMAGE_ASPECT_RATIO);
+  const [selectedItemIndex, setSelectedItemIndex] = useState<number>(0);
+  const [scanMode, setScanMode] = useState<ScanMode>('items');
+  const [markResult, setMarkResult] = useState<MarkPartResult[] | null>(null);
+  // Quét mã vạch: tra bảng sản phẩm trước, chỉ gọi AI khi không tìm thấy
+  const [isBarcodeMode, setIsBarcodeMode] = useState<boolean>(false);
+  const [lookingUpBarcode, setLookingUpBarcode] = useState<boolean>(false);
+  const [barcodeResult, setBarcodeResult] = useState<IBarcodeLookupResult | null>(null);
+  const isHandlingBarcode = useRef<boolean>(false); // Camera gửi nhiều sự kiện cho cùng một mã
+  const [showReportModal, setShowReportModal] = useState<boolean>(false);
+  // Lịch sử quét: lần quét hiện tại, kết quả mở lại từ lịch sử, đồ vật đã lưu
+  const [scanRecord, setScanRecord] = useState<ScanRecordInfo | null>(null);
+  const [viewedEntry, setViewedEntry] = useState<IScanHistoryEntry | null>(null);
+  const viewedEntryId = useRef<string | null>(null); // Mục lịch sử đang mở, quy định của nó có thể đang tải
+  const [savedItems, setSavedItems] = useState<ISavedGarbageItem[]>([]);
+  const [savedItemView, setSavedItemView] = useState<ISavedGarbageItem | null>(null);
+  const [savedItemQuery, setSavedItemQuery] = useState<string>('');
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+
+  // Kết quả mở từ lịch sử có thể thuộc thành phố khác
+  const resultCompositeId = savedItemView?.compositeId ?? viewedEntry?.compositeId ?? compositeId;
+
+  // Đồ vật đã lưu: tải khi mở scanner, tra cứu ngay trên máy
+  useEffect(() => {
+    if (!visible || !user) return;
+    getSavedItems(user.uid)
+      .then(setSavedItems)
+      .catch(error => console.error('Error loading saved items:', error));
+  }, [visible, user]);
 
   const resetState = () => {
     setSelectedImage(null);
     setAnalyzing(false);
     setResult(null);
+    setImageAspectRatio(DEFAULT_IMAGE_ASPECT_RATIO);
+    setSelectedItemIndex(0);
+    setMarkResult(null);
+    setIsBarcodeMode(false);
+    setLookingUpBarcode(false);
+    setBarcodeResult(null);
+    isHandlingBarcode.current = false;
+    setShowReportModal(false);
+    setScanRecord(null);
+    setViewedEntry(null);
+    viewedEntryId.current = null;
+    setSavedItemView(null);
+    setSavedItemQuery('');
+    setShowHistory(false);
+  };
+
+  // Khung bao được vẽ theo tỉ lệ, nên khung ảnh phải đúng tỉ lệ của ảnh gốc
+  const handleImageSelected = async (asset: ImagePicker.ImagePickerAsset) => {
+    const aspectRatio = asset.width && asset.height ? asset.width / asset.height : DEFAULT_IMAGE_ASPECT_RATIO;
+    setSelectedImage(asset.uri);
+    setImageAspectRatio(aspectRatio);
+    if (asset.base64) {
+      await analyzeImage(asset.base64, asset.uri, aspectRatio);
+    }
+  };
+
+  // Quy định của một thành phố khác: cache trên máy trước, không có thì tải từ Firestore
+  const loadWasteCategories = async (entryCompositeId: string) => {
+    if (entryCompositeId === compositeId) return wasteCategories;
+    try {
+      const cached = (await readCachedRules(entryCompositeId)) ?? (await refreshRules(entryCompositeId));
+      return cached.rules.waste_categories;
+    } catch (error) {
+      console.error('Error loading rules of scanned city:', error);
+      return undefined; // Để trống loại rác còn hơn đối chiếu sai thành phố
+    }
+  };
+
+  // Mở lại một lần quét cũ: dùng kết quả đã lưu, không gọi AI
+  const handleSelectHistoryEntry = async (entry: IScanHistoryEntry, thumbnailUrl: string | null) => {
+    resetState();
+    viewedEntryId.current = entry.id;
+    setViewedEntry(entry);
+    setSelectedImage(thumbnailUrl);
+    if (entry.imageAspectRatio) {
+      setImageAspectRatio(entry.imageAspectRatio);
+    }
+    if (entry.mode === 'marks') {
+      const parts = (entry.analysis as RecyclingMarkAnalysisResult).parts;
+      // Đối chiếu vật liệu với quy định của thành phố lúc quét, không phải thành phố đang chọn
+      const entryCategories = await loadWasteCategories(entry.compositeId);
+      if (viewedEntryId.current !== entry.id) return; // Đã mở mục khác / đóng kết quả trong lúc tải
+      setMarkResult(mapRecyclingMarksToCategories(parts, entryCategories, i18n));
+    } else {
+      setResult(entry.analysis as GarbageAnalysisResult);
+    }
+  };
+
+  const handleSelectSavedItem = (savedItem: ISavedGarbageItem) => {
+    resetState();
+    setSavedItemView(savedItem);
+  };
+
+  const handleRemoveSavedItem = async (savedItem: ISavedGarbageItem) => {
+    try {
+      await removeSavedItem(savedItem.id);
+      setSavedItems(current => current.filter(saved => saved.id !== savedItem.id));
+    } catch (error) {
+      console.error('Error removing saved item:', error);
+      Alert.alert(t('error', 'Error'), t('errorRemovingSavedItem', 'Could not remove this item.'));
+    }
+  };
+
+  const handleToggleSaveItem = async (item: DetectedGarbageItem, itemCompositeId: string) => {
+    if (!user) return;
+
+    const existing = findSavedItem(savedItems, itemCompositeId, item.itemName);
+    if (existing) {
+      await handleRemoveSavedItem(existing);
+      return;
+    }
+
+    try {
+      const historyId = scanRecord?.historyId ?? viewedEntry?.id ?? null;
+      const savedItem = await saveGarbageItem(user.uid, itemCompositeId, item, historyId);
+      setSavedItems(current => [savedItem, ...current.filter(saved => saved.id !== savedItem.id)]);
+    } catch (error) {
+      console.error('Error saving item:', error);
+      Alert.alert(t('error', 'Error'), t('errorSavingItem', 'Could not save this item.'));
+    }
   };
 
   const handleClose = () => {
@@ -81,10 +259,7 @@ export default function AIGarbageScanner({
       });
 
       if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-        if (result.assets[0].base64) {
-          await analyzeImage(result.assets[0].base64);
-        }
+        await handleImageSelected(result.assets[0]);
       }
     } catch (error) {
       console.error('Camera error:', error);
@@ -103,10 +278,7 @@ export default function AIGarbageScanner({
       });
 
       if (!result.canceled && result.assets[0]) {
-        setSelectedImage(result.assets[0].uri);
-        if (result.assets[0].base64) {
-          await analyzeImage(result.assets[0].base64);
-        }
+        await handleImageSelected(result.assets[0]);
       }
     } catch (error) {
       console.error('Image picker error:', error);
@@ -114,7 +286,53 @@ export default function AIGarbageScanner({
     }
   };
 
-  const analyzeImage = async (base64: string) => {
+  const handleStartBarcodeScan = async () => {
+    const hasPermission = await requestPermissions();
+    if (!hasPermission) return;
+    isHandlingBarcode.current = false;
+    setIsBarcodeMode(true);
+  };
+
+  // Không có trong bảng sản phẩm → đề nghị chụp ảnh để AI phân tích
+  const handleBarcodeMiss = () => {
+    Alert.alert(
+      t('productNotFound', 'Product not found'),
+      t('productNotFoundMessage', 'This barcode is not in our product list yet. Take a photo so AI can identify it instead.'),
+      [
+        { text: t('cancel', 'Cancel'), style: 'cancel', onPress: resetState },
+        {
+          text: t('takePhoto', 'Take Photo'),
+          onPress: () => {
+            resetState();
+            handleTakePhoto();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleBarcodeScanned = async ({ data }: BarcodeScanningResult) => {
+    if (isHandlingBarcode.current) return;
+    isHandlingBarcode.current = true;
+    setLookingUpBarcode(true);
+
+    try {
+      const lookup = await lookupBarcode(data, wasteCategories, i18n);
+      if (lookup) {
+        setIsBarcodeMode(false);
+        setBarcodeResult(lookup);
+      } else {
+        handleBarcodeMiss();
+      }
+    } catch (error) {
+      console.error('Barcode lookup error:', error);
+      handleBarcodeMiss();
+    } finally {
+      setLookingUpBarcode(false);
+    }
+  };
+
+  const analyzeImage = async (base64: string, imageUri: string, aspectRatio: number) => {
     setAnalyzing(true);
     try {
       // Check if user is logged in
@@ -127,35 +345,101 @@ export default function AIGarbageScanner({
         return;
       }
 
-      // Get userId and userTier
-      const userId = user.uid;
-      const userTier = subscription || 'FREE';
+      if (!compositeId) {
+        Alert.alert(
+          t('noRulesAvailable', 'No Rules Available'),
+          t('pleaseSelectLocation', 'Please select a location with garbage rules first')
+        );
+        resetState();
+        return;
+      }
 
-      // Token usage callback for super admin
-      const onTokenUsage = isSuperAdmin ? (usage: TokenUsage) => {
+      // Token usage for super admin (ảnh đã quét trước đó không gọi AI)
+      const showTokenUsage = (usage: IAIUsage) => {
         Alert.alert(
           '🔧 Token Usage (Super Admin)',
           `Prompt: ${usage.promptTokens}\nCompletion: ${usage.completionTokens}\nTotal: ${usage.totalTokens}`,
           [{ text: 'OK' }]
         );
-      } : undefined;
-
-      const analysis = await analyzeGarbageImage(
-        userId,
-        userTier,
-        base64,
-        wasteCategories,
-        i18n.language,
-        'lite',
-        onTokenUsage
-      );
-      setResult(analysis);
-    } catch (error) {
+      };
+
+      // Lần quét mới được server ghi vào lịch sử; app gắn thêm ảnh thu nhỏ (không chờ)
+      const userId = user.uid;
+      const recordScan = ({ historyId, cached }: IAIScanOutput<unknown>) => {
+        const scan: ScanRecordInfo = { historyId, cached };
+        setScanRecord(scan);
+        if (!scan.cached && scan.historyId) {
+          attachScanThumbnail(userId, scan.historyId, imageUri, aspectRatio);
+        }
+      };
+
+      setSelectedItemIndex(0);
+      const input = { imageBase64: base64, compositeId };
+      const options = { modelTier: 'lite' as const, language: i18n.language };
+      if (scanMode === 'marks') {
+        const { output, usage } = await ai.run('recycling_marks', input, options);
+        recordScan(output);
+        if (isSuperAdmin && !output.cached) showTokenUsage(usage);
+        // Đối chiếu vật liệu với rules của thành phố đang chọn
+        setMarkResult(mapRecyclingMarksToCategories(output.analysis.parts, wasteCategories, i18n));
+      } else {
+        const { output, usage } = await ai.run('garbage_analysis', input, options);
+        recordScan(output);
+        if (isSuperAdmin && !output.cached) showTokenUsage(usage);
+        setResult(output.analysis);
+      }
+    } catch (error: any) {
       console.error('Analysis error:', error);
-      Alert.alert(
-        t('analysisError', 'Analysis Error'),
-        t('analysisErrorMessage', 'Failed to analyze image. Please try again.')
-      );
+      switch (getAnalysisErrorReason(error)) {
+        case 'insufficient_credits':
+          Alert.alert(
+            t('insufficientCredits', 'Insufficient Credits'),
+            t('insufficientCreditsMessage', 'You do not have enough credits for this analysis.')
+          );
+          break;
+        case 'model_not_allowed':
+          Alert.alert(
+            t('premiumFeature', 'Premium Feature'),
+            t('modelNotAvailableForPlan', 'Your subscription plan does not support this model.')
+          );
+          break;
+        case 'unauthenticated':
+          Alert.alert(
+            t('loginRequired', 'Login Required'),
+            t('aiLoginMessage', 'Please login to use AI features.')
+          );
+          break;
+        case 'rules_not_found':
+          Alert.alert(
+            t('noRulesAvailable', 'No Rules Available'),
+            t('pleaseSelectLocation', 'Please select a location with garbage rules first')
+          );
+          break;
+        case 'image_too_large':
+          Alert.alert(
+            t('analysisError', 'Analysis Error'),
+            t('imageTooLarge', 'The image is too large. Please choose a smaller photo.')
+          );
+          break;
+        case 'invalid_output':
+          // Không bị trừ credits khi AI trả kết quả không hợp lệ
+          Alert.alert(
+            t('analysisError', 'Analysis Error'),
+            t('analysisInvalidOutput', 'Could not recognize the item. Please try another photo. No credits were used.')
+          );
+          break;
+        case 'safety_blocked':
+          Alert.alert(
+            t('analysisError', 'Analysis Error'),
+            t('analysisSafetyBlocked', 'This photo cannot be analyzed. Please try another photo. No credits were used.')
+          );
+          break;
+        default:
+          Alert.alert(
+            t('analysisError', 'Analysis Error'),
+            t('analysisErrorMessage', 'Failed to analyze image. Please try again.')
+          );
+      }
       resetState();
     } finally {
       setAnalyzing(false);
@@ -167,9 +451,26 @@ export default function AIGarbageScanner({
       <CameraIcon size={64} color="#2563EB" />
       <Text style={styles.title}>{t('aiScannerTitle', 'AI Garbage Scanner')}</Text>
       <Text style={styles.subtitle}>
-        {t('aiScannerSubtitle', 'Take a photo or select an image to identify garbage type')}
+        {scanMode === 'marks'
+          ? t('markScanSubtitle', 'Photograph the recycling marks (プラ, PET, 紙, アルミ, スチール) on the package')
+          : t('aiScannerSubtitle', 'Take a photo or select an image to identify garbage type')}
       </Text>
 
+      {/* Chọn chế độ: nhận diện đồ vật / đọc ký hiệu tái chế */}
+      <View style={styles.modeToggle}>
+        {(['items', 'marks'] as ScanMode[]).map(mode => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.modeButton, scanMode === mode && styles.modeButtonActive]}
+            onPress={() => setScanMode(mode)}
+          >
+            <Text style={[styles.modeButtonText, scanMode === mode && styles.modeButtonTextActive]}>
+              {mode === 'marks' ? t('scanModeMarks', 'Recycling marks') : t('scanModeItems', 'Identify items')}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       <View style={styles.buttonContainer}>
         <TouchableOpacity style={styles.primaryButton} onPress={handleTakePhoto}>
           <CameraIcon size={24} color="#FFFFFF" />
@@ -179,6 +480,70 @@ export default function AIGarbageScanner({
         <TouchableOpacity style={styles.secondaryButton} onPress={handlePickImage}>
           <Text style={styles.secondaryButtonText}>{t('chooseFromGallery', 'Choose from Gallery')}</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleStartBarcodeScan}>
+          <Text style={styles.secondaryButtonText}>{t('scanBarcode', 'Scan Barcode')}</Text>
+        </TouchableOpacity>
+        <Text style={styles.hintText}>
+          {t('scanBarcodeHint', 'Packaged products: scanning the barcode is faster and uses no AI credits.')}
+        </Text>
+      </View>
+
+      {/* Tra nhanh đồ vật đã lưu: trả lời ngay, không cần chụp ảnh */}
+      {savedItems.length > 0 && (
+        <View style={styles.savedSearch}>
+          <TextInput
+            style={styles.savedSearchInput}
+            value={savedItemQuery}
+            onChangeText={setSavedItemQuery}
+            placeholder={t('searchSavedItems', 'Scanned it before? Search your saved items')}
+            autoCorrect={false}
+          />
+          {!!savedItemQuery.trim() && (
+            findSavedItems(savedItems, compositeId, savedItemQuery, key => t(key, key))
+              .slice(0, MAX_SAVED_ITEM_MATCHES)
+              .map(savedItem => (
+                <TouchableOpacity
+                  key={savedItem.id}
+                  style={styles.savedMatchRow}
+                  onPress={() => handleSelectSavedItem(savedItem)}
+                >
+                  <Text style={styles.itemRowName} numberOfLines={1}>{savedItem.itemName}</Text>
+                  <Text style={styles.itemRowCategory} numberOfLines={1}>{getCategoryLabel(savedItem.category)}</Text>
+                </TouchableOpacity>
+              ))
+          )}
+        </View>
+      )}
+
+      {user && (
+        <TouchableOpacity style={styles.historyLinkButton} onPress={() => setShowHistory(true)}>
+          <Text style={styles.categoryLinkText}>{t('scanHistory', 'Scan history')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderBarcodeScanner = () => (
+    <View style={styles.barcodeContainer}>
+      <CameraView
+        style={styles.barcodeCamera}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: PRODUCT_BARCODE_TYPES }}
+        onBarcodeScanned={lookingUpBarcode ? undefined : handleBarcodeScanned}
+      />
+      <View style={styles.barcodeFrame} pointerEvents="none" />
+      <View style={styles.barcodeFooter}>
+        {lookingUpBarcode ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <Text style={styles.barcodeHintText}>
+            {t('pointAtBarcode', 'Point the camera at the barcode (JAN)')}
+          </Text>
+        )}
+        <TouchableOpacity style={styles.barcodeCancelButton} onPress={resetState}>
+          <Text style={styles.barcodeCancelText}>{t('cancel', 'Cancel')}</Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -191,52 +556,179 @@ export default function AIGarbageScanner({
     </View>
   );
 
-  const renderResult = () => {
-    if (!result) return null;
+  const getCategoryLabel = (category: string | null) => {
+    if (!category) return t('categoryUnknown', 'Unknown');
+    if (isBulkyCategory(category)) return t('bulkyWaste', 'Bulky waste (粗大ごみ)');
+    return t(category, category);
+  };
+
+  // Kết quả lấy từ lịch sử có thể không có ảnh (ảnh thu nhỏ chưa tải lên)
+  const renderImageWithBoxes = (boxes: (BoundingBox | null)[]) => selectedImage ? (
+    <View style={[styles.resultImageContainer, { aspectRatio: imageAspectRatio }]}>
+      <Image source={{ uri: selectedImage! }} style={styles.resultImage} />
+      {boxes.map((boundingBox, index) => {
+        if (!boundingBox) return null;
+        const { x, y, width, height } = boundingBox;
+        const color = getBoxColor(index);
+        const isSelected = index === selectedItemIndex;
+        return (
+          <TouchableOpacity
+            key={`box-${index}`}
+            activeOpacity={0.7}
+            onPress={() => setSelectedItemIndex(index)}
+            style={[
+              styles.boundingBox,
+              {
+                left: `${x * 100}%`,
+                top: `${y * 100}%`,
+                width: `${width * 100}%`,
+                height: `${height * 100}%`,
+                borderColor: color,
+              },
+              isSelected && styles.boundingBoxSelected,
+            ]}
+          >
+            <View style={[styles.boxLabel, { backgroundColor: color }]}>
+              <Text style={styles.boxLabelText}>{index + 1}</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  ) : null;
 
-    const categoryDetails = result.category
-      ? getCategoryDetails(result.category, wasteCategories)
+  // Kết quả không gọi AI: mở từ lịch sử, hoặc server nhận ra ảnh đã quét trước đó
+  const renderHistoryNotice = () => {
+    if (!viewedEntry && !scanRecord?.cached) return null;
+    return (
+      <View style={styles.historyNotice}>
+        <Text style={styles.historyNoticeText}>
+          {viewedEntry
+            ? t('fromScanHistory', 'From your scan history ({{date}}). No credits used.', {
+                date: viewedEntry.lastScannedAt?.toLocaleDateString(i18n.language) ?? '',
+              })
+            : t('scanCachedResult', 'You scanned this photo before. Showing the previous result, no credits used.')}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderItemDetails = (item: DetectedGarbageItem, fromSavedItems: boolean = false) => {
+    const categoryDetails = item.category
+      ? getCategoryDetails(item.category, wasteCategories)
       : null;
 
-    const isValidCategory = validateCategory(result.category, wasteCategories);
+    const isValidCategory = validateCategory(item.category, wasteCategories);
+    const isBulky = !!item.isBulky || isBulkyCategory(item.category);
+    const isSaved = !!resultCompositeId && !!findSavedItem(savedItems, resultCompositeId, item.itemName);
 
     return (
-      <ScrollView style={styles.resultContainer}>
-        <Image source={{ uri: selectedImage! }} style={styles.resultImage} />
-
+      <>
         {/* Item Name */}
         <View style={styles.resultCard}>
           <View style={styles.resultHeader}>
             <CheckCircleIcon size={24} color="#10B981" />
-            <Text style={styles.resultTitle}>{t('identified', 'Identified')}</Text>
-          </View>
-          <Text style={styles.itemName}>{result.itemName}</Text>
-          <View style={styles.confidenceBadge}>
-            <Text style={styles.confidenceText}>
-              {t('confidence', 'Confidence')}: {result.confidence}%
+            <Text style={styles.resultTitle}>
+              {fromSavedItems ? t('savedItem', 'Saved item') : t('identified', 'Identified')}
             </Text>
           </View>
+          <Text style={styles.itemName}>{item.itemName}</Text>
+          {!fromSavedItems && (
+            <View style={styles.confidenceBadge}>
+              <Text style={styles.confidenceText}>
+                {t('confidence', 'Confidence')}: {item.confidence}%
+              </Text>
+            </View>
+          )}
+          {/* Lưu để lần sau tra ngay, không cần chụp lại */}
+          {user && resultCompositeId && (
+            <TouchableOpacity
+              style={styles.saveItemButton}
+              onPress={() => handleToggleSaveItem(item, resultCompositeId)}
+            >
+              <Text style={styles.saveItemText}>
+                {isSaved ? `★ ${t('savedItem', 'Saved item')}` : `☆ ${t('saveItem', 'Save item')}`}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Category */}
-        {result.category && isValidCategory && (
+        {item.category && isValidCategory && (
           <View style={styles.resultCard}>
             <Text style={styles.cardTitle}>{t('category', 'Category')}</Text>
-            <Text style={styles.categoryText}>{t(result.category)}</Text>
+            <Text style={styles.categoryText}>{t(item.category)}</Text>
+            {onCategorySelect && (
+              <TouchableOpacity
+                style={styles.categoryLinkButton}
+                onPress={() => {
+                  const category = item.category!;
+                  resetState();
+                  onCategorySelect(category);
+                }}
+              >
+                <Text style={styles.categoryLinkText}>{t('viewCategoryRules', 'View rules and schedule')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* Components: các phần phân loại riêng (thân chai / nắp / nhãn...) */}
+        {item.components.length > 0 && (
+          <View style={styles.resultCard}>
+            <Text style={styles.cardTitle}>{t('separateParts', 'Separate these parts')}</Text>
+            {item.components.map((component, idx) => (
+              <View key={`component-${idx}`} style={styles.componentRow}>
+                <View style={styles.componentHeader}>
+                  <Text style={styles.componentName}>{component.name}</Text>
+                  <Text style={styles.componentCategory}>{getCategoryLabel(component.category)}</Text>
+                </View>
+                {!!component.instructions && (
+                  <Text style={styles.instructionsText}>{component.instructions}</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Bulky waste: cần đặt lịch và mua tem phí */}
+        {isBulky && onBulkyItemDetected && (
+          <View style={[styles.resultCard, styles.bulkyCard]}>
+            <Text style={styles.cardTitle}>{t('bulkyWasteDetected', 'This is bulky waste (粗大ごみ)')}</Text>
+            <Text style={styles.instructionsText}>
+              {t('bulkyWasteDetectedMessage', 'It needs a pickup booking and fee stickers. We can estimate the fee and guide you through the steps.')}
+            </Text>
+            <TouchableOpacity
+              style={styles.bulkyButton}
+              onPress={() => {
+                const itemName = item.itemName;
+                resetState();
+                onBulkyItemDetected(itemName);
+              }}
+            >
+              <Text style={styles.bulkyButtonText}>{t('bulkyStartRequest', 'Start bulky waste request')}</Text>
+            </TouchableOpacity>
           </View>
         )}
 
         {/* Instructions */}
         <View style={styles.resultCard}>
           <Text style={styles.cardTitle}>{t('disposalInstructions', 'Disposal Instructions')}</Text>
-          <Text style={styles.instructionsText}>{result.instructions}</Text>
+          <Text style={styles.instructionsText}>{item.instructions}</Text>
         </View>
 
+        {/* Báo sai: gửi vào hàng đợi để admin duyệt */}
+        {resultCompositeId && !fromSavedItems && (
+          <TouchableOpacity style={styles.reportLinkButton} onPress={() => setShowReportModal(true)}>
+            <Text style={styles.reportLinkText}>{t('reportWrongResult', 'Is this wrong? Report it')}</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Additional Info */}
-        {result.additionalInfo && (
+        {item.additionalInfo && (
           <View style={styles.resultCard}>
             <Text style={styles.cardTitle}>{t('additionalInfo', 'Additional Information')}</Text>
-            <Text style={styles.additionalInfoText}>{result.additionalInfo}</Text>
+            <Text style={styles.additionalInfoText}>{item.additionalInfo}</Text>
           </View>
         )}
 
@@ -255,6 +747,199 @@ export default function AIGarbageScanner({
             )}
           </View>
         )}
+      </>
+    );
+  };
+
+  const renderBarcodeResult = (lookup: IBarcodeLookupResult) => (
+    <ScrollView style={styles.resultContainer}>
+      <View style={styles.resultCard}>
+        <View style={styles.resultHeader}>
+          <CheckCircleIcon size={24} color="#10B981" />
+          <Text style={styles.resultTitle}>{t('productFound', 'Product found')}</Text>
+        </View>
+        <Text style={styles.itemName}>{lookup.product.name}</Text>
+        {!!lookup.product.brand && <Text style={styles.additionalInfoText}>{lookup.product.brand}</Text>}
+        <Text style={styles.janText}>JAN {lookup.jan}</Text>
+      </View>
+
+      {/* Từng phần của bao bì và loại rác tương ứng ở thành phố hiện tại */}
+      <View style={styles.resultCard}>
+        <Text style={styles.cardTitle}>{t('separateParts', 'Separate these parts')}</Text>
+        {lookup.parts.map((part, idx) => (
+          <View key={`part-${idx}`} style={styles.componentRow}>
+            <View style={styles.componentHeader}>
+              <Text style={styles.componentName}>{t(part.part, part.part)}</Text>
+              {part.category && onCategorySelect ? (
+                <TouchableOpacity
+                  onPress={() => {
+                    const category = part.category!;
+                    resetState();
+                    onCategorySelect(category);
+                  }}
+                >
+                  <Text style={[styles.componentCategory, styles.categoryLinkText]}>{getCategoryLabel(part.category)}</Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={styles.componentCategory}>{getCategoryLabel(part.category)}</Text>
+              )}
+            </View>
+            <Text style={styles.additionalInfoText}>{t(`material_${part.material}`, part.material)}</Text>
+            {!!part.note && <Text style={styles.instructionsText}>{t(part.note, part.note)}</Text>}
+          </View>
+        ))}
+      </View>
+
+      {/* Action Buttons */}
+      <View style={styles.actionButtons}>
+        <TouchableOpacity style={styles.retryButton} onPress={resetState}>
+          <Text style={styles.retryButtonText}>{t('scanAnother', 'Scan Another')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.doneButton} onPress={handleClose}>
+          <Text style={styles.doneButtonText}>{t('done', 'Done')}</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+
+  // Phân biệt "đọc được ký hiệu" với "AI đoán từ đồ vật"
+  const renderMarkConfidence = (part: MarkPartResult) => {
+    const isMarkRead = part.source === 'mark';
+    return (
+      <View style={[styles.markConfidenceBadge, isMarkRead ? styles.markReadBadge : styles.markGuessedBadge]}>
+        <Text style={[styles.markConfidenceText, isMarkRead ? styles.markReadText : styles.markGuessedText]}>
+          {isMarkRead
+            ? t('markRead', 'Mark read · {{confidence}}%', { confidence: part.confidence })
+            : t('markGuessed', 'Guessed from object · {{confidence}}%', { confidence: part.confidence })}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderMarkResult = (parts: MarkPartResult[]) => (
+    <ScrollView style={styles.resultContainer}>
+      {renderHistoryNotice()}
+      {renderImageWithBoxes(parts.map(part => part.boundingBox))}
+
+      {parts.map((part, index) => (
+        <TouchableOpacity
+          key={`mark-${index}`}
+          activeOpacity={0.8}
+          style={[styles.resultCard, index === selectedItemIndex && styles.markCardSelected]}
+          onPress={() => setSelectedItemIndex(index)}
+        >
+          <View style={styles.markHeader}>
+            <View style={[styles.itemNumber, { backgroundColor: getBoxColor(index) }]}>
+              <Text style={styles.itemNumberText}>{index + 1}</Text>
+            </View>
+            {part.mark && (
+              <View style={styles.markSymbol}>
+                <Text style={styles.markSymbolText}>{MARK_LABELS[part.mark]}</Text>
+              </View>
+            )}
+            <Text style={styles.componentName} numberOfLines={1}>{part.part}</Text>
+          </View>
+          {renderMarkConfidence(part)}
+          <Text style={styles.instructionsText}>{part.explanation}</Text>
+
+          <View style={styles.componentHeader}>
+            <Text style={styles.additionalInfoText}>{t('category', 'Category')}</Text>
+            <Text style={styles.componentCategory}>{getCategoryLabel(part.category)}</Text>
+          </View>
+          {/* Tab loại rác ở MainScreen là của thành phố đang chọn */}
+          {part.category && onCategorySelect && resultCompositeId === compositeId && (
+            <TouchableOpacity
+              style={styles.categoryLinkButton}
+              onPress={() => {
+                const category = part.category!;
+                resetState();
+                onCategorySelect(category);
+              }}
+            >
+              <Text style={styles.categoryLinkText}>{t('viewCategoryRules', 'View rules and schedule')}</Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      ))}
+
+      {/* Action Buttons */}
+      <View style={styles.actionButtons}>
+        <TouchableOpacity style={styles.retryButton} onPress={resetState}>
+          <Text style={styles.retryButtonText}>{t('scanAnother', 'Scan Another')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.doneButton} onPress={handleClose}>
+          <Text style={styles.doneButtonText}>{t('done', 'Done')}</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+
+  const renderSavedItemView = (savedItem: ISavedGarbageItem) => (
+    <ScrollView style={styles.resultContainer}>
+      {renderItemDetails(
+        { ...savedItem, additionalInfo: savedItem.additionalInfo ?? undefined, confidence: 0, boundingBox: null },
+        true
+      )}
+
+      {/* Action Buttons */}
+      <View style={styles.actionButtons}>
+        <TouchableOpacity style={styles.retryButton} onPress={resetState}>
+          <Text style={styles.retryButtonText}>{t('scanAnother', 'Scan Another')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.doneButton} onPress={handleClose}>
+          <Text style={styles.doneButtonText}>{t('done', 'Done')}</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+
+  const renderResult = () => {
+    if (!result || result.items.length === 0) return null;
+
+    const items = result.items;
+    const selectedItem = items[Math.min(selectedItemIndex, items.length - 1)];
+
+    return (
+      <ScrollView style={styles.resultContainer}>
+        {renderHistoryNotice()}
+        {renderImageWithBoxes(items.map(item => item.boundingBox))}
+
+        {/* Danh sách đồ vật: chạm để xem chi tiết (giống chạm vào khung trên ảnh) */}
+        {items.length > 1 && (
+          <View style={styles.resultCard}>
+            <Text style={styles.cardTitle}>
+              {t('itemsDetected', '{{count}} items detected', { count: items.length })}
+            </Text>
+            {items.map((item, index) => (
+              <TouchableOpacity
+                key={`item-${index}`}
+                style={[styles.itemRow, index === selectedItemIndex && styles.itemRowSelected]}
+                onPress={() => setSelectedItemIndex(index)}
+              >
+                <View style={[styles.itemNumber, { backgroundColor: getBoxColor(index) }]}>
+                  <Text style={styles.itemNumberText}>{index + 1}</Text>
+                </View>
+                <Text style={styles.itemRowName} numberOfLines={1}>{item.itemName}</Text>
+                <Text style={styles.itemRowCategory} numberOfLines={1}>{getCategoryLabel(item.category)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {renderItemDetails(selectedItem)}
+
+        <ReportCorrectionModal
+          visible={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          source="scanner"
+          compositeId={resultCompositeId}
+          wasteCategories={wasteCategories}
+          initialItemName={selectedItem.itemName}
+          originalCategory={selectedItem.category}
+          imageUri={selectedImage}
+          analysis={result}
+          itemIndex={selectedItemIndex}
+        />
 
         {/* Action Buttons */}
         <View style={styles.actionButtons}>
@@ -287,10 +972,23 @@ export default function AIGarbageScanner({
 
         {/* Content */}
         <View style={styles.content}>
-          {!selectedImage && renderInitialState()}
+          {isBarcodeMode && renderBarcodeScanner()}
+          {!isBarcodeMode && barcodeResult && renderBarcodeResult(barcodeResult)}
+          {savedItemView && renderSavedItemView(savedItemView)}
+          {!selectedImage && !result && !markResult && !savedItemView && !isBarcodeMode && !barcodeResult && renderInitialState()}
           {selectedImage && analyzing && renderAnalyzing()}
-          {selectedImage && !analyzing && result && renderResult()}
+          {!analyzing && result && renderResult()}
+          {!analyzing && markResult && renderMarkResult(markResult)}
         </View>
+
+        <ScanHistoryModal
+          visible={showHistory}
+          onClose={() => setShowHistory(false)}
+          savedItems={savedItems}
+          onSelectEntry={handleSelectHistoryEntry}
+          onSelectSavedItem={handleSelectSavedItem}
+          onRemoveSavedItem={handleRemoveSavedItem}
+        />
       </View>
     </Modal>
   );
@@ -375,6 +1073,125 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  modeToggle: {
+    flexDirection: 'row',
+    marginTop: 24,
+    padding: 4,
+    borderRadius: 12,
+    backgroundColor: '#E5E7EB',
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  modeButtonActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  modeButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  modeButtonTextActive: {
+    color: '#2563EB',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+
+  // Barcode State
+  barcodeContainer: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  barcodeCamera: {
+    flex: 1,
+  },
+  barcodeFrame: {
+    position: 'absolute',
+    top: '35%',
+    left: '10%',
+    right: '10%',
+    height: '18%',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    borderRadius: 12,
+  },
+  barcodeFooter: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 20,
+    backgroundColor: '#000000',
+  },
+  barcodeHintText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+  },
+  barcodeCancelButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+  },
+  barcodeCancelText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  markCardSelected: {
+    borderColor: '#2563EB',
+  },
+  markHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  markSymbol: {
+    borderWidth: 1.5,
+    borderColor: '#1F2937',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  markSymbolText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1F2937',
+  },
+  markConfidenceBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  markReadBadge: {
+    backgroundColor: '#D1FAE5',
+  },
+  markGuessedBadge: {
+    backgroundColor: '#FEF3C7',
+  },
+  markConfidenceText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  markReadText: {
+    color: '#047857',
+  },
+  markGuessedText: {
+    color: '#B45309',
+  },
+  janText: {
+    fontSize: 12,
+    color: '#9CA3AF',
+    marginTop: 4,
+  },
 
   // Analyzing State
   analyzingContainer: {
@@ -403,11 +1220,74 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
-  resultImage: {
+  resultImageContainer: {
     width: '100%',
-    height: 200,
     borderRadius: 12,
+    overflow: 'hidden',
     marginBottom: 16,
+    backgroundColor: '#E5E7EB',
+  },
+  resultImage: {
+    width: '100%',
+    height: '100%',
+  },
+  boundingBox: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 4,
+  },
+  boundingBoxSelected: {
+    borderWidth: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  boxLabel: {
+    position: 'absolute',
+    top: -1,
+    left: -1,
+    minWidth: 20,
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+    borderBottomRightRadius: 4,
+  },
+  boxLabelText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  itemRowSelected: {
+    backgroundColor: '#EFF6FF',
+  },
+  itemNumber: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemNumberText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  itemRowName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  itemRowCategory: {
+    maxWidth: '40%',
+    fontSize: 13,
+    color: '#2563EB',
   },
   resultCard: {
     backgroundColor: '#FFFFFF',
@@ -457,6 +1337,109 @@ const styles = StyleSheet.create({
     color: '#2563EB',
     fontWeight: '500',
   },
+  categoryLinkButton: {
+    marginTop: 10,
+    alignSelf: 'flex-start',
+  },
+  categoryLinkText: {
+    fontSize: 14,
+    color: '#2563EB',
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+  savedSearch: {
+    width: '100%',
+    marginTop: 24,
+  },
+  savedSearchInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  savedMatchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  historyLinkButton: {
+    marginTop: 16,
+  },
+  historyNotice: {
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#ECFDF5',
+  },
+  historyNoticeText: {
+    fontSize: 13,
+    color: '#047857',
+  },
+  saveItemButton: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+  },
+  saveItemText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#F59E0B',
+  },
+  reportLinkButton: {
+    alignSelf: 'center',
+    paddingVertical: 8,
+    marginBottom: 12,
+  },
+  reportLinkText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textDecorationLine: 'underline',
+  },
+  componentRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  componentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 2,
+  },
+  componentName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  componentCategory: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  bulkyCard: {
+    borderColor: '#FCD34D',
+    backgroundColor: '#FFFBEB',
+  },
+  bulkyButton: {
+    marginTop: 12,
+    backgroundColor: '#D97706',
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  bulkyButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   instructionsText: {
     fontSize: 14,
     color: '#4B5563',
@@ -1,11 +1,10 @@
 // components/screens/MainScreen.tsx
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   ActivityIndicator,
   Alert,
-  Linking,
   ScrollView,
   StyleSheet,
   Text,
@@ -14,63 +13,42 @@ import {
   View
 } from 'react-native';
 import { CameraIcon, DocumentIcon, MapPinIcon, SearchIcon, TrashIcon } from '../icons/Icons';
+import { useLocation } from '../../context/LocationContext';
 import { useSubscription } from '../../context/SubscriptionContext';
+import { describeSchedule, getDaysForDistrict, resolveSchedule } from '../../services/garbageCalendarService';
+import { buildItemSearchIndex, searchItems } from '../../services/itemSearchService';
+import {
+  IBagRequirement,
+  IRulesData,
+  IWasteCategory,
+  TCollectionSchedule,
+} from '../../types/garbageRules';
+import BagRequirementCard from '../garbage/BagRequirementCard';
+import BulkyWasteAssistant from '../garbage/BulkyWasteAssistant';
+import CollectionCalendar from '../garbage/CollectionCalendar';
+import LocationSwitcher from '../garbage/LocationSwitcher';
+import ReminderSettingsCard from '../garbage/ReminderSettingsCard';
+import ReportCorrectionModal from '../garbage/ReportCorrectionModal';
+import SourceDocumentViewer from '../garbage/SourceDocumentViewer';
+import UpcomingCollectionCard from '../garbage/UpcomingCollectionCard';
 import AIGarbageScanner from './AIGarbageScanner';
 
 // --- ĐỊNH NGHĨA TYPESCRIPT ---
 
-// Lịch trình cho một khu vực
-interface IDistrictSchedule {
-  district_id: string;
-  days: string[];
-}
-
-// Lịch thu gom (thống nhất hoặc theo khu vực)
-type TCollectionSchedule = {
-  type: 'uniform';
-  days: string[];
-} | {
-  type: 'district_based';
-  districts: IDistrictSchedule[];
-} | null;
-
-// Yêu cầu về túi rác
-interface IBagRequirement {
-  type: 'designated' | 'transparent' | 'no_bag' | 'unknown';
-  specifications?: string;
-}
-
-// Một loại rác (ví dụ: "burnable")
-interface IWasteCategory {
-  items: string[];
-  notes: string[];
-  collection_schedule: TCollectionSchedule;
-  bag_requirement: IBagRequirement | null;
-  reference_page?: number;
-}
-
-// Toàn bộ document rules từ Firestore
-interface IRulesData {
-  waste_categories: {
-    [key: string]: IWasteCategory; // Dạng dictionary: { burnable: { ... }, plastic: { ... } }
-  };
-  source_document?: {
-    pdf_url?: string;
-  };
-}
-
 // appState được truyền từ component cha (index.tsx)
 interface IAppState {
   status: 'loading' | 'ready' | 'error' | 'idle';
   error: string | null;
   rules: IRulesData | null | {}; // Có thể là null, rỗng, hoặc có dữ liệu
   districtId: string | null;
+  rulesUpdatedAt?: number | null; // Ngày rules được cập nhật (epoch ms)
 }
 
 // Props cho component MainScreen
 interface MainScreenProps {
   location: string | null;
-  onLocationReset: () => void;
+  onLocationReset: () => void; // Đổi địa chỉ của địa điểm đang chọn
+  onAddLocation: () => void; // Thêm một địa điểm đã lưu mới
   appState: IAppState;
 }
 
@@ -87,19 +65,29 @@ interface ISearchResult {
 
 // --- COMPONENT ---
 
-const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appState }) => {
+const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, onAddLocation, appState }) => {
   const { t, i18n } = useTranslation();
   const { subscription } = useSubscription();
-  const { rules, status, error, districtId } = appState;
+  const { activeLocationId, compositeId } = useLocation();
+  const { rules, status, error, districtId, rulesUpdatedAt } = appState;
 
   // Gán kiểu cho rules để an toàn
   const typedRules = rules as IRulesData;
   const wasteCategories = typedRules?.waste_categories;
   const sourceDocument = typedRules?.source_document;
+  const bulkyWaste = typedRules?.bulky_waste;
 
   const [activeTab, setActiveTab] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [showAIScanner, setShowAIScanner] = useState<boolean>(false);
+  const [showBulkyAssistant, setShowBulkyAssistant] = useState<boolean>(false);
+  const [bulkyInitialItem, setBulkyInitialItem] = useState<string | null>(null);
+  // Trang của tài liệu gốc đang mở trong viewer (null = đóng)
+  const [sourceDocumentPage, setSourceDocumentPage] = useState<number | null>(null);
+  // Mục tìm kiếm đang được báo sai loại rác (null = đóng)
+  const [reportedResult, setReportedResult] = useState<ISearchResult | null>(null);
+  const scrollViewRef = useRef<ScrollView>(null);
+  const rulesCardY = useRef<number>(0); // Vị trí thẻ "Quy định & lịch" để cuộn tới
 
   // Check if AI Scanner is available
   const isAIScannerAvailable = useMemo(() => {
@@ -126,33 +114,29 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
     }
   }, [categories, activeTab, wasteCategories]);
 
+  // Index tìm kiếm: items + bản dịch của mọi ngôn ngữ + từ đồng nghĩa
+  const searchIndex = useMemo(
+    () => buildItemSearchIndex(wasteCategories, i18n),
+    [wasteCategories, i18n]
+  );
+
   const searchResults = useMemo<ISearchResult[]>(() => {
     if (!searchQuery || !wasteCategories) return [];
-    const lowerCaseQuery = searchQuery.toLowerCase();
-    const results: ISearchResult[] = [];
-
-    // Thêm kiểu cho [categoryKey, categoryData]
-    Object.entries(wasteCategories).forEach(([categoryKey, categoryData]: [string, IWasteCategory]) => {
-      if (!categoryData || !categoryData.items) return;
-      
-      (categoryData.items || []).forEach(item => {
-        const translatedItem = t(item, item);
-        if (typeof translatedItem === 'string' && translatedItem.toLowerCase().includes(lowerCaseQuery)) {
-          results.push({
-            id: `${categoryKey}-${item}`,
-            category: categoryKey,
-            name: item,
-            notes: categoryData.notes || [],
-            schedule: categoryData.collection_schedule,
-            bagRequirement: categoryData.bag_requirement,
-            districtId: districtId, 
-          });
-        }
-      });
+
+    // Kết quả đã được sắp xếp theo độ liên quan
+    return searchItems(searchIndex, searchQuery).map(({ entry }) => {
+      const categoryData = wasteCategories[entry.category];
+      return {
+        id: entry.id,
+        category: entry.category,
+        name: entry.item,
+        notes: categoryData.notes || [],
+        schedule: categoryData.collection_schedule,
+        bagRequirement: categoryData.bag_requirement,
+        districtId: districtId,
+      };
     });
-    
-    return results;
-  }, [searchQuery, wasteCategories, t, districtId]);
+  }, [searchQuery, searchIndex, wasteCategories, districtId]);
 
   const currentRuleData = useMemo<IWasteCategory | null>(() => {
     if (!activeTab || !wasteCategories) return null;
@@ -162,28 +146,24 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
   // Thêm kiểu cho tham số
   const formatCollectionDays = (schedule: TCollectionSchedule, selectedDistrictId: string | null): string => {
     if (!schedule) return t('notSpecified');
-    
-    if (schedule.type === 'uniform') {
-      return (schedule.days || []).map(day => t(day, day)).join(', ');
-    } 
-    
-    if (schedule.type === 'district_based') {
-      if (!selectedDistrictId) {
-        return t('variesByDistrict'); 
-      }
-      
-      const districtSchedule = (schedule.districts || []).find(
-        (d: IDistrictSchedule) => d.district_id === selectedDistrictId
-      );
-      
-      if (districtSchedule) {
-        return (districtSchedule.days || []).map(day => t(day, day)).join(', ');
-      } else {
-        return t('scheduleNotFoundForDistrict');
-      }
+
+    if (schedule.type !== 'uniform' && schedule.districts?.length && !selectedDistrictId) {
+      return t('variesByDistrict');
+    }
+
+    // Lịch cũ (chỉ có danh sách ngày, không có ngoại lệ): giữ nguyên cách hiển thị
+    const days = getDaysForDistrict(schedule, selectedDistrictId);
+    const hasExceptions = !!(schedule.suspensions?.length || schedule.extra_dates?.length || schedule.cancelled_dates?.length);
+    if (days && schedule.type !== 'rules' && !hasExceptions) {
+      return days.map(day => t(day, day)).join(', ');
+    }
+
+    const resolved = resolveSchedule(schedule, selectedDistrictId);
+    if (resolved) {
+      return describeSchedule(resolved, t) || t('notSpecified');
     }
-    
-    return t('notSpecified');
+
+    return schedule.type !== 'uniform' ? t('scheduleNotFoundForDistrict') : t('notSpecified');
   };
 
   // Thêm kiểu cho tham số
@@ -217,14 +197,17 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
           {t('bagRequirement')}: {formatBagRequirement(result.bagRequirement)}
         </Text>
       )}
+      {compositeId && (
+        <TouchableOpacity style={styles.reportLink} onPress={() => setReportedResult(result)}>
+          <Text style={styles.reportLinkText}>{t('reportWrongCategoryShort', 'Wrong category?')}</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
-  const handleOpenPDF = () => {
+  const handleOpenPDF = (page: number = 1) => {
     if (sourceDocument?.pdf_url) {
-      Linking.openURL(sourceDocument.pdf_url).catch(err =>
-        console.error('Error opening PDF:', err)
-      );
+      setSourceDocumentPage(page);
     }
   };
 
@@ -258,6 +241,28 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
     setShowAIScanner(true);
   };
 
+  // AI scanner nhận diện rác cỡ lớn → mở trợ lý 粗大ごみ với món đó
+  const handleBulkyItemDetected = (itemName: string) => {
+    setShowAIScanner(false);
+    setBulkyInitialItem(itemName);
+    setShowBulkyAssistant(true);
+  };
+
+  // Chạm vào một đồ vật trong kết quả AI → mở tab loại rác đó
+  const handleScannerCategorySelect = (category: string) => {
+    setShowAIScanner(false);
+    setSearchQuery('');
+    if (wasteCategories?.[category]) {
+      setActiveTab(category);
+    }
+    scrollViewRef.current?.scrollTo({ y: rulesCardY.current, animated: true });
+  };
+
+  const handleCloseBulkyAssistant = () => {
+    setShowBulkyAssistant(false);
+    setBulkyInitialItem(null);
+  };
+
   if (status === 'loading') {
     return (
       <View style={[styles.screen, styles.centered]}>
@@ -268,20 +273,35 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
   }
 
   return (
-    <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+    <ScrollView ref={scrollViewRef} style={styles.screen} contentContainerStyle={styles.screenContent}>
       {/* Header */}
       <View style={styles.header}>
         <View style={styles.locationContainer}>
           <MapPinIcon color="#374151" />
-          <Text style={styles.locationText} numberOfLines={2} ellipsizeMode="tail">
-            {location}
-          </Text>
+          <View style={styles.locationTextContainer}>
+            <Text style={styles.locationText} numberOfLines={2} ellipsizeMode="tail">
+              {location}
+            </Text>
+            {rulesUpdatedAt ? (
+              <Text style={styles.rulesUpdatedText}>
+                {t('rulesLastUpdated', 'Rules last updated')}: {new Date(rulesUpdatedAt).toLocaleDateString(i18n.language)}
+              </Text>
+            ) : null}
+          </View>
         </View>
         <TouchableOpacity onPress={onLocationReset}>
           <Text style={styles.changeLocationButton}>{t('changeLocation')}</Text>
         </TouchableOpacity>
       </View>
 
+      {/* Saved locations */}
+      <LocationSwitcher onAddLocation={onAddLocation} />
+
+      {/* Today / Tomorrow */}
+      {status === 'ready' && categories.length > 0 && (
+        <UpcomingCollectionCard wasteCategories={wasteCategories} districtId={districtId} />
+      )}
+
       {/* Main Actions */}
       <View style={styles.card}>
         <Text style={styles.cardTitle}>{t('whatToThrow')}</Text>
@@ -315,9 +335,17 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
         </View>
       </View>
 
+      {/* Bulky Waste */}
+      {bulkyWaste && (
+        <TouchableOpacity style={[styles.pdfLinkCard, styles.bulkyLinkCard]} onPress={() => setShowBulkyAssistant(true)}>
+          <TrashIcon color="#D97706" size={20} />
+          <Text style={styles.bulkyLinkText}>{t('bulkyWasteAssistant', 'Bulky waste request')}</Text>
+        </TouchableOpacity>
+      )}
+
       {/* PDF Link */}
       {sourceDocument?.pdf_url && (
-        <TouchableOpacity style={styles.pdfLinkCard} onPress={handleOpenPDF}>
+        <TouchableOpacity style={styles.pdfLinkCard} onPress={() => handleOpenPDF()}>
           <DocumentIcon color="#3B82F6" size={20} />
           <Text style={styles.pdfLinkText}>{t('viewOriginalGuide')}</Text>
         </TouchableOpacity>
@@ -341,8 +369,23 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
         </View>
       )}
 
+      {/* Collection Calendar */}
+      {status === 'ready' && categories.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('collectionCalendar', 'Collection Calendar')}</Text>
+          <CollectionCalendar wasteCategories={wasteCategories} districtId={districtId} />
+        </View>
+      )}
+
+      {/* Collection Reminders */}
+      {status === 'ready' && categories.length > 0 && (
+        <View style={styles.card}>
+          <ReminderSettingsCard locationId={activeLocationId} categories={categories} />
+        </View>
+      )}
+
       {/* Rules and Schedule */}
-      <View style={styles.card}>
+      <View style={styles.card} onLayout={event => { rulesCardY.current = event.nativeEvent.layout.y; }}>
         {status === 'error' ? (
           <View style={[styles.centered, { paddingVertical: 20 }]}>
             <Text style={styles.errorText}>
@@ -394,17 +437,11 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
 
                 {/* Bag Requirement */}
                 {currentRuleData.bag_requirement && (
-                  <View style={styles.detailsContainer}>
-                    <Text style={styles.detailTitle}>{t('bagRequirement')}:</Text>
-                    <Text style={styles.detailText}>
-                      • {formatBagRequirement(currentRuleData.bag_requirement)}
-                    </Text>
-                    {currentRuleData.bag_requirement.specifications && (
-                      <Text style={styles.detailTextSecondary}>
-                        {currentRuleData.bag_requirement.specifications}
-                      </Text>
-                    )}
-                  </View>
+                  <BagRequirementCard
+                    bagRequirement={currentRuleData.bag_requirement}
+                    referencePage={currentRuleData.reference_page}
+                    onOpenReference={sourceDocument?.pdf_url ? handleOpenPDF : undefined}
+                  />
                 )}
 
                 {/* Items */}
@@ -439,9 +476,17 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
 
                 {/* Reference Page */}
                 {currentRuleData.reference_page && (
-                  <Text style={styles.referencePageText}>
-                    {t('refPage')}: {currentRuleData.reference_page}
-                  </Text>
+                  sourceDocument?.pdf_url ? (
+                    <TouchableOpacity onPress={() => handleOpenPDF(currentRuleData.reference_page)}>
+                      <Text style={[styles.referencePageText, styles.referencePageLink]}>
+                        {t('refPage')}: {currentRuleData.reference_page}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <Text style={styles.referencePageText}>
+                      {t('refPage')}: {currentRuleData.reference_page}
+                    </Text>
+                  )
                 )}
               </View>
             )}
@@ -459,8 +504,42 @@ const MainScreen: React.FC<MainScreenProps> = ({ location, onLocationReset, appS
         visible={showAIScanner}
         onClose={() => setShowAIScanner(false)}
         wasteCategories={wasteCategories}
+        compositeId={compositeId}
         districtId={districtId}
+        onBulkyItemDetected={bulkyWaste ? handleBulkyItemDetected : undefined}
+        onCategorySelect={handleScannerCategorySelect}
       />
+
+      {/* Source Document Viewer */}
+      {sourceDocument?.pdf_url && (
+        <SourceDocumentViewer
+          visible={sourceDocumentPage !== null}
+          onClose={() => setSourceDocumentPage(null)}
+          pdfUrl={sourceDocument.pdf_url}
+          initialPage={sourceDocumentPage ?? 1}
+        />
+      )}
+
+      {/* Report Correction Modal */}
+      <ReportCorrectionModal
+        visible={reportedResult !== null}
+        onClose={() => setReportedResult(null)}
+        source="rules"
+        compositeId={compositeId}
+        wasteCategories={wasteCategories}
+        initialItemName={reportedResult?.name ?? ''}
+        originalCategory={reportedResult?.category ?? null}
+      />
+
+      {/* Bulky Waste Assistant Modal */}
+      {bulkyWaste && (
+        <BulkyWasteAssistant
+          visible={showBulkyAssistant}
+          onClose={handleCloseBulkyAssistant}
+          bulkyWaste={bulkyWaste}
+          initialItemName={bulkyInitialItem}
+        />
+      )}
     </ScrollView>
   );
 };
@@ -496,13 +575,21 @@ const styles = StyleSheet.create({
     flexShrink: 1,
     marginRight: 8,
   },
+  locationTextContainer: {
+    marginLeft: 8,
+    flexShrink: 1,
+  },
   locationText: { 
-    marginLeft: 8, 
     fontSize: 16, 
     fontWeight: '500', 
     color: '#374151',
     flexShrink: 1,
   },
+  rulesUpdatedText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
   changeLocationButton: {
     fontSize: 16,
     fontWeight: '600',
@@ -592,6 +679,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  bulkyLinkCard: {
+    backgroundColor: '#FFFBEB',
+    borderColor: '#FCD34D',
+  },
+  bulkyLinkText: {
+    marginLeft: 8,
+    color: '#B45309',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   resultsContainer: { 
     gap: 8 
   },
@@ -614,6 +711,15 @@ const styles = StyleSheet.create({
     color: '#4B5563',
     marginTop: 4,
   },
+  reportLink: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+  },
+  reportLinkText: {
+    fontSize: 13,
+    color: '#6B7280',
+    textDecorationLine: 'underline',
+  },
   tabScrollView: { 
     marginBottom: 16 
   },
@@ -689,18 +795,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginLeft: 8,
   },
-  detailTextSecondary: {
-    color: '#6B7280',
-    fontSize: 12,
-    marginLeft: 16,
-    fontStyle: 'italic',
-  },
   referencePageText: {
     fontSize: 12,
     color: '#9CA3AF',
     marginTop: 12,
     textAlign: 'right',
   },
+  referencePageLink: {
+    color: '#3B82F6',
+    textDecorationLine: 'underline',
+  },
   loadingText: {
     marginTop: 12,
     color: '#4B5563',
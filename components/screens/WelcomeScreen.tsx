@@ -4,6 +4,7 @@ import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firesto
 import React, { useEffect, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
+  ActivityIndicator,
   Keyboard,
   KeyboardAvoidingView,
   Modal,
@@ -20,6 +21,12 @@ import DropDownPicker, { ItemType } from 'react-native-dropdown-picker';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../context/AuthContext';
 import { db } from '../../firebase/firebaseConfig';
+import {
+  detectDistrictFromPosition,
+  findDistrictsByPostcode,
+  normalizePostcode
+} from '../../services/locationDetectionService';
+import { IDistrictCandidate } from '../../types/locations';
 import LanguageSwitcher from '../common/LanguageSwitcher';
 import StatusDisplay from '../common/StatusDisplay';
 import { AlertCircleIcon, MapPinIcon, UserIcon } from '../icons/Icons';
@@ -37,6 +44,7 @@ interface WelcomeScreenProps {
   appState: IAppState;
   onLocationSelect: (locationString: string, compositeId: string, districtId: string) => void;
   onLoginClick: () => void;
+  onCancel?: () => void; // Có khi đang thêm/đổi địa điểm và đã có địa điểm lưu sẵn
 }
 
 interface DropdownItem {
@@ -54,7 +62,7 @@ interface IDistrictData {
 
 // --- COMPONENT ---
 
-const WelcomeScreen = ({ appState, onLocationSelect }: WelcomeScreenProps) => {
+const WelcomeScreen = ({ appState, onLocationSelect, onCancel }: WelcomeScreenProps) => {
   const { t, i18n } = useTranslation();
   const { status, statusCount, error } = appState;
 
@@ -85,6 +93,19 @@ const WelcomeScreen = ({ appState, onLocationSelect }: WelcomeScreenProps) => {
   const [districtOpen, setDistrictOpen] = useState<boolean>(false);
 
   const justFoundByPostcode = useRef<boolean>(false);
+  // Mã bưu điện do app tự điền (không tra cứu lại, tránh ghi đè khu vực vừa chọn)
+  const autoFilledPostcode = useRef<string | null>(null);
+  const [postcodeNotSupported, setPostcodeNotSupported] = useState<boolean>(false);
+
+  // GPS: đang định vị, lỗi
+  const [isDetectingLocation, setIsDetectingLocation] = useState<boolean>(false);
+  const [gpsError, setGpsError] = useState<string | null>(null);
+
+  // Danh sách khu vực cần người dùng xác nhận (GPS không chắc chắn / mã bưu điện dùng chung)
+  const [candidatePicker, setCandidatePicker] = useState<{
+    source: 'gps' | 'postcode';
+    candidates: IDistrictCandidate[];
+  } | null>(null);
 
   const handleLoginClick = () => {
     setShowAuthModal(true);
@@ -220,88 +241,137 @@ const WelcomeScreen = ({ appState, onLocationSelect }: WelcomeScreenProps) => {
     );
     
     if (district && district.postal_code) {
-      setPostcode(district.postal_code.replace('-', ''));
+      fillPostcode(district.postal_code);
     }
   }, [selectedDistrict, cityDataCache]);
 
+  // --- LOGIC: Điền sẵn tỉnh / thành phố / khu vực (dùng cho mã bưu điện và GPS) ---
+  const applyMunicipalitySelection = async (targetCityId: string, cityData: any, targetDistrictId: string | null) => {
+    setCityDataCache(cityData);
+    const targetPrefectureCode = cityData.prefecture_romaji;
+
+    const qCities = query(
+      collection(db, 'municipalities'),
+      where("prefecture_romaji", "==", targetPrefectureCode)
+    );
+    const citiesSnapshot = await getDocs(qCities);
+    const citiesList: DropdownItem[] = citiesSnapshot.docs.map(doc => {
+      const data = doc.data();
+      const label = (i18n.language === 'ja' && data.districts && data.districts.length > 0)
+        ? data.districts[0].city_kanji
+        : doc.id;
+      return { label, value: doc.id };
+    });
+    
+    const districtsList: DropdownItem[] = (cityData.districts || [])
+      .map((district: IDistrictData) => ({
+        label: i18n.language === 'ja' ? district.name_kanji : district.name,
+        value: district.schedule_group_id,
+      }))
+      .filter((district: DropdownItem) => district.label && district.value);
+    
+    const uniqueDistricts = Array.from(new Map(districtsList.map(item => [item.value, item])).values());
+    uniqueDistricts.sort((a, b) => a.label.localeCompare(b.label));
+
+    justFoundByPostcode.current = true;
+    
+    setCityItems(citiesList);
+    setDistrictItems(uniqueDistricts);
+    setSelectedPrefecture(targetPrefectureCode);
+    setSelectedCity(targetCityId);
+    setSelectedDistrict(targetDistrictId);
+  };
+
   // --- LOGIC: Postcode Search ---
+  const fillPostcode = (value: string) => {
+    autoFilledPostcode.current = normalizePostcode(value);
+    setPostcode(value.replace('-', ''));
+  };
+
   useEffect(() => {
     if (typeof postcode !== 'string') return;
-    const formattedPostcode = postcode.replace('-', '');
+    setPostcodeNotSupported(false);
 
-    if (formattedPostcode.length === 7) {
-      const fetchCityByPostcode = async () => {
-        setIsLoadingCities(true);
-        setIsLoadingPrefs(true);
-        setIsLoadingDistricts(true);
-        try {
-          const q = query(
-            collection(db, 'municipalities'),
-            where("postal_codes", "array-contains", formattedPostcode)
-          );
-          const querySnapshot = await getDocs(q);
+    // Chấp nhận số full-width, tiền tố 〒 và các loại dấu gạch
+    const formattedPostcode = normalizePostcode(postcode);
+    if (!formattedPostcode) return;
+    if (formattedPostcode === autoFilledPostcode.current) return;
+    autoFilledPostcode.current = null;
 
-          if (!querySnapshot.empty) {
-            const cityDoc = querySnapshot.docs[0];
-            const cityData = cityDoc.data();
-            setCityDataCache(cityData);
-            const targetPrefectureCode = cityData.prefecture_romaji;
-            const targetCityId = cityDoc.id;
-
-            const qCities = query(
-              collection(db, 'municipalities'),
-              where("prefecture_romaji", "==", targetPrefectureCode)
-            );
-            const citiesSnapshot = await getDocs(qCities);
-            const citiesList: DropdownItem[] = citiesSnapshot.docs.map(doc => {
-              const data = doc.data();
-              const label = (i18n.language === 'ja' && data.districts && data.districts.length > 0)
-                ? data.districts[0].city_kanji
-                : doc.id;
-              return { label, value: doc.id };
-            });
-            
-            const districtsList: DropdownItem[] = (cityData.districts || [])
-              .map((district: IDistrictData) => ({
-                label: i18n.language === 'ja' ? district.name_kanji : district.name,
-                value: district.schedule_group_id,
-              }))
-              .filter((district: DropdownItem) => district.label && district.value);
-            
-            const uniqueDistricts = Array.from(new Map(districtsList.map(item => [item.value, item])).values());
-            uniqueDistricts.sort((a, b) => a.label.localeCompare(b.label));
+    let isCancelled = false;
+    const fetchCityByPostcode = async () => {
+      setIsLoadingCities(true);
+      setIsLoadingPrefs(true);
+      setIsLoadingDistricts(true);
+      try {
+        const candidates = await findDistrictsByPostcode(formattedPostcode, i18n.language);
+        if (isCancelled) return;
+
+        if (candidates.length === 0) {
+          setPostcodeNotSupported(true);
+        } else if (candidates.length === 1) {
+          await applyDistrictCandidate(candidates[0]);
+        } else {
+          // Một mã bưu điện dùng cho nhiều khu vực / thành phố: để người dùng chọn
+          setCandidatePicker({ source: 'postcode', candidates });
+        }
+      } catch (err) {
+        console.error("Error finding postcode:", err);
+      } finally {
+        setIsLoadingCities(false);
+        setIsLoadingPrefs(false);
+        setIsLoadingDistricts(false);
+      }
+    };
+    fetchCityByPostcode();
 
-            const matchingDistrict = (cityData.districts || []).find(
-              (d: IDistrictData) => d.postal_code && d.postal_code.replace('-', '') === formattedPostcode
-            );
+    return () => {
+      isCancelled = true;
+    };
+  }, [postcode, i18n.language]);
 
-            justFoundByPostcode.current = true;
-            
-            setCityItems(citiesList);
-            setDistrictItems(uniqueDistricts);
-            setSelectedPrefecture(targetPrefectureCode);
-            setSelectedCity(targetCityId);
-            
-            if (matchingDistrict) {
-              setSelectedDistrict(matchingDistrict.schedule_group_id);
-            } else {
-              setSelectedDistrict(null);
-            }
+  // --- LOGIC: GPS ---
+  const applyDistrictCandidate = async (candidate: IDistrictCandidate) => {
+    setCandidatePicker(null);
+    setIsLoadingCities(true);
+    setIsLoadingDistricts(true);
+    try {
+      const cityDoc = await getDoc(doc(db, 'municipalities', candidate.municipalityId));
+      if (!cityDoc.exists()) {
+        setGpsError('errorLocationNotSupported');
+        return;
+      }
+      await applyMunicipalitySelection(cityDoc.id, cityDoc.data(), candidate.scheduleGroupId);
+      if (candidate.postalCode) {
+        fillPostcode(candidate.postalCode);
+      }
+    } catch (err) {
+      console.error("Error applying detected district:", err);
+      setGpsError('errorLocationUnavailable');
+    } finally {
+      setIsLoadingCities(false);
+      setIsLoadingDistricts(false);
+    }
+  };
 
-          } else {
-            console.log("Postcode not found:", postcode);
-          }
-        } catch (err) {
-          console.error("Error finding postcode:", err);
-        } finally {
-          setIsLoadingCities(false);
-          setIsLoadingPrefs(false);
-          setIsLoadingDistricts(false);
-        }
-      };
-      fetchCityByPostcode();
+  const handleUseCurrentLocation = async () => {
+    setGpsError(null);
+    setIsDetectingLocation(true);
+    try {
+      const result = await detectDistrictFromPosition(i18n.language);
+      if (result.isAmbiguous) {
+        // Nhiều khu vực gần nhau: để người dùng xác nhận
+        setCandidatePicker({ source: 'gps', candidates: result.candidates });
+      } else {
+        await applyDistrictCandidate(result.candidates[0]);
+      }
+    } catch (err: any) {
+      console.error("Error detecting location:", err);
+      setGpsError(err?.message?.startsWith('errorLocation') ? err.message : 'errorLocationUnavailable');
+    } finally {
+      setIsDetectingLocation(false);
     }
-  }, [postcode, i18n.language]);
+  };
 
   // --- CONFIRM LOCATION ---
   const handleConfirmLocation = () => {
@@ -337,6 +407,13 @@ const WelcomeScreen = ({ appState, onLocationSelect }: WelcomeScreenProps) => {
               contentContainerStyle={styles.scrollContainer}
               keyboardShouldPersistTaps="handled"
             >
+              {/* Quay lại địa điểm đã lưu */}
+              {onCancel && (
+                <TouchableOpacity onPress={onCancel} style={styles.cancelButtonContainer}>
+                  <Text style={styles.cancelButtonText}>‹ {t('cancel', 'Cancel')}</Text>
+                </TouchableOpacity>
+              )}
+
               {/* Login Button */}
               <View style={styles.loginButtonContainer}>
                 {user ? (
@@ -452,7 +529,35 @@ const WelcomeScreen = ({ appState, onLocationSelect }: WelcomeScreenProps) => {
                     keyboardType="number-pad"
                     returnKeyType="done"
                   />
+                  {postcodeNotSupported && (
+                    <Text style={styles.postcodeNotSupportedText}>
+                      {t('postcodeNotSupported', 'This postcode is not supported yet. Please select your area from the lists above.')}
+                    </Text>
+                  )}
                 </View>
+
+                {/* GPS */}
+                <TouchableOpacity
+                  onPress={handleUseCurrentLocation}
+                  disabled={isDetectingLocation}
+                  style={styles.gpsButton}
+                >
+                  {isDetectingLocation ? (
+                    <ActivityIndicator size="small" color="#2563EB" />
+                  ) : (
+                    <MapPinIcon color="#2563EB" size={18} />
+                  )}
+                  <Text style={styles.gpsButtonText}>{t('useCurrentLocation', 'Use my current location')}</Text>
+                </TouchableOpacity>
+                {gpsError && (
+                  <Text style={styles.gpsErrorText}>
+                    {gpsError === 'errorLocationPermissionDenied'
+                      ? t('errorLocationPermissionDenied', 'Location permission was denied. Please select your area manually.')
+                      : gpsError === 'errorLocationNotSupported'
+                        ? t('errorLocationNotSupported', 'Your current area is not supported yet.')
+                        : t('errorLocationUnavailable', 'Could not determine your location. Please try again or select manually.')}
+                  </Text>
+                )}
   
                 {/* Confirm Button */}
                 <TouchableOpacity
@@ -500,6 +605,46 @@ const WelcomeScreen = ({ appState, onLocationSelect }: WelcomeScreenProps) => {
           </View>
         </View>
       </Modal>
+      {/* Xác nhận khu vực khi GPS không chắc chắn hoặc mã bưu điện dùng chung */}
+      <Modal
+        visible={!!candidatePicker}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setCandidatePicker(null)}
+      >
+        <View style={styles.candidateOverlay}>
+          <View style={styles.candidateContent}>
+            <Text style={styles.candidateTitle}>{t('confirmDistrictTitle', 'Which district are you in?')}</Text>
+            <Text style={styles.candidateSubtitle}>
+              {candidatePicker?.source === 'postcode'
+                ? t('confirmPostcodeDistrictMessage', 'This postcode covers several collection districts.')
+                : t('confirmDistrictMessage', 'Several collection districts are near your location.')}
+            </Text>
+            <ScrollView style={styles.candidateList}>
+              {(candidatePicker?.candidates || []).map(candidate => (
+                <TouchableOpacity
+                  key={`${candidate.municipalityId}-${candidate.scheduleGroupId}`}
+                  style={styles.candidateItem}
+                  onPress={() => applyDistrictCandidate(candidate)}
+                >
+                  <Text style={styles.candidateLabel}>
+                    {candidate.scheduleGroupId ? candidate.label : t('selectDistrictLater', 'Choose district manually')}
+                  </Text>
+                  <Text style={styles.candidateDetail}>
+                    {candidate.cityLabel}
+                    {candidatePicker?.source === 'gps' && Number.isFinite(candidate.distanceKm)
+                      ? ` · ${candidate.distanceKm.toFixed(1)} km`
+                      : ''}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TouchableOpacity onPress={() => setCandidatePicker(null)} style={styles.candidateCancel}>
+              <Text style={styles.candidateCancelText}>{t('cancel', 'Cancel')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </>
   );
 };
@@ -516,6 +661,8 @@ const styles = StyleSheet.create({
     paddingBottom: 100,
   },
   loginButtonContainer: { position: 'absolute', top: 10, right: 0 },
+  cancelButtonContainer: { position: 'absolute', top: 18, left: 0, paddingHorizontal: 4 },
+  cancelButtonText: { fontSize: 16, fontWeight: '600', color: '#3B82F6' },
   loginButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -574,6 +721,31 @@ const styles = StyleSheet.create({
   dividerLine: { flex: 1, height: 1, backgroundColor: '#D1D5DB' },
   dividerText: { flexShrink: 1, marginHorizontal: 16, color: '#6B7280', fontSize: 14 },
   input: { borderWidth: 1, borderColor: '#D1D5DB', borderRadius: 8, padding: 12, fontSize: 16, width: '100%' },
+  gpsButton: {
+    marginTop: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+    backgroundColor: '#EFF6FF',
+  },
+  gpsButtonText: { color: '#2563EB', fontWeight: '600', fontSize: 15 },
+  postcodeNotSupportedText: { color: '#B45309', fontSize: 13, marginTop: 6 },
+  gpsErrorText: { color: '#DC2626', fontSize: 13, marginTop: 6, textAlign: 'center' },
+  candidateOverlay: { flex: 1, backgroundColor: 'rgba(0, 0, 0, 0.4)', justifyContent: 'center', padding: 24 },
+  candidateContent: { backgroundColor: '#FFFFFF', borderRadius: 12, padding: 20, maxHeight: '80%' },
+  candidateTitle: { fontSize: 18, fontWeight: 'bold', color: '#1F2937' },
+  candidateSubtitle: { fontSize: 14, color: '#6B7280', marginTop: 4, marginBottom: 12 },
+  candidateList: { flexGrow: 0 },
+  candidateItem: { paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: '#F3F4F6' },
+  candidateLabel: { fontSize: 16, fontWeight: '600', color: '#1F2937' },
+  candidateDetail: { fontSize: 13, color: '#6B7280', marginTop: 2 },
+  candidateCancel: { marginTop: 12, alignSelf: 'flex-end', paddingVertical: 8, paddingHorizontal: 12 },
+  candidateCancelText: { color: '#6B7280', fontWeight: '600' },
   confirmButton: {
     marginTop: 24,
     flexDirection: 'row',
@@ -0,0 +1,38 @@
+/**
+ * Synonym groups for the garbage item search.
+ * Every term in a group is treated as equivalent: searching any of them also
+ * matches items indexed under the others. Kanji terms are listed together with
+ * their kana reading so that romaji input can reach kanji-only item names.
+ */
+export const GARBAGE_SYNONYM_GROUPS: string[][] = [
+  ['ペットボトル', 'pet bottle', 'plastic bottle', 'chai nhựa', '塑料瓶', '페트병', 'garrafa pet', 'botella de plástico', 'botol plastik', 'ขวดพลาสติก'],
+  ['缶', 'かん', 'can', 'cans', 'aluminum can', 'lon', 'lon nhôm', '罐', '캔', 'lata', 'kaleng', 'กระป๋อง'],
+  ['空き缶', 'あきかん', 'empty can'],
+  ['瓶', 'びん', 'ビン', 'bottle', 'glass bottle', 'chai thủy tinh', '玻璃瓶', '유리병', 'garrafa de vidro', 'botella de vidrio', 'botol kaca', 'ขวดแก้ว'],
+  ['紙', 'かみ', 'paper', 'giấy', '纸', '종이', 'papel', 'kertas', 'กระดาษ'],
+  ['新聞', 'しんぶん', '新聞紙', 'しんぶんし', 'newspaper', 'báo', 'báo giấy', '报纸', '신문', 'jornal', 'periódico', 'koran'],
+  ['雑誌', 'ざっし', 'magazine', 'tạp chí', '杂志', '잡지', 'revista', 'majalah'],
+  ['段ボール', 'だんボール', 'だんぼーる', 'ダンボール', 'cardboard', 'carton', 'thùng carton', 'bìa các tông', '纸箱', '골판지', 'papelão', 'kardus'],
+  ['牛乳パック', 'ぎゅうにゅうぱっく', 'milk carton', 'hộp sữa', '牛奶盒', '우유팩'],
+  ['生ごみ', 'なまごみ', '生ゴミ', 'food waste', 'kitchen waste', 'rác thực phẩm', 'đồ ăn thừa', '厨余垃圾', '음식물 쓰레기', 'restos de comida', 'sisa makanan'],
+  ['電池', 'でんち', '乾電池', 'かんでんち', 'battery', 'batteries', 'pin', '电池', '건전지', 'pilha', 'pila', 'baterai', 'แบตเตอรี่'],
+  ['蛍光灯', 'けいこうとう', 'fluorescent lamp', 'fluorescent tube', 'bóng đèn huỳnh quang', '荧光灯', '형광등'],
+  ['電球', 'でんきゅう', 'light bulb', 'bulb', 'bóng đèn', '灯泡', '전구'],
+  ['傘', 'かさ', 'umbrella', 'ô', 'dù', '伞', '우산', 'guarda-chuva', 'paraguas', 'payung'],
+  ['布団', 'ふとん', 'futon', 'chăn', 'nệm', '被子', '이불'],
+  ['衣類', 'いるい', '古着', 'ふるぎ', 'clothes', 'clothing', 'quần áo', '衣服', '옷', 'roupa', 'ropa', 'pakaian'],
+  ['家具', 'かぐ', 'furniture', 'đồ nội thất', '가구', 'móveis', 'muebles', 'perabot'],
+  ['自転車', 'じてんしゃ', 'bicycle', 'bike', 'xe đạp', '自行车', '자전거', 'bicicleta', 'sepeda'],
+  ['スプレー缶', 'すぷれーかん', 'spray can', 'aerosol', 'bình xịt', '喷雾罐', '스프레이 캔'],
+  ['プラスチック', 'プラ', 'plastic', 'nhựa', '塑料', '플라스틱', 'plástico', 'plastik', 'พลาสติก'],
+  ['容器包装', 'ようきほうそう', 'packaging', 'plastic packaging', 'bao bì', '包装'],
+  ['発泡スチロール', 'はっぽうすちろーる', 'styrofoam', 'polystyrene', 'xốp', '泡沫塑料', '스티로폼'],
+  ['陶器', 'とうき', '食器', 'しょっき', 'ceramics', 'dishes', 'tableware', 'bát đĩa', 'gốm', '陶瓷', '도자기'],
+  ['ガラス', 'がらす', 'glass', 'thủy tinh', '玻璃', '유리', 'vidro', 'vidrio', 'kaca'],
+  ['金属', 'きんぞく', 'metal', 'kim loại', '금속'],
+  ['家電', 'かでん', '電化製品', 'でんかせいひん', 'appliance', 'electronics', 'đồ điện tử', 'đồ điện gia dụng', '家电', '가전제품'],
+  ['粗大ごみ', 'そだいごみ', '粗大ゴミ', 'oversized', 'bulky waste', 'large garbage', 'rác cồng kềnh', '大件垃圾', '대형 쓰레기'],
+  ['可燃ごみ', 'かねんごみ', '燃えるごみ', 'もえるごみ', '燃えるゴミ', 'burnable', 'combustible', 'rác cháy được', '可燃垃圾', '타는 쓰레기'],
+  ['不燃ごみ', 'ふねんごみ', '燃えないごみ', 'もえないごみ', '燃えないゴミ', 'non-burnable', 'non combustible', 'rác không cháy được', '不可燃垃圾', '타지 않는 쓰레기'],
+  ['資源ごみ', 'しげんごみ', 'recyclables', 'recyclable', 'rác tái chế', '可回收垃圾', '재활용'],
+];
@@ -1,15 +1,38 @@
 // context/LocationContext.tsx
 
-import React, { createContext, ReactNode, useContext, useState } from 'react';
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { removeReminderSettings } from '../services/garbageReminderService';
+import { invalidateCachedRules } from '../services/rulesCacheService';
+import {
+  createSavedLocation,
+  EMPTY_SAVED_LOCATIONS,
+  loadSavedLocations,
+  loadSavedLocationsFromProfile,
+  mergeSavedLocations,
+  saveSavedLocationsLocally,
+  syncSavedLocationsToProfile,
+} from '../services/savedLocationsService';
+import { ISavedLocation, ISavedLocationInput, ISavedLocationsState } from '../types/locations';
+import { useAuth } from './AuthContext';
 
 // --- ĐỊNH NGHĨA TYPESCRIPT ---
 
 // Định nghĩa kiểu cho các giá trị trong Context
 interface LocationContextType {
+  // Địa điểm đang chọn (suy ra từ danh sách đã lưu)
   locationString: string | null;
   compositeId: string | null;
-  // Sửa: Đổi tên hàm setLocation để rõ ràng hơn
-  setLocationContext: (locationString: string | null, compositeId: string | null) => void;
+  districtId: string | null;
+  // Danh sách địa điểm đã lưu (nhà, chỗ làm, nhà bố mẹ...)
+  savedLocations: ISavedLocation[];
+  activeLocationId: string | null;
+  isLocationsLoaded: boolean;
+  // 'add' = thêm địa điểm mới, 'replace' = đổi địa chỉ của địa điểm đang chọn (giữ tên và nhắc nhở)
+  saveLocation: (input: ISavedLocationInput, mode: 'add' | 'replace') => Promise<void>;
+  switchLocation: (locationId: string) => Promise<void>;
+  renameLocation: (locationId: string, label: string) => Promise<void>;
+  removeLocation: (locationId: string) => Promise<void>;
 }
 
 // Tạo Context với kiểu đã định nghĩa
@@ -19,20 +42,145 @@ const LocationContext = createContext<LocationContextType | undefined>(undefined
 // Tạo "Provider" (bộ chứa state)
 // SỬA: Thêm kiểu cho children
 export function LocationProvider({ children }: { children: ReactNode }) {
-  // SỬA: Giờ chúng ta quản lý cả hai state
-  const [locationString, setLocationString] = useState<string | null>(null);
-  const [compositeId, setCompositeId] = useState<string | null>(null);
-
-  // Hàm để cập nhật cả hai
-  const setLocationContext = (newLocationString: string | null, newCompositeId: string | null) => {
-    setLocationString(newLocationString);
-    setCompositeId(newCompositeId);
-  };
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const [state, setState] = useState<ISavedLocationsState>(EMPTY_SAVED_LOCATIONS);
+  const [isLocationsLoaded, setIsLocationsLoaded] = useState<boolean>(false);
+
+  // Giữ state mới nhất cho các hàm async (tránh closure cũ)
+  const stateRef = useRef<ISavedLocationsState>(EMPTY_SAVED_LOCATIONS);
+
+  // Lưu local, sau đó đồng bộ lên Firestore nếu đã đăng nhập
+  const commit = useCallback(async (next: ISavedLocationsState, syncProfile: boolean = true) => {
+    stateRef.current = next;
+    setState(next);
+    await saveSavedLocationsLocally(next);
+
+    if (syncProfile && user && await syncSavedLocationsToProfile(user.uid, next)) {
+      const synced = { ...stateRef.current, lastSyncedAt: Date.now() };
+      stateRef.current = synced;
+      setState(synced);
+      await saveSavedLocationsLocally(synced);
+    }
+  }, [user]);
+
+  // Tải danh sách đã lưu khi khởi động (kể cả migrate location cũ)
+  useEffect(() => {
+    loadSavedLocations(t('locationLabelHome', 'Home')).then(loaded => {
+      stateRef.current = loaded;
+      setState(loaded);
+      setIsLocationsLoaded(true);
+    });
+  }, []);
+
+  // Khi đăng nhập: gộp danh sách local với danh sách trong profile
+  useEffect(() => {
+    if (!user || !isLocationsLoaded) return;
+
+    let isCancelled = false;
+    const mergeWithProfile = async () => {
+      const remote = await loadSavedLocationsFromProfile(user.uid);
+      if (isCancelled) return;
+      const merged = remote ? mergeSavedLocations(stateRef.current, remote) : stateRef.current;
+      await commit(merged);
+    };
+    mergeWithProfile().catch(e => console.error('Lỗi đồng bộ địa điểm:', e));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [user, isLocationsLoaded, commit]);
+
+  const activeLocation = useMemo<ISavedLocation | null>(
+    () => state.locations.find(l => l.id === state.activeLocationId) || null,
+    [state]
+  );
+
+  const saveLocation = useCallback(async (input: ISavedLocationInput, mode: 'add' | 'replace') => {
+    const current = stateRef.current;
+    const now = Date.now();
+    const active = current.locations.find(l => l.id === current.activeLocationId);
+
+    if (mode === 'replace' && active) {
+      const replaced: ISavedLocation = {
+        ...active,
+        label: input.label?.trim() || active.label,
+        locationString: input.locationString,
+        compositeId: input.compositeId,
+        districtId: input.districtId,
+        updatedAt: now,
+      };
+      const locations = current.locations.map(l => (l.id === active.id ? replaced : l));
+      await commit({ ...current, locations, updatedAt: now });
+      if (!locations.some(l => l.compositeId === active.compositeId)) {
+        await invalidateCachedRules(active.compositeId);
+      }
+      return;
+    }
+
+    // Địa điểm đầu tiên mặc định là "Home", các địa điểm sau lấy tên khu vực
+    const fallbackLabel = current.locations.length === 0
+      ? t('locationLabelHome', 'Home')
+      : input.locationString.split(',')[0].trim();
+    const location = createSavedLocation(input, fallbackLabel);
+    await commit({
+      ...current,
+      locations: [...current.locations, location],
+      activeLocationId: location.id,
+      updatedAt: now,
+    });
+  }, [commit, t]);
+
+  const switchLocation = useCallback(async (locationId: string) => {
+    const current = stateRef.current;
+    if (!current.locations.some(l => l.id === locationId)) return;
+    // Địa điểm đang chọn chỉ lưu trên thiết bị
+    await commit({ ...current, activeLocationId: locationId }, false);
+  }, [commit]);
+
+  const renameLocation = useCallback(async (locationId: string, label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    const current = stateRef.current;
+    const now = Date.now();
+    await commit({
+      ...current,
+      locations: current.locations.map(l => (l.id === locationId ? { ...l, label: trimmed, updatedAt: now } : l)),
+      updatedAt: now,
+    });
+  }, [commit]);
+
+  const removeLocation = useCallback(async (locationId: string) => {
+    const current = stateRef.current;
+    const removed = current.locations.find(l => l.id === locationId);
+    if (!removed) return;
+
+    const locations = current.locations.filter(l => l.id !== locationId);
+    await commit({
+      ...current,
+      locations,
+      activeLocationId: current.activeLocationId === locationId ? locations[0]?.id ?? null : current.activeLocationId,
+      updatedAt: Date.now(),
+    });
+
+    await removeReminderSettings(locationId);
+    // Chỉ xoá cache rules khi không còn địa điểm nào dùng cùng thành phố
+    if (!locations.some(l => l.compositeId === removed.compositeId)) {
+      await invalidateCachedRules(removed.compositeId);
+    }
+  }, [commit]);
 
   const value = {
-    locationString,
-    compositeId,
-    setLocationContext
+    locationString: activeLocation?.locationString ?? null,
+    compositeId: activeLocation?.compositeId ?? null,
+    districtId: activeLocation?.districtId ?? null,
+    savedLocations: state.locations,
+    activeLocationId: activeLocation?.id ?? null,
+    isLocationsLoaded,
+    saveLocation,
+    switchLocation,
+    renameLocation,
+    removeLocation,
   };
 
   return (
@@ -50,4 +198,4 @@ export function useLocation(): LocationContextType {
     throw new Error('useLocation must be used within a LocationProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -3,6 +3,8 @@
 import { Platform } from 'react-native';
 import { initializeApp, getApps } from 'firebase/app';
 import { getFirestore, initializeFirestore, CACHE_SIZE_UNLIMITED } from 'firebase/firestore';
+import { getFunctions } from 'firebase/functions';
+import { getStorage } from 'firebase/storage';
 
 console.log('[Firebase] Loading firebaseConfig.TS (FALLBACK) - Platform:', Platform.OS);
 
@@ -85,4 +87,10 @@ try {
   console.log('[Firebase] Firestore already initialized, using existing instance');
 }
 
-export { app, auth, db };
\ No newline at end of file
+// Callable Cloud Functions (AI features are charged on the server)
+const functions = getFunctions(app);
+
+// Firebase Storage (photos attached to correction reports)
+const storage = getStorage(app);
+
+export { app, auth, db, functions, storage };
\ No newline at end of file
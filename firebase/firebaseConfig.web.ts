@@ -10,6 +10,8 @@ import {
   persistentLocalCache,
   persistentMultipleTabManager
 } from 'firebase/firestore';
+import { getFunctions } from 'firebase/functions';
+import { getStorage } from 'firebase/storage';
 
 // --- CẤU HÌNH ---
 const firebaseConfig = {
@@ -46,4 +48,10 @@ try {
 // Chỉ dùng logic của Web
 const auth = getAuth(app);
 
-export { auth, db };
+// Callable Cloud Functions
+const functions = getFunctions(app);
+
+// Firebase Storage (photos attached to correction reports)
+const storage = getStorage(app);
+
+export { auth, db, functions, storage };
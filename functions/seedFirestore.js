@@ -23,6 +23,10 @@ async function seedTokenLimits() {
         maxInputTokens: 10000,
         description: 'Japanese learning chat with JLPT support'
       },
+      ai_map: {
+        maxInputTokens: 10000,
+        description: 'Map assistant chat'
+      },
       garbage_analysis: {
         maxInputTokens: 50000,
         description: 'Garbage image analysis with vision'
@@ -4,6 +4,15 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import cors from 'cors';
 // @ts-ignore - youtube-captions-scraper doesn't have type definitions
 import { getSubtitles } from 'youtube-captions-scraper';
+import {
+  CreditReservation,
+  TokenUsage,
+  calculateUsageCredits,
+  readTokenUsage,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation,
+} from './creditMetering';
 
 // Initialize CORS
 const corsHandler = cors({ origin: true });
@@ -37,6 +46,7 @@ interface TranslationResponse {
   success: boolean;
   videoHashId: string;
   creditsCharged: number;
+  remainingCredits?: number;
   historyId: string;
   message?: string;
   error?: string;
@@ -216,7 +226,7 @@ async function translateSubtitles(
   subtitles: SubtitleCue[],
   targetLanguage: string,
   hasOriginalTranscript: boolean
-): Promise<{ translatedSubtitles: SubtitleCue[]; tokensUsed: number }> {
+): Promise<{ translatedSubtitles: SubtitleCue[]; usage: TokenUsage }> {
   const genAI = getGeminiAPI();
 
   // Select model based on whether we have transcript
@@ -270,16 +280,13 @@ Translated subtitles:`;
     }
   }
 
-  // Calculate tokens used
-  const tokensUsed = response.usageMetadata?.totalTokenCount || 0;
-
-  return { translatedSubtitles, tokensUsed };
+  return { translatedSubtitles, usage: readTokenUsage(response.usageMetadata) };
 }
 
 /**
- * Calculate credits
+ * Estimate credits from the video duration (reserved before translating, settled from actual usage)
  */
-function calculateCredits(
+function estimateCredits(
   durationSeconds: number,
   modelTier: 'lite' | 'flash',
   hasTranscript: boolean
@@ -306,6 +313,7 @@ function calculateCredits(
  */
 export const translateVideoSubtitles = functions.https.onRequest((request, response) => {
   corsHandler(request, response, async () => {
+    let reservation: CreditReservation | null = null;
     try {
       // Validate request
       if (request.method !== 'POST') {
@@ -434,9 +442,9 @@ export const translateVideoSubtitles = functions.https.onRequest((request, respo
       // Calculate credits
       const hasOriginalTranscript = true; // YouTube videos have transcript
       const modelTier = hasOriginalTranscript ? 'lite' : 'flash';
-      const creditsRequired = calculateCredits(videoDurationSeconds, modelTier, hasOriginalTranscript);
+      const estimatedCredits = estimateCredits(videoDurationSeconds, modelTier, hasOriginalTranscript);
 
-      console.log(`Credits required: ${creditsRequired} (${modelTier} model)`);
+      console.log(`Credits estimated: ${estimatedCredits} (${modelTier} model)`);
 
       // Check user balance
       const userRef = db.collection('users').doc(userId);
@@ -450,31 +458,30 @@ export const translateVideoSubtitles = functions.https.onRequest((request, respo
         return;
       }
 
-      const userData = userSnap.data();
-      const currentBalance = userData?.credits || 0;
-
-      if (currentBalance < creditsRequired) {
-        response.status(402).json({
-          success: false,
-          error: `Insufficient credits. Required: ${creditsRequired}, Available: ${currentBalance}`,
-        });
-        return;
-      }
+      // Hold the estimate, refused when the balance cannot cover it
+      reservation = await reserveCredits(userId, estimatedCredits, 'video_translation', { videoId, targetLanguage });
 
       // Translate subtitles
       console.log('Translating subtitles...');
-      const { translatedSubtitles, tokensUsed } = await translateSubtitles(
+      const { translatedSubtitles, usage } = await translateSubtitles(
         originalTranscript,
         targetLanguage,
         hasOriginalTranscript
       );
+      const tokensUsed = usage.totalTokens;
 
       console.log(`Translation complete. Tokens used: ${tokensUsed}`);
 
-      // Deduct credits
-      await userRef.update({
-        credits: admin.firestore.FieldValue.increment(-creditsRequired),
-      });
+      // Charge the actual usage instead of the estimate
+      const charge = await settleCreditReservation(
+        reservation,
+        calculateUsageCredits(usage, modelTier),
+        `video_translation (${modelTier})`,
+        'video_translation',
+        { videoId, targetLanguage, ...usage }
+      );
+      reservation = null;
+      const creditsRequired = charge.creditsCharged;
 
       // Save to Firestore
       const translationData = {
@@ -549,11 +556,21 @@ export const translateVideoSubtitles = functions.https.onRequest((request, respo
         success: true,
         videoHashId: videoId,
         creditsCharged: creditsRequired,
+        remainingCredits: charge.balanceAfter.total,
         historyId: historyRef.id,
         message: 'Translation completed successfully',
       } as TranslationResponse);
 
     } catch (error: any) {
+      if (reservation) {
+        await releaseCreditReservation(reservation).catch((releaseError) => {
+          console.error('Failed to release credit reservation:', releaseError);
+        });
+      }
+      if (error instanceof functions.https.HttpsError && error.code === 'resource-exhausted') {
+        response.status(402).json({ success: false, error: error.message });
+        return;
+      }
       console.error('Error in translateVideoSubtitles:', error);
       response.status(500).json({
         success: false,
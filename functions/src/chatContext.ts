@@ -0,0 +1,226 @@
+// functions/src/chatContext.ts
+// Chat history fitted to a feature's token limit: recent turns verbatim, older ones as a rolling summary
+
+import * as admin from 'firebase-admin';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createHash } from 'crypto';
+import { TokenUsage, readTokenUsage } from './creditMetering';
+
+// One summary per user, feature and conversation (same key as the context cache registry)
+const SUMMARIES_COLLECTION = 'aiConversationSummaries';
+
+// Room kept in the token limit for the summary, also its output cap
+const SUMMARY_MAX_TOKENS = 512;
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationKey {
+  userId: string;
+  featureType: string;
+  conversationId: string;
+}
+
+export interface ChatContext {
+  messages: ChatMessage[]; // Sent verbatim, the last one is the new user message
+  summary: string | null; // "Conversation so far", covers every message before `messages`
+  droppedCount: number; // Leading messages not sent verbatim
+  tokenCount: number; // Counted size of the full history, before fitting
+  summaryUsage: TokenUsage | null; // Set when a summary call was made for this request
+  warnings: string[];
+}
+
+/**
+ * Rough token count without an API call (1 token ≈ 4 chars)
+ */
+export function estimateTokenCount(messages: ChatMessage[], systemInstruction?: string): number {
+  const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0) + (systemInstruction?.length || 0);
+  return Math.ceil(totalChars / 4);
+}
+
+/**
+ * Count tokens in messages using Gemini API
+ */
+export async function countMessageTokens(
+  genAI: GoogleGenerativeAI,
+  modelName: string,
+  messages: ChatMessage[],
+  systemInstruction?: string
+): Promise<number> {
+  try {
+    // The SDK counts the model's system instruction along with the contents
+    const model = genAI.getGenerativeModel({ model: modelName, systemInstruction });
+
+    const contents = messages.map((msg) => ({
+      role: msg.role === 'user' ? 'user' : 'model',
+      parts: [{ text: msg.content }],
+    }));
+
+    const result = await model.countTokens({ contents });
+    return result.totalTokens || 0;
+  } catch (error) {
+    console.error('Error counting tokens:', error);
+    // Fallback: estimate based on characters
+    return estimateTokenCount(messages, systemInstruction);
+  }
+}
+
+// Local per-message sizes, scaled so that they add up to the counted total
+function estimateMessageTokens(
+  messages: ChatMessage[],
+  systemInstruction: string | undefined,
+  countedTotal: number
+): { perMessage: number[]; systemInstruction: number } {
+  const rawMessages = messages.map((msg) => estimateTokenCount([msg]));
+  const rawSystemInstruction = systemInstruction ? estimateTokenCount([], systemInstruction) : 0;
+  const rawTotal = rawMessages.reduce((sum, tokens) => sum + tokens, 0) + rawSystemInstruction;
+  const scale = rawTotal > 0 ? countedTotal / rawTotal : 1;
+  return {
+    perMessage: rawMessages.map((tokens) => Math.ceil(tokens * scale)),
+    systemInstruction: Math.ceil(rawSystemInstruction * scale),
+  };
+}
+
+// Detects edited or deleted messages in the part a stored summary covers
+function fingerprintMessages(messages: ChatMessage[]): string {
+  const serialized = JSON.stringify(messages.map((msg) => [msg.role, msg.content]));
+  return createHash('sha256').update(serialized).digest('hex').slice(0, 40);
+}
+
+function summaryRef(conversation: ConversationKey): admin.firestore.DocumentReference {
+  return admin.firestore()
+    .collection(SUMMARIES_COLLECTION)
+    .doc(`${conversation.userId}_${conversation.featureType}_${conversation.conversationId}`);
+}
+
+async function summarizeMessages(
+  genAI: GoogleGenerativeAI,
+  modelName: string,
+  previousSummary: string | null,
+  messages: ChatMessage[]
+): Promise<{ summary: string; usage: TokenUsage }> {
+  const model = genAI.getGenerativeModel({
+    model: modelName,
+    generationConfig: { maxOutputTokens: SUMMARY_MAX_TOKENS },
+  });
+  const transcript = messages
+    .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+    .join('\n\n');
+  const prompt = `Summarize this conversation for the assistant that will continue it.
+Keep facts, names, numbers, decisions, the user's goals and open questions. Use the language of the conversation, at most 200 words.
+
+${previousSummary ? `Summary of the earlier part:\n${previousSummary}\n\n` : ''}Messages:
+${transcript}`;
+
+  const result = await model.generateContent(prompt);
+  return { summary: result.response.text().trim(), usage: readTokenUsage(result.response.usageMetadata) };
+}
+
+/**
+ * Summary of `dropped`, extending the stored one when it already covers a prefix of it
+ */
+async function getRollingSummary(
+  genAI: GoogleGenerativeAI,
+  modelName: string,
+  conversation: ConversationKey,
+  dropped: ChatMessage[]
+): Promise<{ summary: string; usage: TokenUsage | null }> {
+  const ref = summaryRef(conversation);
+  const stored = (await ref.get()).data();
+  const reusable = !!stored
+    && stored.userId === conversation.userId
+    && stored.coveredCount <= dropped.length
+    && stored.fingerprint === fingerprintMessages(dropped.slice(0, stored.coveredCount));
+
+  if (reusable && stored!.coveredCount === dropped.length) {
+    return { summary: stored!.summary, usage: null };
+  }
+
+  const coveredCount = reusable ? stored!.coveredCount : 0;
+  const { summary, usage } = await summarizeMessages(
+    genAI,
+    modelName,
+    reusable ? stored!.summary : null,
+    dropped.slice(coveredCount)
+  );
+  await ref.set({
+    ...conversation,
+    summary,
+    coveredCount: dropped.length,
+    fingerprint: fingerprintMessages(dropped),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return { summary, usage };
+}
+
+/**
+ * Fit the history in `maxTokens` with a single countTokens call.
+ * The newest turns are kept verbatim; the older ones are summarized when the conversation
+ * is known (the summary is stored and extended on later requests), otherwise dropped.
+ */
+export async function buildChatContext(
+  genAI: GoogleGenerativeAI,
+  modelName: string,
+  summaryModelName: string,
+  messages: ChatMessage[],
+  maxTokens: number,
+  systemInstruction?: string,
+  conversation?: ConversationKey | null
+): Promise<ChatContext> {
+  const tokenCount = await countMessageTokens(genAI, modelName, messages, systemInstruction);
+  if (tokenCount <= maxTokens || messages.length <= 1) {
+    return { messages, summary: null, droppedCount: 0, tokenCount, summaryUsage: null, warnings: [] };
+  }
+
+  const estimates = estimateMessageTokens(messages, systemInstruction, tokenCount);
+  const budget = maxTokens - estimates.systemInstruction - (conversation ? SUMMARY_MAX_TOKENS : 0);
+
+  // Walk back from the new message while the turns fit
+  let cut = messages.length - 1;
+  let keptTokens = estimates.perMessage[cut];
+  while (cut > 0 && keptTokens + estimates.perMessage[cut - 1] <= budget) {
+    cut--;
+    keptTokens += estimates.perMessage[cut];
+  }
+  // Gemini history has to start with a user turn
+  while (cut < messages.length - 1 && messages[cut].role !== 'user') {
+    keptTokens -= estimates.perMessage[cut];
+    cut++;
+  }
+
+  const dropped = messages.slice(0, cut);
+  const droppedTokens = estimates.perMessage.slice(0, cut).reduce((sum, tokens) => sum + tokens, 0);
+  const warnings: string[] = [];
+
+  let summary: string | null = null;
+  let summaryUsage: TokenUsage | null = null;
+  if (conversation && dropped.length > 0) {
+    try {
+      ({ summary, usage: summaryUsage } = await getRollingSummary(genAI, summaryModelName, conversation, dropped));
+    } catch (error) {
+      console.error('Failed to summarize conversation:', error);
+    }
+  }
+
+  if (dropped.length > 0) {
+    const range = `Messages 1-${cut} of ${messages.length} (~${droppedTokens.toLocaleString()} tokens)`;
+    warnings.push(summary
+      ? `${range} were replaced by a summary of the conversation so far to fit within the ${maxTokens} token limit`
+      : `${range} were dropped to fit within the ${maxTokens} token limit`);
+  }
+  if (keptTokens > budget) {
+    warnings.push(`The last message alone (~${keptTokens.toLocaleString()} tokens) exceeds the ${maxTokens} token limit`);
+  }
+
+  console.log(`Context: kept ${messages.length - cut}/${messages.length} messages (~${keptTokens} tokens), summary: ${summary ? 'yes' : 'no'}`);
+  return { messages: messages.slice(cut), summary, droppedCount: cut, tokenCount, summaryUsage, warnings };
+}
+
+/**
+ * Forget the stored summary (conversation deleted)
+ */
+export async function deleteConversationSummary(conversation: ConversationKey): Promise<void> {
+  await summaryRef(conversation).delete();
+}
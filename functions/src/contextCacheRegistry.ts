@@ -0,0 +1,200 @@
+// functions/src/contextCacheRegistry.ts
+// Gemini context caches owned by the server: one per user, feature and conversation, tracked in Firestore
+
+import * as admin from 'firebase-admin';
+import { GoogleAICacheManager } from '@google/generative-ai/server';
+import { AIModelTier, calculateCacheStorageCostPerHourUSD } from './creditMetering';
+
+const CONTEXT_CACHES_COLLECTION = 'aiContextCaches';
+
+export const CACHE_TTL_MINUTES = 60;
+const CACHE_RENEWAL_THRESHOLD_MINUTES = 55;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Chat document ids (aiChats, japaneseLearningChats)
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export interface ContextCacheEntry {
+  id: string;
+  userId: string;
+  featureType: string;
+  conversationId: string;
+  status: 'active' | 'deleted';
+  cacheName: string; // Gemini `cachedContents/...` name, never sent to the app
+  model: string;
+  modelTier: AIModelTier;
+  systemInstructionHash: string; // The cache holds the system instruction, a changed prompt needs a new cache
+  cachedTokenCount: number;
+  cachedMessageCount: number; // Leading messages of the app's history the cache covers (summarized ones included)
+  storageCostPerHourUSD: number;
+  storageCostUSD: number; // Accrued up to storageAccruedUntil, over every cache of the conversation
+  storageAccruedUntil: number; // Epoch millis, like the timestamps below
+  createdAt: number;
+  renewedAt: number;
+  expiresAt: number;
+}
+
+export interface NewContextCache {
+  cacheName: string;
+  model: string;
+  modelTier: AIModelTier;
+  systemInstructionHash: string;
+  cachedTokenCount: number;
+  cachedMessageCount: number;
+}
+
+export function isValidConversationId(value: unknown): value is string {
+  return typeof value === 'string' && CONVERSATION_ID_PATTERN.test(value);
+}
+
+// The caller's uid is part of the id, so one user can never look up another user's cache
+function cacheRef(userId: string, featureType: string, conversationId: string): admin.firestore.DocumentReference {
+  return admin.firestore().collection(CONTEXT_CACHES_COLLECTION).doc(`${userId}_${featureType}_${conversationId}`);
+}
+
+// Storage cost up to `now` (or the expiry, Gemini drops the cache then)
+function accrueStorageCost(entry: ContextCacheEntry, now: number): Pick<ContextCacheEntry, 'storageCostUSD' | 'storageAccruedUntil'> {
+  const until = Math.min(now, entry.expiresAt);
+  const elapsedHours = Math.max(0, until - entry.storageAccruedUntil) / HOUR_MS;
+  return {
+    storageCostUSD: entry.storageCostUSD + elapsedHours * entry.storageCostPerHourUSD,
+    storageAccruedUntil: Math.max(until, entry.storageAccruedUntil),
+  };
+}
+
+async function deleteGeminiCache(cacheManager: GoogleAICacheManager, cacheName: string): Promise<void> {
+  try {
+    await cacheManager.delete(cacheName);
+  } catch (error: any) {
+    // Already expired on Gemini's side
+    if (!error?.message?.includes('404') && !error?.message?.includes('not found')) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Active, unexpired cache of a conversation, or null
+ */
+export async function getConversationCache(
+  userId: string,
+  featureType: string,
+  conversationId: string
+): Promise<ContextCacheEntry | null> {
+  const snapshot = await cacheRef(userId, featureType, conversationId).get();
+  const entry = snapshot.data() as ContextCacheEntry | undefined;
+  if (!entry || entry.status !== 'active') {
+    return null;
+  }
+  if (entry.userId !== userId) {
+    console.warn(`Refusing context cache ${snapshot.id}: not owned by ${userId}`);
+    return null;
+  }
+  return entry.expiresAt > Date.now() ? entry : null;
+}
+
+/**
+ * Extend the TTL once the cache is CACHE_RENEWAL_THRESHOLD_MINUTES old.
+ * A failed renewal keeps the current expiry.
+ */
+export async function renewConversationCacheIfNeeded(
+  cacheManager: GoogleAICacheManager,
+  entry: ContextCacheEntry
+): Promise<ContextCacheEntry> {
+  const now = Date.now();
+  if (now - entry.renewedAt < CACHE_RENEWAL_THRESHOLD_MINUTES * MINUTE_MS) {
+    return entry;
+  }
+
+  try {
+    await cacheManager.update(entry.cacheName, {
+      cachedContent: { ttlSeconds: CACHE_TTL_MINUTES * 60 },
+    });
+  } catch (error) {
+    console.warn('Cache renewal failed:', error);
+    return entry;
+  }
+
+  const renewed: ContextCacheEntry = {
+    ...entry,
+    ...accrueStorageCost(entry, now),
+    renewedAt: now,
+    expiresAt: now + CACHE_TTL_MINUTES * MINUTE_MS,
+  };
+  await cacheRef(entry.userId, entry.featureType, entry.conversationId).set(renewed);
+  console.log(`Cache renewed: ${entry.id}`);
+  return renewed;
+}
+
+/**
+ * Record a newly created cache for the conversation, deleting the one it replaces
+ */
+export async function registerConversationCache(
+  cacheManager: GoogleAICacheManager,
+  userId: string,
+  featureType: string,
+  conversationId: string,
+  cache: NewContextCache
+): Promise<ContextCacheEntry> {
+  const ref = cacheRef(userId, featureType, conversationId);
+  const previous = (await ref.get()).data() as ContextCacheEntry | undefined;
+  const now = Date.now();
+
+  let storageCostUSD = 0;
+  if (previous) {
+    storageCostUSD = previous.status === 'active'
+      ? accrueStorageCost(previous, now).storageCostUSD
+      : previous.storageCostUSD;
+    if (previous.status === 'active' && previous.cacheName !== cache.cacheName) {
+      await deleteGeminiCache(cacheManager, previous.cacheName).catch((error) => {
+        console.warn('Failed to delete replaced cache:', error);
+      });
+    }
+  }
+
+  const entry: ContextCacheEntry = {
+    id: ref.id,
+    userId,
+    featureType,
+    conversationId,
+    status: 'active',
+    ...cache,
+    storageCostPerHourUSD: calculateCacheStorageCostPerHourUSD(cache.cachedTokenCount, cache.modelTier),
+    storageCostUSD,
+    storageAccruedUntil: now,
+    createdAt: now,
+    renewedAt: now,
+    expiresAt: now + CACHE_TTL_MINUTES * MINUTE_MS,
+  };
+  await ref.set(entry);
+  return entry;
+}
+
+/**
+ * Delete the conversation's cache on Gemini and mark the entry deleted (its storage cost is kept)
+ */
+export async function deleteConversationCache(
+  cacheManager: GoogleAICacheManager,
+  userId: string,
+  featureType: string,
+  conversationId: string
+): Promise<boolean> {
+  const ref = cacheRef(userId, featureType, conversationId);
+  const entry = (await ref.get()).data() as ContextCacheEntry | undefined;
+  if (!entry || entry.status !== 'active' || entry.userId !== userId) {
+    return false;
+  }
+
+  const now = Date.now();
+  if (entry.expiresAt > now) {
+    await deleteGeminiCache(cacheManager, entry.cacheName);
+  }
+  await ref.update({
+    ...accrueStorageCost(entry, now),
+    status: 'deleted',
+    expiresAt: Math.min(entry.expiresAt, now),
+  });
+  return true;
+}
@@ -0,0 +1,239 @@
+// functions/src/correctionFunctions.ts
+// Crowd-sourced corrections: users report wrong scanner / rules results, admins review them
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+const db = admin.firestore();
+
+const CORRECTIONS_COLLECTION = 'garbage_corrections';
+const RULES_COLLECTION = 'garbage_rules_vision';
+
+// Photos are uploaded by the app to `${CORRECTION_IMAGES_PATH}/${uid}/...`
+const CORRECTION_IMAGES_PATH = 'corrections';
+
+const COMPOSITE_ID_PATTERN = /^[a-z0-9_-]{3,100}$/i;
+const MAX_ITEM_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 500;
+const MAX_ANALYSIS_JSON_LENGTH = 20000;
+
+// Open reports per user, keeps the queue reviewable
+const MAX_PENDING_PER_USER = 20;
+
+// Accepted corrections kept on the rules document for the scanner prompt
+const MAX_PROMPT_CORRECTIONS = 30;
+
+const MODERATOR_ROLES = ['admin', 'superadmin'];
+
+interface SubmitCorrectionRequest {
+  source: 'scanner' | 'rules';
+  compositeId: string;
+  itemName: string;
+  originalCategory: string | null;
+  correctedCategory: string;
+  note?: string;
+  imagePath?: string | null;
+  analysis?: Record<string, any> | null;
+  itemIndex?: number;
+}
+
+interface ReviewCorrectionRequest {
+  correctionId: string;
+  decision: 'approve' | 'reject';
+  category?: string;
+  itemName?: string;
+}
+
+interface AcceptedCorrection {
+  item: string;
+  category: string;
+  from: string | null;
+}
+
+function trimmedString(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= maxLength ? trimmed : null;
+}
+
+/**
+ * Report a wrong scanner result or an outdated rules entry.
+ * The report goes to the moderation queue; nothing changes until an admin approves it.
+ */
+export const submitGarbageCorrection = functions.https.onCall(async (data: SubmitCorrectionRequest, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const userId = context.auth.uid;
+  const source = data?.source === 'rules' ? 'rules' : 'scanner';
+  const compositeId = data?.compositeId;
+  const itemName = trimmedString(data?.itemName, MAX_ITEM_NAME_LENGTH);
+  const correctedCategory = trimmedString(data?.correctedCategory, MAX_ITEM_NAME_LENGTH);
+  const originalCategory = trimmedString(data?.originalCategory, MAX_ITEM_NAME_LENGTH);
+  const note = trimmedString(data?.note, MAX_NOTE_LENGTH);
+  const imagePath = typeof data?.imagePath === 'string' ? data.imagePath : null;
+
+  if (typeof compositeId !== 'string' || !COMPOSITE_ID_PATTERN.test(compositeId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'A valid compositeId is required');
+  }
+  if (!itemName || !correctedCategory) {
+    throw new functions.https.HttpsError('invalid-argument', 'itemName and correctedCategory are required');
+  }
+  if (correctedCategory === originalCategory) {
+    throw new functions.https.HttpsError('invalid-argument', 'The corrected category is the same as the original');
+  }
+  if (imagePath && !imagePath.startsWith(`${CORRECTION_IMAGES_PATH}/${userId}/`)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Invalid image path');
+  }
+
+  const analysis = data?.analysis && typeof data.analysis === 'object' ? data.analysis : null;
+  if (analysis && JSON.stringify(analysis).length > MAX_ANALYSIS_JSON_LENGTH) {
+    throw new functions.https.HttpsError('invalid-argument', 'Analysis is too large');
+  }
+
+  try {
+    const [rulesSnap, pendingSnap] = await Promise.all([
+      db.collection(RULES_COLLECTION).doc(compositeId).get(),
+      db.collection(CORRECTIONS_COLLECTION)
+        .where('userId', '==', userId)
+        .where('status', '==', 'pending')
+        .get(),
+    ]);
+
+    const wasteCategories = rulesSnap.exists ? rulesSnap.data()?.waste_categories : null;
+    if (!wasteCategories || !wasteCategories[correctedCategory]) {
+      throw new functions.https.HttpsError('invalid-argument', 'Unknown category for this municipality');
+    }
+    if (pendingSnap.size >= MAX_PENDING_PER_USER) {
+      throw new functions.https.HttpsError('resource-exhausted', 'Too many reports waiting for review');
+    }
+
+    const correctionRef = db.collection(CORRECTIONS_COLLECTION).doc();
+    await correctionRef.set({
+      id: correctionRef.id,
+      userId,
+      source,
+      compositeId,
+      itemName,
+      originalCategory,
+      correctedCategory,
+      note,
+      imagePath,
+      analysis,
+      itemIndex: typeof data?.itemIndex === 'number' ? data.itemIndex : null,
+      status: 'pending',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { id: correctionRef.id };
+  } catch (error: any) {
+    console.error('Error submitting correction:', error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError('internal', 'Failed to submit correction');
+  }
+});
+
+/**
+ * Approve or reject a report (admins only).
+ * Approving moves the item to the corrected category in the municipality's rules,
+ * records it for the scanner prompt and bumps the rules version so apps refresh their cache.
+ */
+export const reviewGarbageCorrection = functions.https.onCall(async (data: ReviewCorrectionRequest, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const reviewerId = context.auth.uid;
+  const correctionId = data?.correctionId;
+  const decision = data?.decision;
+
+  if (typeof correctionId !== 'string' || correctionId.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'correctionId is required');
+  }
+  if (decision !== 'approve' && decision !== 'reject') {
+    throw new functions.https.HttpsError('invalid-argument', 'decision must be approve or reject');
+  }
+
+  const reviewerSnap = await db.collection('users').doc(reviewerId).get();
+  if (!MODERATOR_ROLES.includes(reviewerSnap.data()?.role)) {
+    throw new functions.https.HttpsError('permission-denied', 'Only admins can review corrections');
+  }
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const correctionRef = db.collection(CORRECTIONS_COLLECTION).doc(correctionId);
+      const correctionSnap = await transaction.get(correctionRef);
+      const correction = correctionSnap.data();
+
+      if (!correctionSnap.exists || !correction) {
+        throw new functions.https.HttpsError('not-found', 'Correction not found');
+      }
+      if (correction.status !== 'pending') {
+        throw new functions.https.HttpsError('failed-precondition', 'Correction was already reviewed');
+      }
+
+      const now = admin.firestore.Timestamp.now();
+
+      if (decision === 'reject') {
+        transaction.update(correctionRef, {
+          status: 'rejected',
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+        });
+        return { status: 'rejected' };
+      }
+
+      const rulesRef = db.collection(RULES_COLLECTION).doc(correction.compositeId);
+      const rulesSnap = await transaction.get(rulesRef);
+      const rules = rulesSnap.data();
+      const wasteCategories = rules?.waste_categories || {};
+
+      const finalCategory = trimmedString(data.category, MAX_ITEM_NAME_LENGTH) || correction.correctedCategory;
+      const finalItemName = trimmedString(data.itemName, MAX_ITEM_NAME_LENGTH) || correction.itemName;
+      if (!rulesSnap.exists || !wasteCategories[finalCategory]) {
+        throw new functions.https.HttpsError('failed-precondition', 'Category no longer exists in the rules');
+      }
+
+      // Newest first, one entry per item
+      const previousCorrections: AcceptedCorrection[] = Array.isArray(rules?.ai_corrections) ? rules!.ai_corrections : [];
+      const aiCorrections = [
+        { item: finalItemName, category: finalCategory, from: correction.originalCategory || null },
+        ...previousCorrections.filter((entry) => entry.item !== finalItemName),
+      ].slice(0, MAX_PROMPT_CORRECTIONS);
+
+      const rulesUpdate: Record<string, any> = {
+        [`waste_categories.${finalCategory}.items`]: admin.firestore.FieldValue.arrayUnion(finalItemName),
+        ai_corrections: aiCorrections,
+        updated_at: now,
+      };
+      const originalCategory = correction.originalCategory;
+      if (originalCategory && originalCategory !== finalCategory && wasteCategories[originalCategory]) {
+        // The reported name is the one listed under the old category
+        rulesUpdate[`waste_categories.${originalCategory}.items`] = admin.firestore.FieldValue.arrayRemove(correction.itemName);
+      }
+      if (typeof rules?.version === 'number') {
+        rulesUpdate.version = rules.version + 1;
+      }
+
+      transaction.update(rulesRef, rulesUpdate);
+      transaction.update(correctionRef, {
+        status: 'approved',
+        reviewedBy: reviewerId,
+        reviewedAt: now,
+        finalCategory,
+        finalItemName,
+      });
+
+      return { status: 'approved', finalCategory, finalItemName };
+    });
+  } catch (error: any) {
+    console.error('Error reviewing correction:', error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError('internal', 'Failed to review correction');
+  }
+});
@@ -0,0 +1,335 @@
+// functions/src/creditMetering.ts
+// Server-side credit pricing (mirrors types/credits.ts) and metering: reserve before a model call, settle after
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+export type AIModelTier = 'lite' | 'flash' | 'pro';
+
+export const GEMINI_MODELS: Record<AIModelTier, string> = {
+  lite: 'gemini-flash-lite-latest',
+  flash: 'gemini-flash-latest',
+  pro: 'gemini-pro-latest',
+};
+
+// USD per 1M tokens (prompts <= 200k tokens); `cached` applies to tokens read from a context cache,
+// `storage` is per 1M cached tokens per hour
+const GEMINI_PRICING: Record<AIModelTier, { input: number; output: number; cached: number; storage: number }> = {
+  lite: { input: 0.10, output: 0.40, cached: 0.01, storage: 1.00 },
+  flash: { input: 0.30, output: 2.50, cached: 0.03, storage: 1.00 },
+  pro: { input: 1.25, output: 10.00, cached: 0.125, storage: 4.50 },
+};
+
+const CREDIT_CONVERSION_RATE = 0.0001; // $0.0001 per credit
+const PROFIT_MARGIN = 3;
+
+// Models allowed per subscription tier
+const ALLOWED_MODELS: Record<string, AIModelTier[]> = {
+  FREE: ['lite', 'flash'],
+  PRO: ['lite', 'flash', 'pro'],
+  ULTRA: ['lite', 'flash', 'pro'],
+};
+
+const RESERVATIONS_COLLECTION = 'creditReservations';
+const TRANSACTIONS_COLLECTION = 'creditTransactions';
+
+export interface CreditBalance {
+  trial: number;
+  monthly: number;
+  purchase: number;
+  total: number;
+}
+
+export interface ChargeResult {
+  creditsCharged: number;
+  balanceAfter: CreditBalance;
+}
+
+// Credits held before a model call, settled or released once it is done
+export interface CreditReservation {
+  id: string;
+  userId: string;
+  amount: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number; // Includes cachedTokens
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+}
+
+// Subset of Gemini's usageMetadata (SDK response or REST JSON)
+export interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+type CreditType = 'TRIAL' | 'MONTHLY' | 'PURCHASE';
+type BucketAmounts = Pick<CreditBalance, 'trial' | 'monthly' | 'purchase'>;
+
+export function isModelTier(value: unknown): value is AIModelTier {
+  return value === 'lite' || value === 'flash' || value === 'pro';
+}
+
+export function canUseModel(tier: string, modelTier: AIModelTier): boolean {
+  return (ALLOWED_MODELS[tier] || []).includes(modelTier);
+}
+
+/**
+ * Credits for one model call. `inputTokens` includes `cachedTokens` (like promptTokenCount),
+ * the cached part is billed at the context caching price.
+ */
+export function calculateCredits(
+  inputTokens: number,
+  outputTokens: number,
+  modelTier: AIModelTier,
+  cachedTokens: number = 0
+): number {
+  const pricing = GEMINI_PRICING[modelTier];
+  const cached = Math.min(cachedTokens, inputTokens);
+  const costUSD =
+    ((inputTokens - cached) * pricing.input + cached * pricing.cached + outputTokens * pricing.output) / 1_000_000;
+  return Math.ceil((costUSD / CREDIT_CONVERSION_RATE) * PROFIT_MARGIN);
+}
+
+export function readTokenUsage(usageMetadata: GeminiUsageMetadata | undefined): TokenUsage {
+  const promptTokens = usageMetadata?.promptTokenCount || 0;
+  const completionTokens = usageMetadata?.candidatesTokenCount || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    cachedTokens: usageMetadata?.cachedContentTokenCount || 0,
+    totalTokens: usageMetadata?.totalTokenCount || promptTokens + completionTokens,
+  };
+}
+
+export function calculateUsageCredits(usage: TokenUsage, modelTier: AIModelTier): number {
+  return calculateCredits(usage.promptTokens, usage.completionTokens, modelTier, usage.cachedTokens);
+}
+
+export function calculateCacheStorageCostPerHourUSD(cachedTokens: number, modelTier: AIModelTier): number {
+  return (cachedTokens * GEMINI_PRICING[modelTier].storage) / 1_000_000;
+}
+
+/**
+ * Current balance from a user document (legacy numeric credits count as purchase credits).
+ * Expired trial credits are ignored.
+ */
+export function readCreditBalance(userData: admin.firestore.DocumentData | undefined): CreditBalance {
+  const credits = userData?.credits;
+  if (typeof credits === 'number') {
+    return { trial: 0, monthly: 0, purchase: credits, total: credits };
+  }
+
+  const trialExpiresAt: admin.firestore.Timestamp | undefined = credits?.trial?.expiresAt;
+  const trialExpired = !!trialExpiresAt && trialExpiresAt.toMillis() <= Date.now();
+  const trial = trialExpired ? 0 : credits?.trial?.amount || 0;
+  const monthly = credits?.monthly?.amount || 0;
+  const purchase = credits?.purchase?.amount || 0;
+  return { trial, monthly, purchase, total: trial + monthly + purchase };
+}
+
+// ============================================
+// BALANCE UPDATES
+// ============================================
+
+function insufficientCreditsError(required: number, available: number): functions.https.HttpsError {
+  return new functions.https.HttpsError(
+    'resource-exhausted',
+    `Insufficient credits. Required: ${required}, Available: ${available}`,
+    { reason: 'insufficient_credits' }
+  );
+}
+
+// Take `amount` in order: trial (expiring) → monthly → purchase
+function takeFromBuckets(balance: CreditBalance, amount: number): { balanceAfter: CreditBalance; creditType: CreditType } {
+  let remaining = amount;
+  const trialUsed = Math.min(remaining, balance.trial);
+  remaining -= trialUsed;
+  const monthlyUsed = Math.min(remaining, balance.monthly);
+  remaining -= monthlyUsed;
+  const purchaseUsed = Math.min(remaining, balance.purchase);
+
+  return {
+    balanceAfter: {
+      trial: balance.trial - trialUsed,
+      monthly: balance.monthly - monthlyUsed,
+      purchase: balance.purchase - purchaseUsed,
+      total: balance.total - trialUsed - monthlyUsed - purchaseUsed,
+    },
+    creditType: trialUsed > 0 ? 'TRIAL' : monthlyUsed > 0 ? 'MONTHLY' : 'PURCHASE',
+  };
+}
+
+function addToBuckets(balance: CreditBalance, amounts: BucketAmounts): CreditBalance {
+  return {
+    trial: balance.trial + amounts.trial,
+    monthly: balance.monthly + amounts.monthly,
+    purchase: balance.purchase + amounts.purchase,
+    total: balance.total + amounts.trial + amounts.monthly + amounts.purchase,
+  };
+}
+
+function writeCreditBalance(
+  transaction: admin.firestore.Transaction,
+  userRef: admin.firestore.DocumentReference,
+  userData: admin.firestore.DocumentData | undefined,
+  balance: CreditBalance
+): void {
+  if (typeof userData?.credits === 'number') {
+    // Legacy format: a single number
+    transaction.update(userRef, { credits: balance.total });
+    return;
+  }
+
+  transaction.update(userRef, {
+    'credits.trial.amount': balance.trial,
+    'credits.monthly.amount': balance.monthly,
+    'credits.purchase.amount': balance.purchase,
+    'credits.total': balance.total,
+  });
+}
+
+// ============================================
+// RESERVE → SETTLE / RELEASE
+// ============================================
+
+/**
+ * Hold the estimated cost of a model call before making it.
+ * Throws HttpsError 'resource-exhausted' when the balance cannot cover the estimate.
+ */
+export async function reserveCredits(
+  userId: string,
+  amount: number,
+  featureType: string,
+  metadata?: Record<string, any>
+): Promise<CreditReservation> {
+  const db = admin.firestore();
+  const userRef = db.collection('users').doc(userId);
+  const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc();
+
+  return db.runTransaction(async (transaction) => {
+    const userSnap = await transaction.get(userRef);
+    if (!userSnap.exists) {
+      throw new functions.https.HttpsError('not-found', 'User not found');
+    }
+
+    const userData = userSnap.data();
+    const balance = readCreditBalance(userData);
+    if (balance.total < amount) {
+      throw insufficientCreditsError(amount, balance.total);
+    }
+
+    const { balanceAfter } = takeFromBuckets(balance, amount);
+    writeCreditBalance(transaction, userRef, userData, balanceAfter);
+    transaction.set(reservationRef, {
+      id: reservationRef.id,
+      userId,
+      amount,
+      // Per bucket, so a release puts the credits back where they came from
+      held: {
+        trial: balance.trial - balanceAfter.trial,
+        monthly: balance.monthly - balanceAfter.monthly,
+        purchase: balance.purchase - balanceAfter.purchase,
+      },
+      featureType,
+      metadata: metadata || null,
+      status: 'held',
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+
+    return { id: reservationRef.id, userId, amount };
+  });
+}
+
+/**
+ * Replace a hold with the exact cost and record it in `creditTransactions`.
+ * The model has already run, so a cost above the balance is capped (the rest is
+ * recorded as `uncollected`) instead of failing the request.
+ */
+export async function settleCreditReservation(
+  reservation: CreditReservation,
+  actualAmount: number,
+  reason: string,
+  featureType: string,
+  metadata?: Record<string, any>
+): Promise<ChargeResult> {
+  const db = admin.firestore();
+  const userRef = db.collection('users').doc(reservation.userId);
+  const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc(reservation.id);
+
+  return db.runTransaction(async (transaction) => {
+    const [reservationSnap, userSnap] = await Promise.all([
+      transaction.get(reservationRef),
+      transaction.get(userRef),
+    ]);
+    const reservationData = reservationSnap.data();
+    if (reservationData?.status !== 'held') {
+      throw new functions.https.HttpsError('failed-precondition', 'Credit reservation is no longer held');
+    }
+
+    const userData = userSnap.data();
+    const balanceBefore = addToBuckets(readCreditBalance(userData), reservationData.held);
+    const creditsCharged = Math.min(actualAmount, balanceBefore.total);
+    const { balanceAfter, creditType } = takeFromBuckets(balanceBefore, creditsCharged);
+    writeCreditBalance(transaction, userRef, userData, balanceAfter);
+
+    const transactionRef = db.collection(TRANSACTIONS_COLLECTION).doc();
+    transaction.set(transactionRef, {
+      id: transactionRef.id,
+      userId: reservation.userId,
+      type: 'DEDUCTION',
+      amount: creditsCharged,
+      creditType,
+      reason,
+      featureType,
+      balanceBefore,
+      balanceAfter,
+      metadata: {
+        ...metadata,
+        reservationId: reservation.id,
+        reservedAmount: reservation.amount,
+        uncollected: actualAmount - creditsCharged,
+      },
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+    transaction.update(reservationRef, {
+      status: 'settled',
+      settledAmount: creditsCharged,
+      transactionId: transactionRef.id,
+      settledAt: admin.firestore.Timestamp.now(),
+    });
+
+    return { creditsCharged, balanceAfter };
+  });
+}
+
+/**
+ * Give a hold back in full (model call failed). Safe to call on a settled reservation.
+ */
+export async function releaseCreditReservation(reservation: CreditReservation): Promise<void> {
+  const db = admin.firestore();
+  const userRef = db.collection('users').doc(reservation.userId);
+  const reservationRef = db.collection(RESERVATIONS_COLLECTION).doc(reservation.id);
+
+  await db.runTransaction(async (transaction) => {
+    const [reservationSnap, userSnap] = await Promise.all([
+      transaction.get(reservationRef),
+      transaction.get(userRef),
+    ]);
+    const reservationData = reservationSnap.data();
+    if (reservationData?.status !== 'held') {
+      return;
+    }
+
+    const userData = userSnap.data();
+    writeCreditBalance(transaction, userRef, userData, addToBuckets(readCreditBalance(userData), reservationData.held));
+    transaction.update(reservationRef, {
+      status: 'released',
+      settledAt: admin.firestore.Timestamp.now(),
+    });
+  });
+}
@@ -0,0 +1,687 @@
+// functions/src/garbageFunctions.ts
+// Garbage image analysis: Gemini vision + credit charging on the server
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { GoogleGenerativeAI, GoogleGenerativeAIResponseError, ResponseSchema, SchemaType } from '@google/generative-ai';
+import Ajv, { ValidateFunction } from 'ajv';
+import { createHash } from 'crypto';
+import {
+  AIModelTier,
+  CreditReservation,
+  GEMINI_MODELS,
+  TokenUsage,
+  calculateCredits,
+  calculateUsageCredits,
+  canUseModel,
+  isModelTier,
+  readCreditBalance,
+  readTokenUsage,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation,
+} from './creditMetering';
+import { RenderedPrompt, renderPrompt } from './promptRegistry';
+
+const db = admin.firestore();
+
+// Rules documents, one per `${prefecture}_${cityId}` (same as config.js TARGET_COLLECTION)
+const RULES_COLLECTION = 'garbage_rules_vision';
+
+// One document per user and scanned photo, doubles as the dedupe cache
+const SCAN_HISTORY_COLLECTION = 'scan_history';
+
+// Callable payload limit is 10MB; a 4:3 photo at quality 0.8 is well below this
+const MAX_IMAGE_BASE64_LENGTH = 7 * 1024 * 1024;
+const COMPOSITE_ID_PATTERN = /^[a-z0-9_-]{3,100}$/i;
+const SUPPORTED_LANGUAGES = ['vi', 'ja', 'en'];
+
+// Rough upper bound of one analysis, reserved before calling Gemini
+const ESTIMATED_INPUT_TOKENS = 2000;
+const ESTIMATED_OUTPUT_TOKENS = 1500;
+
+// One retry when the model output does not match the schema
+const MAX_ANALYSIS_ATTEMPTS = 2;
+
+// Category returned for oversize items even when the rules have no such category
+const BULKY_CATEGORY = 'bulky';
+
+// A cluttered photo is cut to the most prominent items
+const MAX_DETECTED_ITEMS = 10;
+
+// Gemini returns boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const BOX_GRID_SIZE = 1000;
+
+// Identification marks printed on packaging (資源有効利用促進法 + voluntary 紙パック / 段ボール marks)
+const RECYCLING_MARKS = ['pla', 'pet', 'paper', 'paper_carton', 'cardboard', 'aluminum', 'steel'];
+
+// Same values as TPackagingMaterial in the app (types/products.ts)
+const PACKAGING_MATERIALS = [
+  'pet', 'plastic', 'paper', 'paper_carton', 'aluminum_can', 'steel_can', 'glass', 'metal', 'burnable', 'other',
+];
+
+const ajv = new Ajv({ allErrors: true, removeAdditional: 'all' });
+const validatorCache = new Map<string, ValidateFunction<ModelAnalysisOutput>>();
+let markValidator: ValidateFunction<ModelMarkOutput> | null = null;
+
+// Gemini API initialization
+const getGeminiAPI = () => {
+  const apiKey = functions.config().gemini?.apikey || process.env.GOOGLE_AI_API_KEY;
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured');
+  }
+  return new GoogleGenerativeAI(apiKey);
+};
+
+// Types
+// 'items': identify each object; 'marks': read the recycling marks on the packaging
+type AnalysisMode = 'items' | 'marks';
+
+interface AnalyzeGarbageImageRequest {
+  imageBase64: string;
+  compositeId: string;
+  language?: string;
+  modelTier?: AIModelTier;
+  mode?: AnalysisMode;
+}
+
+// Sent as HttpsError details.reason so the app can show a specific message
+export type GarbageAnalysisErrorReason =
+  | 'unauthenticated'
+  | 'invalid_request'
+  | 'image_too_large'
+  | 'user_not_found'
+  | 'rules_not_found'
+  | 'model_not_allowed'
+  | 'insufficient_credits'
+  | 'invalid_output'
+  | 'safety_blocked'
+  | 'internal';
+
+// Fractions (0-1) of the image width/height, origin at the top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Part of an item sorted separately (e.g. PET bottle: bottle / cap / label)
+export interface GarbageItemComponent {
+  name: string;
+  category: string | null;
+  instructions: string;
+}
+
+export interface DetectedGarbageItem {
+  itemName: string;
+  category: string | null;
+  confidence: number;
+  instructions: string;
+  additionalInfo?: string;
+  isBulky?: boolean;
+  boundingBox: BoundingBox | null;
+  components: GarbageItemComponent[];
+}
+
+export interface GarbageAnalysisResult {
+  items: DetectedGarbageItem[];
+}
+
+// One packaging part in 'marks' mode; the app maps the material to a local category
+export interface RecyclingMarkDetection {
+  part: string;
+  mark: string | null; // null when no mark is visible and the material was guessed from the object
+  material: string;
+  source: 'mark' | 'object';
+  confidence: number;
+  explanation: string;
+  boundingBox: BoundingBox | null;
+}
+
+export interface RecyclingMarkAnalysisResult {
+  parts: RecyclingMarkDetection[];
+}
+
+// Raw model output, as constrained by buildResponseSchema
+interface ModelAnalysisOutput {
+  items: Array<{
+    itemName: string;
+    category: string | null;
+    confidence: number;
+    instructions: string;
+    additionalInfo?: string | null;
+    isBulky: boolean;
+    box_2d?: number[];
+    components?: GarbageItemComponent[];
+  }>;
+}
+
+// Raw model output in 'marks' mode, as constrained by buildMarkResponseSchema
+interface ModelMarkOutput {
+  parts: Array<{
+    part: string;
+    mark: string | null;
+    material: string;
+    source: 'mark' | 'object';
+    confidence: number;
+    explanation: string;
+    box_2d?: number[];
+  }>;
+}
+
+/**
+ * Vision prompt with the municipality's categories (a few sample items each)
+ * and the corrections approved by admins (see correctionFunctions.ts)
+ */
+function buildAnalysisPrompt(
+  wasteCategories: Record<string, any>,
+  language: string,
+  userId: string,
+  corrections: Array<{ item: string; category: string }> = []
+): Promise<RenderedPrompt | null> {
+  const categoriesContext = Object.keys(wasteCategories)
+    .map((cat) => {
+      const items = Array.isArray(wasteCategories[cat]?.items) ? wasteCategories[cat].items : [];
+      return `${cat}: ${items.slice(0, 5).join(', ')}`;
+    })
+    .join('\n');
+  const correctionsContext = corrections
+    .filter((correction) => wasteCategories[correction.category])
+    .map((correction) => `${correction.item} → ${correction.category}`)
+    .join('\n');
+
+  return renderPrompt(
+    'garbage_analysis',
+    { categoriesContext, correctionsContext: correctionsContext || '-', maxItems: MAX_DETECTED_ITEMS },
+    { locale: language, assignmentKey: userId }
+  );
+}
+
+/**
+ * Vision prompt for 'marks' mode: read the identification marks, guess only when none is visible
+ */
+function buildMarkPrompt(language: string, userId: string): Promise<RenderedPrompt | null> {
+  const marks = `pla = プラ, pet = PET (1), paper = 紙, paper_carton = 紙パック, cardboard = 段ボール, aluminum = アルミ, steel = スチール`;
+  return renderPrompt('garbage_marks', { marks }, { locale: language, assignmentKey: userId });
+}
+
+/**
+ * History document id: the same photo scanned again (same municipality, mode and language)
+ * maps to the same document and is answered from it without calling Gemini
+ */
+function buildScanId(
+  userId: string,
+  mode: AnalysisMode,
+  compositeId: string,
+  language: string,
+  imageBase64: string
+): string {
+  const hash = createHash('sha256')
+    .update(`${mode}:${compositeId}:${language}:`)
+    .update(imageBase64)
+    .digest('hex');
+  return `${userId}_${hash.slice(0, 40)}`;
+}
+
+// A cached result is reused only while the rules it was classified against are unchanged
+function getRulesVersion(rulesData: admin.firestore.DocumentData | undefined): number | null {
+  if (typeof rulesData?.version === 'number') return rulesData.version;
+  const updatedAt = rulesData?.updated_at;
+  return updatedAt instanceof admin.firestore.Timestamp ? updatedAt.toMillis() : null;
+}
+
+// Names and categories stored next to the result for the history list and its search
+function summarizeScan(
+  mode: AnalysisMode,
+  analysis: GarbageAnalysisResult | RecyclingMarkAnalysisResult
+): { itemNames: string[]; categories: string[] } {
+  if (mode === 'marks') {
+    return { itemNames: (analysis as RecyclingMarkAnalysisResult).parts.map((part) => part.part), categories: [] };
+  }
+  const items = (analysis as GarbageAnalysisResult).items;
+  return {
+    itemNames: items.map((item) => item.itemName),
+    categories: items.map((item) => item.category).filter((category): category is string => !!category),
+  };
+}
+
+function analysisError(
+  code: functions.https.FunctionsErrorCode,
+  reason: GarbageAnalysisErrorReason,
+  message: string
+): functions.https.HttpsError {
+  return new functions.https.HttpsError(code, message, { reason });
+}
+
+/**
+ * Gemini response schema: categories are constrained to the municipality's keys
+ */
+function buildResponseSchema(categoryKeys: string[]): ResponseSchema {
+  const categorySchema = {
+    type: SchemaType.STRING,
+    format: 'enum',
+    enum: [...categoryKeys, BULKY_CATEGORY],
+    nullable: true,
+  };
+
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      items: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            itemName: { type: SchemaType.STRING },
+            category: categorySchema,
+            confidence: { type: SchemaType.INTEGER },
+            instructions: { type: SchemaType.STRING },
+            additionalInfo: { type: SchemaType.STRING, nullable: true },
+            isBulky: { type: SchemaType.BOOLEAN },
+            box_2d: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+            components: {
+              type: SchemaType.ARRAY,
+              items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                  name: { type: SchemaType.STRING },
+                  category: categorySchema,
+                  instructions: { type: SchemaType.STRING },
+                },
+                required: ['name', 'category', 'instructions'],
+              },
+            },
+          },
+          required: ['itemName', 'category', 'confidence', 'instructions', 'isBulky', 'box_2d', 'components'],
+        },
+      },
+    },
+    required: ['items'],
+  };
+}
+
+/**
+ * JSON Schema validator for the same shape (compiled once per set of categories)
+ */
+function getResultValidator(categoryKeys: string[]): ValidateFunction<ModelAnalysisOutput> {
+  const cacheKey = categoryKeys.join('|');
+  const cached = validatorCache.get(cacheKey);
+  if (cached) return cached;
+
+  const categorySchema = { enum: [...categoryKeys, BULKY_CATEGORY, null] };
+  const validator = ajv.compile<ModelAnalysisOutput>({
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            itemName: { type: 'string', minLength: 1 },
+            category: categorySchema,
+            confidence: { type: 'number', minimum: 0, maximum: 100 },
+            instructions: { type: 'string', minLength: 1 },
+            additionalInfo: { type: ['string', 'null'] },
+            isBulky: { type: 'boolean' },
+            // A malformed box only hides the overlay, so it is checked in toBoundingBox
+            box_2d: { type: 'array', items: { type: 'number' } },
+            components: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', minLength: 1 },
+                  category: categorySchema,
+                  instructions: { type: 'string' },
+                },
+                required: ['name', 'category', 'instructions'],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ['itemName', 'category', 'confidence', 'instructions', 'isBulky'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['items'],
+    additionalProperties: false,
+  });
+  validatorCache.set(cacheKey, validator);
+  return validator;
+}
+
+/**
+ * Convert a [ymin, xmin, ymax, xmax] box on the 0-1000 grid to image fractions
+ */
+function toBoundingBox(box2d: number[] | undefined): BoundingBox | null {
+  if (!box2d || box2d.length !== 4) return null;
+
+  const [yMin, xMin, yMax, xMax] = box2d.map((value) => Math.min(Math.max(value, 0), BOX_GRID_SIZE) / BOX_GRID_SIZE);
+  if (xMax <= xMin || yMax <= yMin) return null;
+
+  return { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin };
+}
+
+/**
+ * Parse and validate the model output, null when it does not match the schema
+ */
+function parseAnalysisResult(text: string, categoryKeys: string[]): GarbageAnalysisResult | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    console.warn('Analysis output is not JSON:', text.slice(0, 200));
+    return null;
+  }
+
+  const validate = getResultValidator(categoryKeys);
+  if (!validate(parsed)) {
+    console.warn('Analysis output failed validation:', ajv.errorsText(validate.errors));
+    return null;
+  }
+
+  const items = parsed.items.slice(0, MAX_DETECTED_ITEMS).map((item) => ({
+    itemName: item.itemName.trim(),
+    category: item.category,
+    confidence: Math.round(item.confidence),
+    instructions: item.instructions,
+    additionalInfo: item.additionalInfo || undefined,
+    isBulky: item.isBulky,
+    boundingBox: toBoundingBox(item.box_2d),
+    components: (item.components || []).map((component) => ({
+      name: component.name.trim(),
+      category: component.category,
+      instructions: component.instructions,
+    })),
+  }));
+
+  return { items };
+}
+
+/**
+ * Gemini response schema for 'marks' mode
+ */
+function buildMarkResponseSchema(): ResponseSchema {
+  return {
+    type: SchemaType.OBJECT,
+    properties: {
+      parts: {
+        type: SchemaType.ARRAY,
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            part: { type: SchemaType.STRING },
+            mark: { type: SchemaType.STRING, format: 'enum', enum: RECYCLING_MARKS, nullable: true },
+            material: { type: SchemaType.STRING, format: 'enum', enum: PACKAGING_MATERIALS },
+            source: { type: SchemaType.STRING, format: 'enum', enum: ['mark', 'object'] },
+            confidence: { type: SchemaType.INTEGER },
+            explanation: { type: SchemaType.STRING },
+            box_2d: { type: SchemaType.ARRAY, items: { type: SchemaType.INTEGER } },
+          },
+          required: ['part', 'mark', 'material', 'source', 'confidence', 'explanation', 'box_2d'],
+        },
+      },
+    },
+    required: ['parts'],
+  };
+}
+
+function getMarkValidator(): ValidateFunction<ModelMarkOutput> {
+  if (markValidator) return markValidator;
+
+  markValidator = ajv.compile<ModelMarkOutput>({
+    type: 'object',
+    properties: {
+      parts: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            part: { type: 'string', minLength: 1 },
+            mark: { enum: [...RECYCLING_MARKS, null] },
+            material: { enum: PACKAGING_MATERIALS },
+            source: { enum: ['mark', 'object'] },
+            confidence: { type: 'number', minimum: 0, maximum: 100 },
+            explanation: { type: 'string' },
+            box_2d: { type: 'array', items: { type: 'number' } },
+          },
+          required: ['part', 'mark', 'material', 'source', 'confidence', 'explanation'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['parts'],
+    additionalProperties: false,
+  });
+  return markValidator;
+}
+
+/**
+ * Parse and validate 'marks' output. A part claimed as read from a mark must name the mark.
+ */
+function parseMarkResult(text: string): RecyclingMarkAnalysisResult | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    console.warn('Mark output is not JSON:', text.slice(0, 200));
+    return null;
+  }
+
+  const validate = getMarkValidator();
+  if (!validate(parsed)) {
+    console.warn('Mark output failed validation:', ajv.errorsText(validate.errors));
+    return null;
+  }
+
+  const parts = parsed.parts.slice(0, MAX_DETECTED_ITEMS).map((part) => ({
+    part: part.part.trim(),
+    mark: part.mark,
+    material: part.material,
+    source: part.mark ? part.source : 'object' as const,
+    confidence: Math.round(part.confidence),
+    explanation: part.explanation,
+    boundingBox: toBoundingBox(part.box_2d),
+  }));
+
+  return { parts };
+}
+
+/**
+ * Analyze a garbage photo against the rules of a municipality.
+ * The rules are loaded here (not sent by the app) and credits are reserved before the
+ * model call and settled from its usage, so a modified client cannot skip the charge.
+ * In 'marks' mode the recycling marks are read instead and the app maps them to categories.
+ */
+export const analyzeGarbageImage = functions
+  .runWith({ timeoutSeconds: 60, memory: '512MB' })
+  .https.onCall(async (data: AnalyzeGarbageImageRequest, context) => {
+    if (!context.auth) {
+      throw analysisError('unauthenticated', 'unauthenticated', 'User must be authenticated');
+    }
+
+    const userId = context.auth.uid;
+    const { imageBase64, compositeId } = data || ({} as AnalyzeGarbageImageRequest);
+    const language = SUPPORTED_LANGUAGES.includes(data?.language || '') ? data.language! : 'en';
+    const modelTier: AIModelTier = isModelTier(data?.modelTier) ? data.modelTier : 'lite';
+    const mode: AnalysisMode = data?.mode === 'marks' ? 'marks' : 'items';
+
+    if (typeof imageBase64 !== 'string' || imageBase64.length === 0) {
+      throw analysisError('invalid-argument', 'invalid_request', 'imageBase64 is required');
+    }
+    if (imageBase64.length > MAX_IMAGE_BASE64_LENGTH) {
+      throw analysisError('invalid-argument', 'image_too_large', 'Image is too large');
+    }
+    if (typeof compositeId !== 'string' || !COMPOSITE_ID_PATTERN.test(compositeId)) {
+      throw analysisError('invalid-argument', 'invalid_request', 'A valid compositeId is required');
+    }
+
+    try {
+      const userRef = db.collection('users').doc(userId);
+      const historyRef = db.collection(SCAN_HISTORY_COLLECTION).doc(buildScanId(userId, mode, compositeId, language, imageBase64));
+      // 'marks' mode is mapped to categories in the app, it does not need the rules
+      const [userSnap, rulesSnap, historySnap] = await Promise.all([
+        userRef.get(),
+        mode === 'items' ? db.collection(RULES_COLLECTION).doc(compositeId).get() : Promise.resolve(null),
+        historyRef.get(),
+      ]);
+
+      if (!userSnap.exists) {
+        throw analysisError('not-found', 'user_not_found', 'User not found');
+      }
+      const userData = userSnap.data();
+      const isSuperAdmin = userData?.role === 'superadmin';
+      const userTier = userData?.subscription || 'FREE';
+
+      if (!isSuperAdmin && !canUseModel(userTier, modelTier)) {
+        throw analysisError(
+          'permission-denied',
+          'model_not_allowed',
+          `Your subscription plan does not support ${modelTier} model`
+        );
+      }
+
+      const rulesData = rulesSnap?.exists ? rulesSnap.data() : undefined;
+      const wasteCategories = rulesData?.waste_categories;
+      const aiCorrections = Array.isArray(rulesData?.ai_corrections) ? rulesData!.ai_corrections : [];
+      if (mode === 'items' && (!wasteCategories || typeof wasteCategories !== 'object')) {
+        throw analysisError('not-found', 'rules_not_found', 'No garbage rules for this municipality');
+      }
+
+      // Same photo scanned before: return the stored result for free
+      const rulesVersion = getRulesVersion(rulesData);
+      const previousScan = historySnap.exists ? historySnap.data() : undefined;
+      if (previousScan?.analysis && (previousScan.rulesVersion ?? null) === rulesVersion) {
+        await historyRef.update({
+          scanCount: admin.firestore.FieldValue.increment(1),
+          lastScannedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return {
+          analysis: previousScan.analysis,
+          creditsCharged: 0,
+          remainingCredits: isSuperAdmin ? null : readCreditBalance(userData).total,
+          usage: readTokenUsage(undefined),
+          cached: true,
+          historyId: historyRef.id,
+        };
+      }
+
+      // Current version of the template (or the user's A/B variant), see promptRegistry.ts
+      const prompt = mode === 'marks'
+        ? await buildMarkPrompt(language, userId)
+        : await buildAnalysisPrompt(wasteCategories, language, userId, aiCorrections);
+      if (!prompt) {
+        throw new Error(`No prompt template for ${mode} mode`);
+      }
+
+      // Hold a typical analysis up front, refused when the balance cannot cover it
+      let reservation: CreditReservation | null = null;
+      if (!isSuperAdmin) {
+        reservation = await reserveCredits(
+          userId,
+          calculateCredits(ESTIMATED_INPUT_TOKENS, ESTIMATED_OUTPUT_TOKENS, modelTier),
+          'garbage_analysis',
+          { compositeId, mode }
+        );
+      }
+
+      const categoryKeys = Object.keys(wasteCategories || {});
+      const model = getGeminiAPI().getGenerativeModel({
+        model: GEMINI_MODELS[modelTier],
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: mode === 'marks' ? buildMarkResponseSchema() : buildResponseSchema(categoryKeys),
+        },
+      });
+      const parseOutput = (text: string) =>
+        mode === 'marks' ? parseMarkResult(text) : parseAnalysisResult(text, categoryKeys);
+
+      // Only the attempt that produced a valid result is charged
+      let analysis: GarbageAnalysisResult | RecyclingMarkAnalysisResult | null = null;
+      let usage: TokenUsage = readTokenUsage(undefined);
+      try {
+        for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS && !analysis; attempt++) {
+          const result = await model.generateContent([
+            prompt.text,
+            { inlineData: { data: imageBase64, mimeType: 'image/jpeg' } },
+          ]);
+          const response = result.response;
+          analysis = parseOutput(response.text());
+          usage = readTokenUsage(response.usageMetadata);
+          if (!analysis) {
+            console.warn(`Invalid analysis output for ${compositeId} (attempt ${attempt}/${MAX_ANALYSIS_ATTEMPTS})`);
+          }
+        }
+
+        if (!analysis) {
+          throw analysisError('internal', 'invalid_output', 'The model returned an invalid analysis');
+        }
+      } catch (modelError) {
+        if (reservation) {
+          await releaseCreditReservation(reservation);
+        }
+        // The SDK throws this when the prompt or the reply was blocked (safety filters...)
+        if (modelError instanceof GoogleGenerativeAIResponseError) {
+          throw analysisError('failed-precondition', 'safety_blocked', 'The image was blocked by the safety filters');
+        }
+        throw modelError;
+      }
+
+      let creditsCharged = 0;
+      let remainingCredits: number | null = null;
+      if (reservation) {
+        const charge = await settleCreditReservation(
+          reservation,
+          calculateUsageCredits(usage, modelTier),
+          `garbage_analysis (${modelTier})`,
+          'garbage_analysis',
+          { compositeId, mode, ...usage, promptVersion: prompt.version, promptExperimentId: prompt.experimentId }
+        );
+        creditsCharged = charge.creditsCharged;
+        remainingCredits = charge.balanceAfter.total;
+      }
+
+      // The result is already paid for, a failed history write must not fail the request
+      let historyId: string | null = historyRef.id;
+      try {
+        await historyRef.set({
+          id: historyRef.id,
+          userId,
+          mode,
+          compositeId,
+          language,
+          rulesVersion,
+          analysis,
+          ...summarizeScan(mode, analysis),
+          thumbnailPath: null,
+          imageAspectRatio: null,
+          creditsCharged,
+          scanCount: 1,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          lastScannedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      } catch (historyError) {
+        console.error('Error saving scan history:', historyError);
+        historyId = null;
+      }
+
+      return {
+        analysis,
+        creditsCharged,
+        remainingCredits,
+        cached: false,
+        historyId,
+        usage,
+      };
+    } catch (error: any) {
+      console.error('Error analyzing garbage image:', error);
+      if (error instanceof functions.https.HttpsError) {
+        throw error;
+      }
+      throw analysisError('internal', 'internal', 'Failed to analyze image');
+    }
+  });
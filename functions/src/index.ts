@@ -1,8 +1,46 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  EnhancedGenerateContentResponse,
+  GenerateContentStreamResult,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
 import { GoogleAICacheManager } from '@google/generative-ai/server';
 import cors from 'cors';
+import { createHash } from 'crypto';
+import {
+  AIModelTier,
+  CreditReservation,
+  calculateCredits,
+  calculateUsageCredits,
+  canUseModel,
+  isModelTier,
+  readTokenUsage,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation,
+} from './creditMetering';
+import {
+  CACHE_TTL_MINUTES,
+  ContextCacheEntry,
+  deleteConversationCache,
+  getConversationCache,
+  isValidConversationId,
+  registerConversationCache,
+  renewConversationCacheIfNeeded,
+} from './contextCacheRegistry';
+import { consumeRateLimit, getClientIp, RateLimitRule } from './rateLimit';
+import { readChatPromptVariables } from './featurePrompts';
+import { renderPrompt } from './promptRegistry';
+import {
+  ChatContext,
+  ChatMessage,
+  buildChatContext,
+  countMessageTokens,
+  deleteConversationSummary,
+  estimateTokenCount,
+} from './chatContext';
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -16,12 +54,24 @@ export * from './migrationFunctions';
 // Export AI Subs functions
 export * from './aiSubsFunctions';
 
+// Export garbage analysis functions
+export * from './garbageFunctions';
+
+// Export prompt template admin functions
+export * from './promptFunctions';
+
+// Export garbage correction (moderation queue) functions
+export * from './correctionFunctions';
+
 // Initialize CORS
 const corsHandler = cors({ origin: true });
 
-// Cache management constants
-const CACHE_TTL_MINUTES = 60;
-const CACHE_RENEWAL_THRESHOLD_MINUTES = 55;
+// Chat rate limits: per signed-in user, and per IP (several users can share one IP behind NAT)
+const CHAT_USER_RATE_LIMIT: RateLimitRule = { scope: 'chat_user', limit: 20, windowSeconds: 60 };
+const CHAT_IP_RATE_LIMIT: RateLimitRule = { scope: 'chat_ip', limit: 60, windowSeconds: 60 };
+
+// Reply length assumed when reserving credits before a chat call
+const CHAT_ESTIMATED_OUTPUT_TOKENS = 2048;
 
 // Gemini API initialization
 const getGeminiClients = () => {
@@ -41,9 +91,16 @@ interface CacheMetadata {
   cachedTokenCount: number;
 }
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+interface ChatCaller {
+  uid: string;
+  tier: string;
+  isSuperAdmin: boolean;
+}
+
+class ChatRequestError extends Error {
+  constructor(public status: number, message: string, public retryAfterSeconds?: number) {
+    super(message);
+  }
 }
 
 interface TokenLimitsConfig {
@@ -56,8 +113,22 @@ interface TokenLimitsConfig {
   cacheCreationWarningThreshold: number;
 }
 
+// Features geminiChat accepts, used when aiConfig/tokenLimits is missing or lacks a feature
+const DEFAULT_TOKEN_LIMITS: TokenLimitsConfig = {
+  features: {
+    ai_chat: { maxInputTokens: 10000, description: 'AI Chat' },
+    japanese_learning: { maxInputTokens: 10000, description: 'Japanese Learning' },
+    ai_map: { maxInputTokens: 10000, description: 'AI Map' },
+    garbage_analysis: { maxInputTokens: 50000, description: 'Garbage Analysis' },
+    web_summary: { maxInputTokens: 100000, description: 'Web Summary' },
+    web_qa: { maxInputTokens: 100000, description: 'Web Q&A' },
+    japanese_translation: { maxInputTokens: 50000, description: 'Japanese Translation' },
+  },
+  cacheCreationWarningThreshold: 150000,
+};
+
 /**
- * Load token limits config from Firestore
+ * Load token limits config from Firestore (values from Firestore win over the defaults)
  */
 async function loadTokenLimitsConfig(): Promise<TokenLimitsConfig> {
   try {
@@ -65,177 +136,38 @@ async function loadTokenLimitsConfig(): Promise<TokenLimitsConfig> {
 
     if (!configDoc.exists) {
       console.warn('Token limits config not found in Firestore, using defaults');
-      return {
-        features: {
-          ai_chat: { maxInputTokens: 10000, description: 'AI Chat' },
-          japanese_learning: { maxInputTokens: 10000, description: 'Japanese Learning' },
-          garbage_analysis: { maxInputTokens: 50000, description: 'Garbage Analysis' },
-          web_summary: { maxInputTokens: 100000, description: 'Web Summary' },
-          web_qa: { maxInputTokens: 100000, description: 'Web Q&A' },
-          japanese_translation: { maxInputTokens: 50000, description: 'Japanese Translation' },
-        },
-        cacheCreationWarningThreshold: 150000,
-      };
+      return DEFAULT_TOKEN_LIMITS;
     }
 
-    return configDoc.data() as TokenLimitsConfig;
-  } catch (error) {
-    console.error('Error loading token limits config:', error);
-    // Return defaults on error
+    const config = configDoc.data() as Partial<TokenLimitsConfig>;
     return {
-      features: {
-        ai_chat: { maxInputTokens: 10000, description: 'AI Chat' },
-        japanese_learning: { maxInputTokens: 10000, description: 'Japanese Learning' },
-      },
-      cacheCreationWarningThreshold: 150000,
+      ...DEFAULT_TOKEN_LIMITS,
+      ...config,
+      features: { ...DEFAULT_TOKEN_LIMITS.features, ...config.features },
     };
-  }
-}
-
-/**
- * Count tokens in messages using Gemini API
- */
-async function countMessageTokens(
-  genAI: GoogleGenerativeAI,
-  modelName: string,
-  messages: ChatMessage[],
-  systemPrompt?: string
-): Promise<number> {
-  try {
-    const model = genAI.getGenerativeModel({ model: modelName });
-
-    // Build content array
-    const contents: any[] = [];
-
-    // Add system prompt if provided
-    if (systemPrompt) {
-      contents.push({
-        role: 'user',
-        parts: [{ text: systemPrompt }],
-      });
-      contents.push({
-        role: 'model',
-        parts: [{ text: 'Understood. I will follow these instructions.' }],
-      });
-    }
-
-    // Add messages
-    for (const msg of messages) {
-      contents.push({
-        role: msg.role === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.content }],
-      });
-    }
-
-    const result = await model.countTokens({ contents });
-    return result.totalTokens || 0;
   } catch (error) {
-    console.error('Error counting tokens:', error);
-    // Fallback: estimate based on characters (rough estimate: 1 token ≈ 4 chars)
-    const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0) + (systemPrompt?.length || 0);
-    return Math.ceil(totalChars / 4);
-  }
-}
-
-/**
- * Trim messages to fit within token limit (keep most recent messages)
- * Reserves tokens for system prompt to ensure it's always included
- */
-async function trimMessagesToLimit(
-  genAI: GoogleGenerativeAI,
-  modelName: string,
-  messages: ChatMessage[],
-  maxTokens: number,
-  systemPrompt?: string
-): Promise<ChatMessage[]> {
-  // Always keep last message (current user input)
-  if (messages.length === 0) return messages;
-
-  const lastMessage = messages[messages.length - 1];
-  let trimmedMessages = [...messages];
-
-  // Reserve tokens for system prompt if provided
-  let availableTokensForMessages = maxTokens;
-  if (systemPrompt) {
-    const systemPromptTokens = await countMessageTokens(genAI, modelName, [
-      { role: 'user', content: systemPrompt },
-      { role: 'assistant', content: 'Understood. I will follow these instructions.' }
-    ]);
-    availableTokensForMessages = maxTokens - systemPromptTokens;
-    console.log(`📝 System prompt: ${systemPromptTokens} tokens | Available for messages: ${availableTokensForMessages} tokens`);
-  }
-
-  // Count tokens for messages only (without system prompt)
-  let tokenCount = await countMessageTokens(genAI, modelName, trimmedMessages);
-
-  // If within limit, return all messages
-  if (tokenCount <= availableTokensForMessages) {
-    return trimmedMessages;
-  }
-
-  console.log(`Messages exceed token limit (${tokenCount} > ${availableTokensForMessages}), trimming...`);
-
-  // Remove oldest messages until within limit (but keep last message)
-  while (trimmedMessages.length > 1 && tokenCount > availableTokensForMessages) {
-    // Remove oldest message (not including last one)
-    trimmedMessages = [trimmedMessages[0], ...trimmedMessages.slice(2)];
-    tokenCount = await countMessageTokens(genAI, modelName, trimmedMessages);
-  }
-
-  // If still over limit, keep only last message
-  if (tokenCount > availableTokensForMessages) {
-    console.warn('Even single message exceeds limit, keeping only last message');
-    trimmedMessages = [lastMessage];
+    console.error('Error loading token limits config:', error);
+    // Return defaults on error
+    return DEFAULT_TOKEN_LIMITS;
   }
-
-  console.log(`Trimmed to ${trimmedMessages.length} messages (${tokenCount} tokens + ${systemPrompt ? 'system prompt' : 'no system prompt'})`);
-  return trimmedMessages;
 }
 
 /**
- * Check if cache is still valid (not expired)
+ * Limits of a configured feature, undefined for an unknown featureType
  */
-function isCacheValid(cacheCreatedAt: Date): boolean {
-  const now = new Date();
-  const elapsedMinutes = (now.getTime() - cacheCreatedAt.getTime()) / (1000 * 60);
-  return elapsedMinutes < CACHE_TTL_MINUTES;
+function getFeatureLimits(config: TokenLimitsConfig, featureType: unknown): TokenLimitsConfig['features'][string] | undefined {
+  return typeof featureType === 'string' && Object.prototype.hasOwnProperty.call(config.features, featureType)
+    ? config.features[featureType]
+    : undefined;
 }
 
 /**
- * Update cache TTL to extend its lifetime
+ * System prompt followed by the summary of the messages left out of the history
  */
-async function renewCacheTTL(cacheManager: GoogleAICacheManager, cacheId: string): Promise<Date> {
-  await cacheManager.update(cacheId, {
-    cachedContent: {
-      ttlSeconds: CACHE_TTL_MINUTES * 60,
-    },
-  });
-  return new Date();
-}
-
-/**
- * Check if cache needs renewal (55-minute logic)
- */
-async function checkAndRenewCacheIfNeeded(
-  cacheManager: GoogleAICacheManager,
-  cacheId: string,
-  cacheCreatedAt: Date
-): Promise<{ renewed: boolean; updatedAt?: Date }> {
-  const now = new Date();
-  const elapsedMinutes = (now.getTime() - cacheCreatedAt.getTime()) / (1000 * 60);
-
-  if (elapsedMinutes >= CACHE_RENEWAL_THRESHOLD_MINUTES && elapsedMinutes < CACHE_TTL_MINUTES) {
-    try {
-      const updatedAt = await renewCacheTTL(cacheManager, cacheId);
-      console.log(`Cache renewed: ${cacheId}`);
-      return { renewed: true, updatedAt };
-    } catch (error) {
-      console.warn('Cache renewal failed:', error);
-      return { renewed: false };
-    }
-  }
-
-  return { renewed: false };
+function withConversationSummary(systemInstruction: string | undefined, summary: string | null): string | undefined {
+  if (!summary) return systemInstruction;
+  const summaryBlock = `Conversation so far (summary of earlier messages):\n${summary}`;
+  return systemInstruction ? `${systemInstruction}\n\n${summaryBlock}` : summaryBlock;
 }
 
 /**
@@ -244,7 +176,8 @@ async function checkAndRenewCacheIfNeeded(
 async function createCachedContent(
   cacheManager: GoogleAICacheManager,
   modelName: string,
-  conversationHistory: ChatMessage[]
+  conversationHistory: ChatMessage[],
+  systemInstruction?: string
 ): Promise<CacheMetadata> {
   const contents = conversationHistory.map(msg => ({
     role: msg.role === 'user' ? 'user' : 'model',
@@ -254,6 +187,7 @@ async function createCachedContent(
   const cacheResult = await cacheManager.create({
     model: modelName,
     contents: contents,
+    systemInstruction,
     ttlSeconds: CACHE_TTL_MINUTES * 60,
   });
 
@@ -269,10 +203,84 @@ async function createCachedContent(
 }
 
 /**
- * Main Gemini chat function with caching support
+ * Verify the Firebase ID token (Authorization: Bearer <token>) and read the caller's tier from Firestore.
+ * The tier sent by the app is never trusted.
+ */
+async function authenticateChatRequest(request: functions.https.Request): Promise<ChatCaller> {
+  const authorization = request.headers.authorization || '';
+  const match = authorization.match(/^Bearer (.+)$/);
+  if (!match) {
+    throw new ChatRequestError(401, 'Missing authorization token');
+  }
+
+  let uid: string;
+  try {
+    uid = (await admin.auth().verifyIdToken(match[1])).uid;
+  } catch (error) {
+    throw new ChatRequestError(401, 'Invalid authorization token');
+  }
+
+  const userSnap = await admin.firestore().collection('users').doc(uid).get();
+  if (!userSnap.exists) {
+    throw new ChatRequestError(403, 'User not found');
+  }
+  const userData = userSnap.data();
+  return {
+    uid,
+    tier: userData?.subscription || 'FREE',
+    isSuperAdmin: userData?.role === 'superadmin',
+  };
+}
+
+/**
+ * Server-sent events for `stream: true` requests: `text` deltas, then one `done` (or `error`) event
+ */
+function startEventStream(response: functions.Response): void {
+  response.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  response.flushHeaders();
+}
+
+function writeStreamEvent(response: functions.Response, event: Record<string, unknown>): void {
+  response.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Forward Gemini's text chunks as they arrive, resolve with the aggregated response
+ */
+async function forwardTextStream(
+  streamResult: GenerateContentStreamResult,
+  response: functions.Response
+): Promise<EnhancedGenerateContentResponse> {
+  for await (const chunk of streamResult.stream) {
+    const text = chunk.text();
+    if (text) {
+      writeStreamEvent(response, { type: 'text', text });
+    }
+  }
+  return streamResult.response;
+}
+
+async function enforceRateLimit(rule: RateLimitRule, key: string): Promise<void> {
+  const result = await consumeRateLimit(rule, key);
+  if (!result.allowed) {
+    throw new ChatRequestError(429, 'Too many requests, please try again later', result.retryAfterSeconds);
+  }
+}
+
+/**
+ * Main Gemini chat function with caching support.
+ * Requires a Firebase ID token; model access follows the caller's subscription tier.
+ * Credits are reserved before the model call and the exact cost is settled from its usage.
+ * The system instruction is rendered from the feature's prompt template (see promptRegistry.ts) and `promptVariables`.
+ * With `stream: true` the reply is sent as server-sent events (see startEventStream).
  */
 export const geminiChat = functions.https.onRequest((request, response) => {
   corsHandler(request, response, async () => {
+    let reservation: CreditReservation | null = null;
     try {
       // Validate request
       if (request.method !== 'POST') {
@@ -280,99 +288,140 @@ export const geminiChat = functions.https.onRequest((request, response) => {
         return;
       }
 
+      // IP limit first: it also protects token verification from floods
+      await enforceRateLimit(CHAT_IP_RATE_LIMIT, getClientIp(request));
+      const caller = await authenticateChatRequest(request);
+      await enforceRateLimit(CHAT_USER_RATE_LIMIT, caller.uid);
+
       const {
         messages,
-        modelTier = 'lite',
-        cacheId,
-        cacheCreatedAt,
-        systemPrompt,
+        modelTier: requestedModelTier = 'lite',
+        conversationId,
+        promptVariables, // e.g. { language, jlptLevel }
         featureType = 'ai_chat', // Default to ai_chat
+        stream = false,
       } = request.body;
+      const streaming = stream === true;
 
       if (!messages || !Array.isArray(messages)) {
         response.status(400).json({ error: 'Invalid messages format' });
         return;
       }
 
+      if (!isModelTier(requestedModelTier)) {
+        response.status(400).json({ error: 'Invalid model tier' });
+        return;
+      }
+      const modelTier: AIModelTier = requestedModelTier;
+
+      if (!caller.isSuperAdmin && !canUseModel(caller.tier, modelTier)) {
+        response.status(403).json({ error: `Your subscription plan does not support ${modelTier} model` });
+        return;
+      }
+
       // Load token limits config
       const config = await loadTokenLimitsConfig();
-      const featureConfig = config.features[featureType];
+      const featureConfig = getFeatureLimits(config, featureType);
 
       if (!featureConfig) {
-        console.warn(`Unknown feature type: ${featureType}, using default limits`);
+        response.status(400).json({ error: `Unknown feature type: ${featureType}` });
+        return;
       }
 
-      const maxInputTokens = featureConfig?.maxInputTokens || 10000;
+      const maxInputTokens = featureConfig.maxInputTokens || 10000;
+
+      // The prompt belongs to the feature (versioned template, see promptRegistry.ts): the app only sends its variables
+      const chatPromptVariables = readChatPromptVariables(promptVariables);
+      const systemPrompt = await renderPrompt(featureType, chatPromptVariables, {
+        locale: chatPromptVariables.language,
+        assignmentKey: caller.uid,
+      });
+      const systemInstruction = systemPrompt?.text;
+      const systemInstructionHash = createHash('sha256').update(systemInstruction || '').digest('hex').slice(0, 40);
+
+      // History above maxInputTokens is trimmed (or read from the cache at a lower price)
+      if (!caller.isSuperAdmin) {
+        const estimatedInputTokens = Math.min(estimateTokenCount(messages, systemInstruction), maxInputTokens);
+        reservation = await reserveCredits(
+          caller.uid,
+          calculateCredits(estimatedInputTokens, CHAT_ESTIMATED_OUTPUT_TOKENS, modelTier),
+          featureType
+        );
+      }
 
       // Initialize Gemini clients
       const { genAI, cacheManager } = getGeminiClients();
 
       // Model name mapping
       // Using Gemini 2.5 models - latest, best performance, full caching support
-      const modelNames: Record<string, string> = {
+      const modelNames: Record<AIModelTier, string> = {
         lite: 'gemini-2.5-flash-lite',  // Fastest, cheapest, supports caching
         flash: 'gemini-2.5-flash',       // Balanced, supports caching
         pro: 'gemini-2.5-pro',           // Most capable, supports caching
       };
-      const modelName = modelNames[modelTier] || modelNames.lite;
+      const modelName = modelNames[modelTier];
 
-      let useCachedContent = false;
-      let cachedTokens = 0;
-      let newCacheId: string | undefined;
-      let newCacheCreatedAt: Date | undefined;
       let warnings: string[] = [];
 
-      // Check and manage existing cache
-      console.log(`🔍 Cache check: cacheId=${cacheId ? 'EXISTS' : 'NULL'}, cacheCreatedAt=${cacheCreatedAt || 'NULL'}`);
-
-      if (cacheId && cacheCreatedAt) {
-        const cacheDate = new Date(cacheCreatedAt);
-        const now = new Date();
-        const ageMinutes = (now.getTime() - cacheDate.getTime()) / (1000 * 60);
-
-        console.log(`⏰ Cache age: ${ageMinutes.toFixed(1)} minutes (TTL: ${CACHE_TTL_MINUTES} min)`);
-
-        const cacheValid = isCacheValid(cacheDate);
-
-        if (cacheValid) {
-          // Try to renew if needed
-          const renewResult = await checkAndRenewCacheIfNeeded(cacheManager, cacheId, cacheDate);
-          if (renewResult.renewed && renewResult.updatedAt) {
-            newCacheCreatedAt = renewResult.updatedAt;
-            console.log(`🔄 Cache TTL renewed`);
-          }
+      // Caches are looked up by the caller's uid: a cache id sent by the app is never used
+      const cacheConversationId = isValidConversationId(conversationId) ? conversationId : null;
+      let cacheEntry: ContextCacheEntry | null = cacheConversationId
+        ? await getConversationCache(caller.uid, featureType, cacheConversationId)
+        : null;
+      if (cacheEntry && (cacheEntry.model !== modelName || cacheEntry.systemInstructionHash !== systemInstructionHash)) {
+        console.log(`Cache ${cacheEntry.id} was made for another model or prompt, a new one will replace it`);
+        cacheEntry = null;
+      }
+      // Messages after the cached part are sent along with it: they must follow it and fit the limit
+      const uncachedMessages = cacheEntry ? messages.slice(cacheEntry.cachedMessageCount || 0) : [];
+      if (cacheEntry && (
+        !(cacheEntry.cachedMessageCount > 0) ||
+        uncachedMessages.length === 0 ||
+        uncachedMessages[0].role !== 'user' ||
+        cacheEntry.cachedTokenCount + estimateTokenCount(uncachedMessages) > maxInputTokens
+      )) {
+        console.log(`Cache ${cacheEntry.id} no longer matches the history or its limit, a new one will replace it`);
+        cacheEntry = null;
+      }
+      if (cacheEntry) {
+        cacheEntry = await renewConversationCacheIfNeeded(cacheManager, cacheEntry);
+      }
+      let useCachedContent = !!cacheEntry;
+      let context: ChatContext | null = null;
 
-          useCachedContent = true;
-          console.log(`✅ Using existing cache: ${cacheId}`);
-        } else {
-          console.log(`❌ Cache expired (${ageMinutes.toFixed(1)} min > ${CACHE_TTL_MINUTES} min), will create new cache`);
-        }
-      } else {
-        console.log(`⚠️ No existing cache to reuse (cacheId or cacheCreatedAt missing)`);
+      // Errors before this point are plain JSON responses, after it they are `error` events
+      if (streaming) {
+        startEventStream(response);
       }
 
       // API Call
-      let result;
-      let apiResponse;
+      let apiResponse: EnhancedGenerateContentResponse | undefined;
 
-      if (useCachedContent && cacheId) {
+      if (cacheEntry) {
         // Use cached content
         try {
+          // The SDK sends `cachedContent.name`, a bare string would silently skip the cache
           const model = genAI.getGenerativeModel({
             model: modelName,
-            cachedContent: cacheId,
+            cachedContent: { name: cacheEntry.cacheName, model: modelName, contents: [] },
           });
 
-          const lastMessage = messages[messages.length - 1].content;
-          result = await model.generateContent(lastMessage);
-          apiResponse = await result.response;
-          cachedTokens = apiResponse.usageMetadata?.cachedContentTokenCount || 0;
+          // Every turn since the cache was made, the new user message last
+          const tailRequest = {
+            contents: uncachedMessages.map((msg: ChatMessage) => ({
+              role: msg.role === 'user' ? 'user' : 'model',
+              parts: [{ text: msg.content }],
+            })),
+          };
+          apiResponse = streaming
+            ? await forwardTextStream(await model.generateContentStream(tailRequest), response)
+            : (await model.generateContent(tailRequest)).response;
         } catch (error: any) {
           // Fallback if cache not found
           if (error?.message?.includes('404') || error?.message?.includes('not found')) {
             console.warn('Cache not found, falling back to full history');
             useCachedContent = false;
-            cachedTokens = 0;
+            cacheEntry = null; // Replaced by the cache created below
             apiResponse = undefined; // Reset apiResponse
           } else {
             throw error;
@@ -381,46 +430,27 @@ export const geminiChat = functions.https.onRequest((request, response) => {
       }
 
       if (!useCachedContent) {
-        // No cache - use full history (with token limiting)
-
-        // Trim messages to fit within token limit
-        const trimmedMessages = await trimMessagesToLimit(
+        // No cache - use full history, older turns summarized above the token limit
+        context = await buildChatContext(
           genAI,
           modelName,
+          modelNames.lite,
           messages,
           maxInputTokens,
-          systemPrompt
+          systemInstruction,
+          cacheConversationId ? { userId: caller.uid, featureType, conversationId: cacheConversationId } : null
         );
-
-        if (trimmedMessages.length < messages.length) {
-          warnings.push(`History was trimmed from ${messages.length} to ${trimmedMessages.length} messages to fit within ${maxInputTokens} token limit for ${featureType}`);
-        }
-
-        const model = genAI.getGenerativeModel({ model: modelName });
-
-        // Build history
-        let history: any[] = [];
-
-        // Add system prompt if provided
-        if (systemPrompt) {
-          history.push({
-            role: 'user',
-            parts: [{ text: systemPrompt }],
-          });
-          history.push({
-            role: 'model',
-            parts: [{ text: 'Understood. I will follow these instructions.' }],
-          });
-        }
+        warnings.push(...context.warnings);
+        const model = genAI.getGenerativeModel({
+          model: modelName,
+          systemInstruction: withConversationSummary(systemInstruction, context.summary),
+        });
 
         // Add message history (exclude last message)
-        history = [
-          ...history,
-          ...trimmedMessages.slice(0, -1).map((msg: ChatMessage) => ({
-            role: msg.role === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.content }],
-          })),
-        ];
+        let history = context.messages.slice(0, -1).map((msg: ChatMessage) => ({
+          role: msg.role === 'user' ? 'user' : 'model',
+          parts: [{ text: msg.content }],
+        }));
 
         // Ensure first message is from user
         while (history.length > 0 && history[0].role === 'model') {
@@ -428,9 +458,10 @@ export const geminiChat = functions.https.onRequest((request, response) => {
         }
 
         const chat = model.startChat({ history });
-        const lastMessage = trimmedMessages[trimmedMessages.length - 1].content;
-        result = await chat.sendMessage(lastMessage);
-        apiResponse = await result.response;
+        const lastMessage = context.messages[context.messages.length - 1].content;
+        apiResponse = streaming
+          ? await forwardTextStream(await chat.sendMessageStream(lastMessage), response)
+          : (await chat.sendMessage(lastMessage)).response;
       }
 
       // Ensure we have a valid response
@@ -440,19 +471,17 @@ export const geminiChat = functions.https.onRequest((request, response) => {
 
       // Create new cache ONLY if we didn't use an existing cache
       // (to avoid creating duplicate caches and wasting quota)
-      if (!useCachedContent && messages.length >= 2) {
+      if (!useCachedContent && context && cacheConversationId && messages.length >= 2) {
         try {
+          // Same context as this request, so the cache stays within the token limit
+          const cacheInstruction = withConversationSummary(systemInstruction, context.summary);
           const fullConversation = [
-            ...(systemPrompt ? [
-              { role: 'user' as const, content: systemPrompt },
-              { role: 'assistant' as const, content: 'Understood. I will follow these instructions.' },
-            ] : []),
-            ...messages,
+            ...context.messages,
             { role: 'assistant' as const, content: apiResponse.text() },
           ];
 
           // Count tokens for cache creation
-          const cacheTokenCount = await countMessageTokens(genAI, modelName, fullConversation);
+          const cacheTokenCount = await countMessageTokens(genAI, modelName, fullConversation, cacheInstruction);
 
           // Gemini API requires minimum 4K tokens for caching
           const MINIMUM_CACHE_TOKENS = 4096;
@@ -468,11 +497,17 @@ export const geminiChat = functions.https.onRequest((request, response) => {
               warnings.push(`⚠️ Large cache creation: ${cacheTokenCount.toLocaleString()} tokens (threshold: ${config.cacheCreationWarningThreshold.toLocaleString()}). This may consume significant credits.`);
             }
 
-            const cacheMetadata = await createCachedContent(cacheManager, modelName, fullConversation);
-            newCacheId = cacheMetadata.cacheId;
-            newCacheCreatedAt = cacheMetadata.createdAt;
-            cachedTokens = cacheMetadata.cachedTokenCount;
-            console.log(`✨ Cache created: ${newCacheId} (${cachedTokens} tokens)`);
+            const cacheMetadata = await createCachedContent(cacheManager, modelName, fullConversation, cacheInstruction);
+            cacheEntry = await registerConversationCache(cacheManager, caller.uid, featureType, cacheConversationId, {
+              cacheName: cacheMetadata.cacheId,
+              model: modelName,
+              modelTier,
+              systemInstructionHash,
+              cachedTokenCount: cacheMetadata.cachedTokenCount,
+              // Summarized messages, the ones sent verbatim and this reply
+              cachedMessageCount: context.droppedCount + fullConversation.length,
+            });
+            console.log(`✨ Cache created: ${cacheEntry.id} (${cacheMetadata.cachedTokenCount} tokens)`);
           }
         } catch (error) {
           console.error('Failed to create cache:', error);
@@ -480,35 +515,84 @@ export const geminiChat = functions.https.onRequest((request, response) => {
         }
       } else if (useCachedContent) {
         console.log(`♻️ Reusing existing cache (no new cache created)`);
-        // Keep using the existing cache
-        newCacheId = cacheId;
-        // newCacheCreatedAt already set if cache was renewed
-        if (!newCacheCreatedAt && cacheCreatedAt) {
-          newCacheCreatedAt = new Date(cacheCreatedAt);
-        }
+      }
+
+      // Settle the exact cost (cached tokens at the caching price, plus the summary call)
+      const usage = readTokenUsage(apiResponse.usageMetadata);
+      const summaryUsage = context?.summaryUsage ?? null;
+      let creditsCharged = 0;
+      let remainingCredits: number | null = null;
+      if (reservation) {
+        const charge = await settleCreditReservation(
+          reservation,
+          calculateUsageCredits(usage, modelTier) + (summaryUsage ? calculateUsageCredits(summaryUsage, 'lite') : 0),
+          `${featureType} (${modelTier})`,
+          featureType,
+          {
+            ...usage,
+            contextCacheId: useCachedContent && cacheEntry ? cacheEntry.id : null,
+            promptVersion: systemPrompt ? systemPrompt.version : null,
+            promptExperimentId: systemPrompt ? systemPrompt.experimentId : null,
+            summaryTokens: summaryUsage ? summaryUsage.totalTokens : 0,
+          }
+        );
+        reservation = null;
+        creditsCharged = charge.creditsCharged;
+        remainingCredits = charge.balanceAfter.total;
       }
 
       // Return response
-      response.status(200).json({
+      const result = {
         success: true,
         text: apiResponse.text(),
-        usage: {
-          promptTokens: apiResponse.usageMetadata?.promptTokenCount || 0,
-          completionTokens: apiResponse.usageMetadata?.candidatesTokenCount || 0,
-          totalTokens: apiResponse.usageMetadata?.totalTokenCount || 0,
-          cachedTokens: cachedTokens,
-        },
-        cache: newCacheId ? {
-          cacheId: newCacheId,
-          createdAt: (newCacheCreatedAt || new Date()).toISOString(),
-        } : (cacheId && newCacheCreatedAt ? {
-          cacheId: cacheId,
-          createdAt: newCacheCreatedAt.toISOString(),
-        } : undefined),
+        usage,
+        creditsCharged,
+        remainingCredits,
+        // The cache itself stays on the server, the app only learns whether one is active
+        cache: cacheEntry ? { expiresAt: new Date(cacheEntry.expiresAt).toISOString() } : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
-      });
+      };
+      if (streaming) {
+        writeStreamEvent(response, { type: 'done', ...result });
+        response.end();
+      } else {
+        response.status(200).json(result);
+      }
 
     } catch (error: any) {
+      if (reservation) {
+        await releaseCreditReservation(reservation).catch((releaseError) => {
+          console.error('Failed to release credit reservation:', releaseError);
+        });
+      }
+      // The SDK throws this when the prompt or the reply was blocked (safety filters...)
+      const safetyBlocked = error instanceof GoogleGenerativeAIResponseError;
+      if (response.headersSent) {
+        // Streaming already started, the status code can no longer change
+        console.error('Gemini Chat stream error:', error);
+        writeStreamEvent(response, {
+          type: 'error',
+          error: error.message || 'Failed to get AI response',
+          reason: safetyBlocked ? 'safety_blocked' : 'internal',
+        });
+        response.end();
+        return;
+      }
+      if (safetyBlocked) {
+        response.status(422).json({ success: false, error: error.message, reason: 'safety_blocked' });
+        return;
+      }
+      if (error instanceof functions.https.HttpsError && error.code === 'resource-exhausted') {
+        response.status(402).json({ success: false, error: error.message });
+        return;
+      }
+      if (error instanceof ChatRequestError) {
+        if (error.retryAfterSeconds) {
+          response.set('Retry-After', String(error.retryAfterSeconds));
+        }
+        response.status(error.status).json({ success: false, error: error.message });
+        return;
+      }
       console.error('Gemini Chat API error:', error);
       response.status(500).json({
         success: false,
@@ -517,3 +601,29 @@ export const geminiChat = functions.https.onRequest((request, response) => {
     }
   });
 });
+
+/**
+ * Delete the context cache of a conversation (chat closed or deleted in the app), and its summary once deleted
+ */
+export const deleteChatContextCache = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const { featureType, conversationId, conversationDeleted } = data || {};
+  if (typeof featureType !== 'string' || !isValidConversationId(conversationId)) {
+    throw new functions.https.HttpsError('invalid-argument', 'featureType and a valid conversationId are required');
+  }
+  // Same features as geminiChat: other names never had a cache or a summary
+  if (!getFeatureLimits(await loadTokenLimitsConfig(), featureType)) {
+    throw new functions.https.HttpsError('invalid-argument', `Unknown feature type: ${featureType}`);
+  }
+
+  const { cacheManager } = getGeminiClients();
+  const deleted = await deleteConversationCache(cacheManager, context.auth.uid, featureType, conversationId);
+  // The summary is kept while the conversation exists, it is reused when the chat is reopened
+  if (conversationDeleted === true) {
+    await deleteConversationSummary({ userId: context.auth.uid, featureType, conversationId });
+  }
+  return { deleted };
+});
@@ -0,0 +1,145 @@
+// functions/src/promptFunctions.ts
+// Admin callables for the prompt templates of promptRegistry.ts: publish versions, roll them out, A/B test them
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  BUILTIN_PROMPT_VERSION,
+  PromptExperiment,
+  isPromptTemplateName,
+  publishPromptVersion,
+  setPromptRollout,
+} from './promptRegistry';
+
+const db = admin.firestore();
+
+const PROMPT_ADMIN_ROLES = ['admin', 'superadmin'];
+
+const MAX_PROMPT_LENGTH = 20000;
+const MAX_NOTE_LENGTH = 500;
+const LOCALE_PATTERN = /^[a-z]{2,3}$/;
+const EXPERIMENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_EXPERIMENT_VARIANTS = 5;
+
+interface PublishPromptRequest {
+  name: string;
+  text: string;
+  locales?: Record<string, string>;
+  note?: string;
+  activate?: boolean;
+}
+
+interface PromptRolloutRequest {
+  name: string;
+  activeVersion: number;
+  experiment?: PromptExperiment | null;
+}
+
+async function assertPromptAdmin(context: functions.https.CallableContext): Promise<string> {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+  const userSnap = await db.collection('users').doc(context.auth.uid).get();
+  if (!PROMPT_ADMIN_ROLES.includes(userSnap.data()?.role)) {
+    throw new functions.https.HttpsError('permission-denied', 'Only admins can manage prompts');
+  }
+  return context.auth.uid;
+}
+
+function isPromptText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_PROMPT_LENGTH;
+}
+
+function isVersionNumber(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= BUILTIN_PROMPT_VERSION;
+}
+
+function readExperiment(value: unknown): PromptExperiment | null {
+  if (value === null || value === undefined) return null;
+  const experiment = value as PromptExperiment;
+  const variants = Array.isArray(experiment.variants) ? experiment.variants : [];
+  const validVariants = variants.every((variant) =>
+    isVersionNumber(variant?.version) && typeof variant.weight === 'number' && variant.weight > 0
+  );
+  if (
+    typeof experiment.id !== 'string' ||
+    !EXPERIMENT_ID_PATTERN.test(experiment.id) ||
+    variants.length < 2 ||
+    variants.length > MAX_EXPERIMENT_VARIANTS ||
+    !validVariants
+  ) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      `experiment needs an id and 2-${MAX_EXPERIMENT_VARIANTS} variants with a version and a positive weight`
+    );
+  }
+  return {
+    id: experiment.id,
+    variants: variants.map((variant) => ({ version: variant.version, weight: variant.weight })),
+  };
+}
+
+/**
+ * Publish a new version of a prompt template (admins only).
+ * Versions are immutable: fixing a prompt publishes a new one, rolling back re-activates an old one.
+ */
+export const publishPromptTemplate = functions.https.onCall(async (data: PublishPromptRequest, context) => {
+  const adminId = await assertPromptAdmin(context);
+
+  if (!isPromptTemplateName(data?.name)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Unknown prompt template');
+  }
+  if (!isPromptText(data?.text)) {
+    throw new functions.https.HttpsError('invalid-argument', `text is required (at most ${MAX_PROMPT_LENGTH} characters)`);
+  }
+
+  const locales: Record<string, string> = {};
+  for (const [locale, text] of Object.entries(data?.locales || {})) {
+    if (!LOCALE_PATTERN.test(locale) || !isPromptText(text)) {
+      throw new functions.https.HttpsError('invalid-argument', `Invalid override for locale "${locale}"`);
+    }
+    locales[locale] = text;
+  }
+
+  const note = typeof data?.note === 'string' ? data.note.trim().slice(0, MAX_NOTE_LENGTH) : null;
+
+  try {
+    const version = await publishPromptVersion(data.name, { text: data.text, locales }, adminId, {
+      note: note || null,
+      activate: data?.activate === true,
+    });
+    console.log(`Prompt ${data.name} v${version} published by ${adminId}`);
+    return { version };
+  } catch (error: any) {
+    console.error('Error publishing prompt:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to publish prompt');
+  }
+});
+
+/**
+ * Set the active version of a prompt template and its A/B experiment (admins only).
+ * Version 0 is the built-in text; `experiment: null` ends the experiment.
+ */
+export const setPromptTemplateRollout = functions.https.onCall(async (data: PromptRolloutRequest, context) => {
+  const adminId = await assertPromptAdmin(context);
+
+  if (!isPromptTemplateName(data?.name)) {
+    throw new functions.https.HttpsError('invalid-argument', 'Unknown prompt template');
+  }
+  if (!isVersionNumber(data?.activeVersion)) {
+    throw new functions.https.HttpsError('invalid-argument', 'activeVersion must be a version number');
+  }
+  const experiment = readExperiment(data?.experiment);
+
+  try {
+    await setPromptRollout(data.name, data.activeVersion, experiment);
+    console.log(`Prompt ${data.name} rollout set by ${adminId}: v${data.activeVersion}${experiment ? `, experiment ${experiment.id}` : ''}`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error setting prompt rollout:', error);
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+    throw new functions.https.HttpsError('internal', 'Failed to set prompt rollout');
+  }
+});
@@ -0,0 +1,206 @@
+// functions/src/promptRegistry.ts
+// Versioned prompt templates in Firestore (aiConfig/promptTemplates, next to tokenLimits), rendered on the server
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { BUILTIN_PROMPT_TEMPLATES, PromptTemplateVersion } from './featurePrompts';
+
+const AI_CONFIG_COLLECTION = 'aiConfig';
+const PROMPT_TEMPLATES_DOC = 'promptTemplates';
+
+// Instances re-read the config at most once a minute, a published fix is live within that delay
+const CONFIG_CACHE_MS = 60 * 1000;
+
+// Version 0 is the built-in text of featurePrompts.ts
+export const BUILTIN_PROMPT_VERSION = 0;
+
+// `{name}` placeholders only: the `{{word|reading|translation}}` markup of the prompts is left alone
+const VARIABLE_PATTERN = /\{([A-Za-z][A-Za-z0-9]*)\}/g;
+
+export interface PublishedPromptVersion extends PromptTemplateVersion {
+  note: string | null;
+  publishedBy: string;
+  publishedAt: number; // Epoch millis
+}
+
+export interface PromptExperiment {
+  id: string; // Users are assigned per id: a new id reshuffles them
+  variants: Array<{ version: number; weight: number }>;
+}
+
+export interface PromptTemplateConfig {
+  activeVersion: number;
+  versions?: Record<string, PublishedPromptVersion>; // Keyed by version number
+  experiment?: PromptExperiment | null; // Overrides activeVersion while set
+}
+
+export type PromptVariableValues = Record<string, string | number>;
+
+export interface RenderedPrompt {
+  name: string;
+  version: number;
+  locale: string | null; // Locale override used, null for the default text
+  experimentId: string | null;
+  text: string;
+}
+
+let cachedTemplates: { loadedAt: number; templates: Record<string, PromptTemplateConfig> } | null = null;
+
+function promptTemplatesRef(): admin.firestore.DocumentReference {
+  return admin.firestore().collection(AI_CONFIG_COLLECTION).doc(PROMPT_TEMPLATES_DOC);
+}
+
+async function loadPromptTemplates(): Promise<Record<string, PromptTemplateConfig>> {
+  if (cachedTemplates && Date.now() - cachedTemplates.loadedAt < CONFIG_CACHE_MS) {
+    return cachedTemplates.templates;
+  }
+  try {
+    const snapshot = await promptTemplatesRef().get();
+    const templates = (snapshot.data()?.templates || {}) as Record<string, PromptTemplateConfig>;
+    cachedTemplates = { loadedAt: Date.now(), templates };
+    return templates;
+  } catch (error) {
+    console.error('Error loading prompt templates:', error);
+    // Last known config, or the built-in texts
+    return cachedTemplates?.templates || {};
+  }
+}
+
+function getTemplateVersion(name: string, config: PromptTemplateConfig | undefined, version: number): PromptTemplateVersion | undefined {
+  if (version === BUILTIN_PROMPT_VERSION) {
+    return Object.prototype.hasOwnProperty.call(BUILTIN_PROMPT_TEMPLATES, name) ? BUILTIN_PROMPT_TEMPLATES[name] : undefined;
+  }
+  return config?.versions?.[String(version)];
+}
+
+/**
+ * Version of an experiment for a user: stable for the same experiment id, spread by weight
+ */
+function pickExperimentVersion(experiment: PromptExperiment, assignmentKey: string): number | null {
+  const variants = (experiment.variants || []).filter((variant) => variant.weight > 0);
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  const hash = createHash('sha256').update(`${experiment.id}:${assignmentKey}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+  for (const variant of variants) {
+    if (point < variant.weight) return variant.version;
+    point -= variant.weight;
+  }
+  return variants[variants.length - 1].version;
+}
+
+function fillVariables(text: string, variables: PromptVariableValues): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(variables, key) ? String(variables[key]) : placeholder
+  );
+}
+
+export function isPromptTemplateName(name: unknown): name is string {
+  return typeof name === 'string' && Object.prototype.hasOwnProperty.call(BUILTIN_PROMPT_TEMPLATES, name);
+}
+
+/**
+ * Render the version of `name` that applies to the caller (experiment variant or active version),
+ * in `locale` when that version has an override. Null for names without any template.
+ * A missing published version falls back to the built-in text.
+ */
+export async function renderPrompt(
+  name: string,
+  variables: PromptVariableValues,
+  options: { locale?: string; assignmentKey?: string } = {}
+): Promise<RenderedPrompt | null> {
+  const config = (await loadPromptTemplates())[name];
+
+  let version = config?.activeVersion ?? BUILTIN_PROMPT_VERSION;
+  let experimentId: string | null = null;
+  if (config?.experiment && options.assignmentKey) {
+    const experimentVersion = pickExperimentVersion(config.experiment, options.assignmentKey);
+    if (experimentVersion !== null) {
+      version = experimentVersion;
+      experimentId = config.experiment.id;
+    }
+  }
+
+  let template = getTemplateVersion(name, config, version);
+  if (!template && version !== BUILTIN_PROMPT_VERSION) {
+    console.warn(`Prompt ${name} v${version} not found, using the built-in text`);
+    version = BUILTIN_PROMPT_VERSION;
+    experimentId = null;
+    template = getTemplateVersion(name, config, version);
+  }
+  if (!template) return null;
+
+  const localeText = options.locale ? template.locales?.[options.locale] : undefined;
+  return {
+    name,
+    version,
+    locale: localeText ? options.locale! : null,
+    experimentId,
+    text: fillVariables(localeText ?? template.text, variables),
+  };
+}
+
+/**
+ * Add a new version of a template (versions are never edited), optionally making it the active one
+ */
+export async function publishPromptVersion(
+  name: string,
+  template: PromptTemplateVersion,
+  publishedBy: string,
+  options: { note?: string | null; activate?: boolean } = {}
+): Promise<number> {
+  const ref = promptTemplatesRef();
+  const version = await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const config = snapshot.data()?.templates?.[name] as PromptTemplateConfig | undefined;
+    const nextVersion = Object.keys(config?.versions || {})
+      .map(Number)
+      .reduce((max, published) => Math.max(max, published), BUILTIN_PROMPT_VERSION) + 1;
+
+    const published: PublishedPromptVersion = {
+      text: template.text,
+      locales: template.locales || {},
+      note: options.note ?? null,
+      publishedBy,
+      publishedAt: Date.now(),
+    };
+    const activeVersion = options.activate ? nextVersion : config?.activeVersion ?? BUILTIN_PROMPT_VERSION;
+    transaction.set(ref, {
+      templates: {
+        [name]: { versions: { [String(nextVersion)]: published }, activeVersion },
+      },
+    }, { merge: true });
+    return nextVersion;
+  });
+
+  cachedTemplates = null;
+  return version;
+}
+
+/**
+ * Choose the active version of a template, and the experiment that overrides it (null to stop it)
+ */
+export async function setPromptRollout(
+  name: string,
+  activeVersion: number,
+  experiment: PromptExperiment | null
+): Promise<void> {
+  const ref = promptTemplatesRef();
+  await admin.firestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const config = snapshot.data()?.templates?.[name] as PromptTemplateConfig | undefined;
+    const versions = [activeVersion, ...(experiment?.variants.map((variant) => variant.version) || [])];
+    const missing = versions.find((version) => !getTemplateVersion(name, config, version));
+    if (missing !== undefined) {
+      throw new functions.https.HttpsError('failed-precondition', `Prompt ${name} has no version ${missing}`);
+    }
+
+    transaction.set(ref, {
+      templates: { [name]: { activeVersion, experiment } },
+    }, { merge: true });
+  });
+
+  cachedTemplates = null;
+}
@@ -0,0 +1,76 @@
+// functions/src/rateLimit.ts
+// Fixed-window request counters stored in Firestore (per user, per IP...)
+
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+
+const RATE_LIMITS_COLLECTION = 'rateLimits';
+
+export interface RateLimitRule {
+  scope: string; // e.g. 'chat_user', 'chat_ip'
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+// What getClientIp reads from an incoming request
+export interface ClientAddressSource {
+  headers: Record<string, string | string[] | undefined>;
+  socket?: { remoteAddress?: string };
+}
+
+/**
+ * Client IP as seen by the Cloud Functions front end.
+ * The front end appends the address it received the request from to X-Forwarded-For: earlier entries
+ * come from the client and can be forged, so only the last one is a reliable rate limit key.
+ */
+export function getClientIp(request: ClientAddressSource): string {
+  const forwardedFor = request.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - 1] || request.socket?.remoteAddress || 'unknown';
+}
+
+// IPs are hashed so the collection does not store them in clear
+function buildCounterId(scope: string, key: string): string {
+  const hashedKey = createHash('sha256').update(key).digest('hex').slice(0, 32);
+  return `${scope}_${hashedKey}`;
+}
+
+/**
+ * Count one request for `key` and tell whether it is within the rule.
+ * A rejected request is not counted, so a client that waits for Retry-After gets through.
+ */
+export async function consumeRateLimit(rule: RateLimitRule, key: string): Promise<RateLimitResult> {
+  const db = admin.firestore();
+  const counterRef = db.collection(RATE_LIMITS_COLLECTION).doc(buildCounterId(rule.scope, key));
+  const windowMs = rule.windowSeconds * 1000;
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(counterRef);
+    const now = Date.now();
+    const data = snapshot.data();
+    const windowStart = typeof data?.windowStart === 'number' ? data.windowStart : 0;
+    const inCurrentWindow = now - windowStart < windowMs;
+    const count = inCurrentWindow && typeof data?.count === 'number' ? data.count : 0;
+
+    if (count >= rule.limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((windowStart + windowMs - now) / 1000) };
+    }
+
+    transaction.set(counterRef, {
+      scope: rule.scope,
+      windowStart: inCurrentWindow ? windowStart : now,
+      count: count + 1,
+      // For a TTL policy on the collection, stale counters are useless
+      expiresAt: admin.firestore.Timestamp.fromMillis((inCurrentWindow ? windowStart : now) + windowMs),
+    });
+    return { allowed: true, retryAfterSeconds: 0 };
+  });
+}
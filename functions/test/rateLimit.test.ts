@@ -0,0 +1,23 @@
+import { getClientIp } from '../src/rateLimit';
+
+describe('getClientIp', () => {
+  it('uses the hop appended by the front end', () => {
+    expect(getClientIp({ headers: { 'x-forwarded-for': '203.0.113.7' } })).toBe('203.0.113.7');
+  });
+
+  it('ignores addresses forged by the client', () => {
+    const forged = ['1.1.1.1', '2.2.2.2, 3.3.3.3'].map((value) =>
+      getClientIp({ headers: { 'x-forwarded-for': `${value}, 203.0.113.7` } })
+    );
+    expect(forged).toEqual(['203.0.113.7', '203.0.113.7']);
+  });
+
+  it('reads repeated headers as one list', () => {
+    expect(getClientIp({ headers: { 'x-forwarded-for': ['1.1.1.1', '203.0.113.7'] } })).toBe('203.0.113.7');
+  });
+
+  it('falls back to the socket address', () => {
+    expect(getClientIp({ headers: {}, socket: { remoteAddress: '198.51.100.2' } })).toBe('198.51.100.2');
+    expect(getClientIp({ headers: { 'x-forwarded-for': ' , ' } })).toBe('unknown');
+  });
+});
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+/**
+ * Builds assets/pdfjs/viewer.html, the page SourceDocumentViewer loads in its WebView.
+ * pdf.js and its worker are inlined from pdfjs-dist so the viewer works offline
+ * (the worker runs on the page itself: Android WebViews refuse workers from file:// URLs).
+ * Runs on postinstall; the generated file is not committed.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const PDFJS_BUILD_DIR = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'legacy', 'build');
+const OUTPUT_FILE = path.join(__dirname, '..', 'assets', 'pdfjs', 'viewer.html');
+
+function readScript(fileName) {
+  // Keep an inlined script from closing its own <script> tag
+  return fs.readFileSync(path.join(PDFJS_BUILD_DIR, fileName), 'utf8').replace(/<\/script/gi, '<\\/script');
+}
+
+const VIEWER_SCRIPT = `
+  var pdfDoc = null;
+  var rendering = false;
+  var pendingPage = null;
+
+  function post(message) {
+    window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  }
+
+  function renderPage(pageNumber) {
+    if (!pdfDoc) return;
+    if (rendering) { pendingPage = pageNumber; return; }
+    var target = Math.min(Math.max(1, pageNumber), pdfDoc.numPages);
+    rendering = true;
+    pdfDoc.getPage(target).then(function (page) {
+      var ratio = window.devicePixelRatio || 1;
+      var unscaled = page.getViewport({ scale: 1 });
+      var viewport = page.getViewport({ scale: (window.innerWidth / unscaled.width) * ratio });
+      var canvas = document.getElementById('page');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.style.width = (viewport.width / ratio) + 'px';
+      canvas.style.height = (viewport.height / ratio) + 'px';
+      return page.render({ canvasContext: canvas.getContext('2d'), viewport: viewport }).promise;
+    }).then(function () {
+      rendering = false;
+      window.scrollTo(0, 0);
+      post({ type: 'page', page: target });
+      if (pendingPage !== null) {
+        var next = pendingPage;
+        pendingPage = null;
+        renderPage(next);
+      }
+    }).catch(function (error) {
+      rendering = false;
+      post({ type: 'error', message: String(error) });
+    });
+  }
+
+  // url: file:// URI of the cached PDF, read by pdf.js itself
+  window.loadPdf = function (url, pageNumber) {
+    if (!window.pdfjsLib) { post({ type: 'error', message: 'pdf.js unavailable' }); return; }
+    pdfjsLib.getDocument(url).promise.then(function (doc) {
+      pdfDoc = doc;
+      post({ type: 'loaded', numPages: doc.numPages });
+      renderPage(pageNumber);
+    }).catch(function (error) {
+      post({ type: 'error', message: String(error) });
+    });
+  };
+
+  window.goToPage = renderPage;
+`;
+
+const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=4">
+<style>
+  html, body { margin: 0; padding: 0; background: #E5E7EB; }
+  #page { display: block; margin: 0 auto; background: #FFFFFF; }
+</style>
+<script>${readScript('pdf.min.js')}</script>
+<script>${readScript('pdf.worker.min.js')}</script>
+</head>
+<body>
+<canvas id="page"></canvas>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+
+fs.mkdirSync(path.dirname(OUTPUT_FILE), { recursive: true });
+fs.writeFileSync(OUTPUT_FILE, html);
+console.log(`PDF viewer written to ${path.relative(process.cwd(), OUTPUT_FILE)}`);
@@ -0,0 +1,29 @@
+import type { i18n as I18n } from 'i18next';
+import { IBulkyWasteRules } from '../../types/garbageRules';
+import { buildBulkyFeeIndex, findBulkyFeeItems, matchBulkyFeeItem } from '../bulkyWasteService';
+
+// No translations: every item is searched by its original name
+const i18n = { store: { data: {} }, t: (key: string) => key } as unknown as I18n;
+
+const bulkyWaste = {
+  fee_table: [
+    { item: 'ソファ', fee: 400, size_note: '1人掛け' },
+    { item: 'ソファ', fee: 800, size_note: '2人掛け以上' },
+    { item: '自転車', fee: 400 },
+  ],
+} as unknown as IBulkyWasteRules;
+
+describe('findBulkyFeeItems', () => {
+  const index = buildBulkyFeeIndex(bulkyWaste, i18n);
+
+  it('returns every size variant of a name with its own row id', () => {
+    const matches = findBulkyFeeItems(bulkyWaste, index, 'ソファ');
+    expect(matches.map(match => match.feeItem)).toEqual([bulkyWaste.fee_table[0], bulkyWaste.fee_table[1]]);
+    expect(new Set(matches.map(match => match.rowId)).size).toBe(2);
+  });
+
+  it('leaves size variants to the user but matches a unique name', () => {
+    expect(matchBulkyFeeItem(bulkyWaste, index, 'ソファ')).toBeNull();
+    expect(matchBulkyFeeItem(bulkyWaste, index, '自転車')).toBe(bulkyWaste.fee_table[2]);
+  });
+});
@@ -0,0 +1,41 @@
+import { daysToScheduleRules, parseDayRule } from '../garbageCalendarService';
+
+describe('parseDayRule', () => {
+  it('reads single weekdays', () => {
+    expect(parseDayRule('Monday')).toEqual([{ weekday: 1, nths: null }]);
+    expect(parseDayRule('月曜日')).toEqual([{ weekday: 1, nths: null }]);
+    expect(parseDayRule('月')).toEqual([{ weekday: 1, nths: null }]);
+  });
+
+  it('reads every weekday of a Japanese list', () => {
+    expect(parseDayRule('月・木曜日')).toEqual([
+      { weekday: 1, nths: null },
+      { weekday: 4, nths: null },
+    ]);
+    expect(parseDayRule('火、金曜日')).toEqual([
+      { weekday: 2, nths: null },
+      { weekday: 5, nths: null },
+    ]);
+  });
+
+  it('reads ordinals', () => {
+    expect(parseDayRule('第2・4水曜日')).toEqual([{ weekday: 3, nths: [2, 4] }]);
+    expect(parseDayRule('第2・第4水曜日')).toEqual([{ weekday: 3, nths: [2, 4] }]);
+    expect(parseDayRule('2nd and 4th Wednesday')).toEqual([{ weekday: 3, nths: [2, 4] }]);
+    expect(parseDayRule('last Friday')).toEqual([{ weekday: 5, nths: [-1] }]);
+  });
+
+  it('ignores text without a weekday', () => {
+    expect(parseDayRule('')).toEqual([]);
+    expect(parseDayRule('要予約')).toEqual([]);
+  });
+});
+
+describe('daysToScheduleRules', () => {
+  it('keeps both weekdays of "月・木曜日"', () => {
+    expect(daysToScheduleRules(['月・木曜日'])).toEqual([
+      { kind: 'weekly', weekdays: [1] },
+      { kind: 'weekly', weekdays: [4] },
+    ]);
+  });
+});
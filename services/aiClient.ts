@@ -0,0 +1,513 @@
+// services/aiClient.ts
+// Một client cho mọi tính năng AI: ai.run(feature, input, options)
+// The Cloud Functions check the plan, rate limits and credits and hold the prompts; this file only picks
+// the request for a feature and turns every failure into an AIError.
+
+import { httpsCallable } from 'firebase/functions';
+import { auth, functions } from '../firebase/firebaseConfig';
+import { AIModelTier } from '../types/credits';
+import {
+  ChatMessage,
+  IAIFeatureInputs,
+  IAIFeatureOutputs,
+  IAIRunOptions,
+  IAIRunResult,
+  IAIUsage,
+  TAIErrorCode,
+  TAIFeature,
+  TJlptLevel,
+} from '../types/ai';
+
+// geminiChat Cloud Function (HTTP, can stream)
+const CLOUD_FUNCTION_URL = process.env.EXPO_PUBLIC_GEMINI_CLOUD_FUNCTION_URL || '';
+
+// Local stub for development without deployed functions: canned replies, nothing is charged
+const USE_AI_STUB = process.env.EXPO_PUBLIC_AI_STUB === 'true';
+
+// Web pages are cut to keep the prompt small
+const MAX_PAGE_TEXT_LENGTH = 10000;
+
+const AI_ERROR_CODES: TAIErrorCode[] = [
+  'insufficient_credits',
+  'model_not_allowed',
+  'rate_limited',
+  'safety_blocked',
+  'unauthenticated',
+  'invalid_request',
+  'cancelled',
+  'unavailable',
+  'internal',
+];
+
+export class AIError extends Error {
+  code: TAIErrorCode;
+  reason: string; // Lý do chi tiết của server (ví dụ 'image_too_large'), mặc định = code
+  retryAfterSeconds?: number; // rate_limited only
+
+  constructor(code: TAIErrorCode, message: string, options: { reason?: string; retryAfterSeconds?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.code = code;
+    this.reason = options.reason || code;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+// ============================================
+// FEATURE REGISTRY
+// ============================================
+
+type GarbageAnalysisMode = 'items' | 'marks';
+
+// What a chat feature sends to geminiChat (jlptLevel goes into the prompt variables)
+interface ChatRequest {
+  messages: ChatMessage[];
+  conversationId?: string;
+  jlptLevel?: TJlptLevel;
+}
+
+interface ChatFeatureDefinition<F extends TAIFeature> {
+  kind: 'chat';
+  defaultModelTier: AIModelTier;
+  toRequest: (input: IAIFeatureInputs[F]) => ChatRequest;
+}
+
+interface ScanFeatureDefinition {
+  kind: 'scan';
+  defaultModelTier: AIModelTier;
+  mode: GarbageAnalysisMode;
+}
+
+type AIFeatureDefinition<F extends TAIFeature> = ChatFeatureDefinition<F> | ScanFeatureDefinition;
+
+const chatFeature = <F extends TAIFeature>(
+  defaultModelTier: AIModelTier,
+  toRequest: (input: IAIFeatureInputs[F]) => ChatRequest
+): ChatFeatureDefinition<F> => ({ kind: 'chat', defaultModelTier, toRequest });
+
+export const AI_FEATURES: { [F in TAIFeature]: AIFeatureDefinition<F> } = {
+  ai_chat: chatFeature('lite', ({ messages, conversationId }) => ({ messages, conversationId })),
+  japanese_learning: chatFeature('lite', ({ messages, conversationId, jlptLevel }) => ({
+    messages,
+    conversationId,
+    jlptLevel,
+  })),
+  ai_map: chatFeature('flash', ({ messages, conversationId }) => ({ messages, conversationId })),
+  web_summary: chatFeature('lite', ({ pageText }) => ({
+    messages: [{ role: 'user', content: `Web page content:\n${pageText.substring(0, MAX_PAGE_TEXT_LENGTH)}` }],
+  })),
+  web_qa: chatFeature('flash', ({ pageText, question }) => ({
+    messages: [{
+      role: 'user',
+      content: `Web page content:\n${pageText.substring(0, MAX_PAGE_TEXT_LENGTH)}\n\nQuestion: ${question}`,
+    }],
+  })),
+  japanese_translation: chatFeature('lite', ({ text }) => ({ messages: [{ role: 'user', content: text }] })),
+  garbage_analysis: { kind: 'scan', defaultModelTier: 'lite', mode: 'items' },
+  recycling_marks: { kind: 'scan', defaultModelTier: 'lite', mode: 'marks' },
+};
+
+// ============================================
+// TRANSPORTS (proxy = Cloud Functions, stub = local)
+// ============================================
+
+// Response of the geminiChat Cloud Function (the `done` event when streaming)
+interface ChatResponse {
+  text: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cachedTokens: number;
+  };
+  creditsCharged: number;
+  remainingCredits: number | null; // null for super admins (not charged)
+  warnings?: string[];
+}
+
+interface ScanRequest {
+  imageBase64: string;
+  compositeId: string;
+  language: string;
+  modelTier: AIModelTier;
+  mode: GarbageAnalysisMode;
+}
+
+// Response of the analyzeGarbageImage Cloud Function
+interface ScanResponse {
+  analysis: unknown;
+  creditsCharged: number;
+  remainingCredits: number | null;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  cached: boolean;
+  historyId: string | null;
+}
+
+// Body of a geminiChat request: featureType is the feature name, promptVariables are filled into its prompt on the server
+type ChatBody = Omit<ChatRequest, 'jlptLevel'> & {
+  featureType: TAIFeature;
+  modelTier: AIModelTier;
+  promptVariables: { language: string; jlptLevel?: TJlptLevel };
+};
+
+interface AITransport {
+  chat(
+    body: ChatBody,
+    signal?: AbortSignal,
+    onTextChunk?: (text: string) => void
+  ): Promise<ChatResponse>;
+  scan(request: ScanRequest, signal?: AbortSignal): Promise<ScanResponse>;
+}
+
+function cancelledError(): AIError {
+  return new AIError('cancelled', 'The AI request was cancelled');
+}
+
+function isAIErrorCode(value: unknown): value is TAIErrorCode {
+  return typeof value === 'string' && AI_ERROR_CODES.includes(value as TAIErrorCode);
+}
+
+/**
+ * Error of a refused geminiChat request: the status tells the code, the body may add a reason
+ */
+function chatHttpError(status: number, body: any, retryAfterHeader: string | null): AIError {
+  const message = typeof body?.error === 'string' ? body.error : 'Cloud function request failed';
+  const reason = typeof body?.reason === 'string' ? body.reason : undefined;
+  if (isAIErrorCode(reason)) return new AIError(reason, message);
+
+  switch (status) {
+    case 400:
+      return new AIError('invalid_request', message);
+    case 401:
+      return new AIError('unauthenticated', message);
+    case 402:
+      return new AIError('insufficient_credits', message);
+    case 403:
+      return new AIError('model_not_allowed', message);
+    case 422:
+      return new AIError('safety_blocked', message);
+    case 429: {
+      const retryAfterSeconds = Number(retryAfterHeader);
+      return new AIError('rate_limited', message, {
+        retryAfterSeconds: Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0 ? retryAfterSeconds : undefined,
+      });
+    }
+    default:
+      return new AIError('internal', message);
+  }
+}
+
+/**
+ * Error of the analyzeGarbageImage callable: details.reason (garbageFunctions.ts) is kept as `reason`
+ */
+function callableError(error: any): AIError {
+  const reason = typeof error?.details?.reason === 'string' ? error.details.reason : undefined;
+  const message = error?.message || 'AI request failed';
+  if (isAIErrorCode(reason)) return new AIError(reason, message);
+
+  switch (error?.code) {
+    case 'functions/unauthenticated':
+      return new AIError('unauthenticated', message, { reason });
+    case 'functions/invalid-argument':
+    case 'functions/not-found':
+      return new AIError('invalid_request', message, { reason });
+    case 'functions/permission-denied':
+      return new AIError('model_not_allowed', message, { reason });
+    case 'functions/resource-exhausted':
+      return new AIError('insufficient_credits', message, { reason });
+    case 'functions/unavailable':
+    case 'functions/deadline-exceeded':
+      return new AIError('unavailable', message, { reason });
+    default:
+      return new AIError('internal', message, { reason });
+  }
+}
+
+/**
+ * Read the server-sent events of a streaming geminiChat request.
+ * React Native's fetch cannot read a response body incrementally, XMLHttpRequest progress events can.
+ */
+function streamChat(
+  idToken: string,
+  body: ChatBody,
+  onTextChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ChatResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let readLength = 0;
+    let pending = '';
+    let result: ChatResponse | null = null;
+    let streamError: AIError | null = null;
+
+    // Events are `data: <json>` blocks separated by a blank line.
+    // False when a block is not JSON (e.g. an error page of a proxy in between)
+    const readEvents = (): boolean => {
+      pending += xhr.responseText.slice(readLength);
+      readLength = xhr.responseText.length;
+      const blocks = pending.split('\n\n');
+      pending = blocks.pop() || '';
+
+      for (const block of blocks) {
+        if (!block.startsWith('data: ')) continue;
+        let event: any;
+        try {
+          event = JSON.parse(block.slice('data: '.length));
+        } catch {
+          return false;
+        }
+        if (event.type === 'text') {
+          onTextChunk(event.text);
+        } else if (event.type === 'done') {
+          result = event;
+        } else if (event.type === 'error') {
+          streamError = new AIError(isAIErrorCode(event.reason) ? event.reason : 'internal', event.error);
+        }
+      }
+      return true;
+    };
+
+    const onAbort = () => xhr.abort();
+    const cleanUp = () => signal?.removeEventListener('abort', onAbort);
+
+    // The promise is settled first, the abort event that follows has no effect
+    const rejectMalformed = () => {
+      cleanUp();
+      reject(new AIError('internal', 'Cloud function sent a malformed stream'));
+      xhr.abort();
+    };
+
+    xhr.open('POST', CLOUD_FUNCTION_URL);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('Authorization', `Bearer ${idToken}`);
+    xhr.onprogress = () => {
+      if (xhr.status === 200 && !readEvents()) rejectMalformed();
+    };
+    xhr.onload = () => {
+      cleanUp();
+      if (xhr.status !== 200) {
+        // Refused before streaming started: plain JSON error like the non-streaming call
+        let errorBody: any = null;
+        try {
+          errorBody = JSON.parse(xhr.responseText);
+        } catch {
+          errorBody = null;
+        }
+        reject(chatHttpError(xhr.status, errorBody, xhr.getResponseHeader('Retry-After')));
+        return;
+      }
+
+      if (!readEvents()) {
+        rejectMalformed();
+        return;
+      }
+      if (streamError) {
+        reject(streamError);
+      } else if (result) {
+        resolve(result);
+      } else {
+        reject(new AIError('internal', 'Cloud function stream ended unexpectedly'));
+      }
+    };
+    xhr.onerror = () => {
+      cleanUp();
+      reject(new AIError('unavailable', 'Cloud function request failed'));
+    };
+    xhr.onabort = () => {
+      cleanUp();
+      reject(cancelledError());
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    xhr.send(JSON.stringify({ ...body, stream: true }));
+  });
+}
+
+/**
+ * Reject as soon as the signal aborts (callables cannot be aborted, their result is ignored)
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(cancelledError());
+    signal.addEventListener('abort', onAbort);
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+const proxyTransport: AITransport = {
+  async chat(body, signal, onTextChunk) {
+    if (!CLOUD_FUNCTION_URL) {
+      throw new AIError('unavailable', 'The AI service is not configured');
+    }
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new AIError('unauthenticated', 'User must be logged in to use AI features');
+    }
+    const idToken = await currentUser.getIdToken();
+
+    if (onTextChunk) {
+      return streamChat(idToken, body, onTextChunk, signal);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(CLOUD_FUNCTION_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${idToken}`,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw cancelledError();
+      throw new AIError('unavailable', 'Cloud function request failed');
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null);
+      throw chatHttpError(response.status, errorBody, response.headers.get('Retry-After'));
+    }
+    return response.json();
+  },
+
+  async scan(request, signal) {
+    const callAnalyze = httpsCallable<ScanRequest, ScanResponse>(functions, 'analyzeGarbageImage');
+    try {
+      const { data } = await raceAbort(callAnalyze(request), signal);
+      return data;
+    } catch (error) {
+      if (error instanceof AIError) throw error;
+      throw callableError(error);
+    }
+  },
+};
+
+function stubDelay(signal?: AbortSignal): Promise<void> {
+  return raceAbort(new Promise<void>((resolve) => setTimeout(resolve, 300)), signal);
+}
+
+const stubTransport: AITransport = {
+  async chat(body, signal, onTextChunk) {
+    await stubDelay(signal);
+    const lastMessage = body.messages[body.messages.length - 1]?.content || '';
+    const text = `[${body.featureType} stub] ${lastMessage.slice(0, 200)}`;
+    onTextChunk?.(text);
+    return {
+      text,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedTokens: 0 },
+      creditsCharged: 0,
+      remainingCredits: null,
+    };
+  },
+
+  async scan(request, signal) {
+    await stubDelay(signal);
+    return {
+      analysis: request.mode === 'items' ? { items: [] } : { parts: [] },
+      creditsCharged: 0,
+      remainingCredits: null,
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      cached: false,
+      historyId: null,
+    };
+  },
+};
+
+const transport: AITransport = USE_AI_STUB ? stubTransport : proxyTransport;
+
+// ============================================
+// CLIENT
+// ============================================
+
+/**
+ * Run an AI feature. Credits are charged by the server and reported in `usage`.
+ * Every failure is an AIError (insufficient_credits, model_not_allowed, rate_limited, safety_blocked...);
+ * aborting `options.signal` rejects with code 'cancelled'.
+ */
+async function run<F extends TAIFeature>(
+  feature: F,
+  input: IAIFeatureInputs[F],
+  options: IAIRunOptions = {}
+): Promise<IAIRunResult<F>> {
+  const definition = AI_FEATURES[feature] as AIFeatureDefinition<F>;
+  const modelTier = options.modelTier || definition.defaultModelTier;
+  const language = options.language || 'en';
+
+  if (options.signal?.aborted) {
+    throw cancelledError();
+  }
+
+  try {
+    if (definition.kind === 'scan') {
+      const { imageBase64, compositeId } = input as IAIFeatureInputs['garbage_analysis'];
+      const data = await transport.scan(
+        { imageBase64, compositeId, language, modelTier, mode: definition.mode },
+        options.signal
+      );
+      const output = { analysis: data.analysis, cached: !!data.cached, historyId: data.historyId ?? null };
+      return {
+        output: output as IAIFeatureOutputs[F],
+        usage: {
+          ...data.usage,
+          cachedTokens: 0,
+          creditsCharged: data.creditsCharged,
+          remainingCredits: data.remainingCredits,
+        },
+      };
+    }
+
+    const { jlptLevel, ...request } = definition.toRequest(input);
+    const promptVariables = jlptLevel ? { language, jlptLevel } : { language };
+    const data = await transport.chat(
+      { ...request, featureType: feature, modelTier, promptVariables },
+      options.signal,
+      options.onTextChunk
+    );
+
+    if (data.warnings && data.warnings.length > 0) {
+      console.warn('AI warnings:', data.warnings);
+    }
+
+    const usage: IAIUsage = {
+      ...data.usage,
+      creditsCharged: data.creditsCharged,
+      remainingCredits: data.remainingCredits,
+    };
+    return { output: { text: data.text, warnings: data.warnings || [] } as IAIFeatureOutputs[F], usage };
+  } catch (error: any) {
+    console.error(`AI ${feature} error:`, error);
+    if (error instanceof AIError) throw error;
+    throw new AIError('internal', error?.message || 'AI request failed');
+  }
+}
+
+export const ai = { run };
+
+/**
+ * Drop the server-side context cache of a chat (closed or deleted).
+ * `conversationDeleted` also drops the summary of its older messages.
+ * Best effort: an unused cache also expires by itself.
+ */
+export async function deleteChatContextCache(
+  featureType: TAIFeature,
+  conversationId: string,
+  conversationDeleted: boolean = false
+): Promise<void> {
+  if (USE_AI_STUB || !CLOUD_FUNCTION_URL) return;
+  try {
+    const deleteCache = httpsCallable<
+      { featureType: string; conversationId: string; conversationDeleted: boolean },
+      { deleted: boolean }
+    >(functions, 'deleteChatContextCache');
+    await deleteCache({ featureType, conversationId, conversationDeleted });
+  } catch (error) {
+    console.warn('Failed to delete chat context cache:', error);
+  }
+}
@@ -0,0 +1,161 @@
+// services/bulkyWasteService.ts
+// Bulky waste (粗大ごみ): fee table lookup, fee estimate and earliest pickup date
+
+import type { i18n as I18n } from 'i18next';
+import {
+  IBulkyFeeEstimate,
+  IBulkyFeeItem,
+  IBulkyWasteLine,
+  IBulkyWasteRules,
+} from '../types/garbageRules';
+import { addDays, isJapaneseHoliday, matchesScheduleRule, startOfDay } from './garbageCalendarService';
+import { buildItemListSearchIndex, IItemSearchEntry, searchItems } from './itemSearchService';
+
+const FEE_INDEX_CATEGORY = 'bulky_fee';
+
+// A scanned item is matched to the fee table automatically above this score
+const AUTO_MATCH_SCORE = 80;
+
+// How far ahead to look for a pickup day
+const PICKUP_SEARCH_DAYS = 90;
+
+// Category keys that mean "bulky waste" in the rules documents and AI results
+const BULKY_CATEGORY_KEYS = ['bulky', 'bulky_waste', 'oversized', 'sodai', 'sodaigomi', '粗大ごみ'];
+
+export function isBulkyCategory(category: string | null | undefined): boolean {
+  return !!category && BULKY_CATEGORY_KEYS.includes(category.toLowerCase());
+}
+
+// ============================================
+// FEE TABLE LOOKUP
+// ============================================
+
+export interface IBulkyFeeMatch {
+  rowId: string; // Stable per fee table row, also when rows share a name
+  feeItem: IBulkyFeeItem;
+  score: number;
+}
+
+// Index entries point at their fee table row (names repeat across size variants)
+const feeRowId = (rowIndex: number): string => `${FEE_INDEX_CATEGORY}-${rowIndex}`;
+
+export function buildBulkyFeeIndex(bulkyWaste: IBulkyWasteRules | undefined, i18n: I18n): IItemSearchEntry[] {
+  if (!bulkyWaste || !Array.isArray(bulkyWaste.fee_table)) return [];
+  return bulkyWaste.fee_table.flatMap((feeItem, rowIndex) =>
+    buildItemListSearchIndex(FEE_INDEX_CATEGORY, [feeItem?.item], i18n)
+      .map(entry => ({ ...entry, id: feeRowId(rowIndex) }))
+  );
+}
+
+/**
+ * Fee table rows matching a free-text item name, best matches first.
+ * Several rows often share a name with different sizes (ソファ 1人掛け / 2人掛け): each row is its own match.
+ */
+export function findBulkyFeeItems(
+  bulkyWaste: IBulkyWasteRules,
+  index: IItemSearchEntry[],
+  name: string,
+  limit: number = 5
+): IBulkyFeeMatch[] {
+  const rowsById = new Map(bulkyWaste.fee_table.map((feeItem, rowIndex) => [feeRowId(rowIndex), feeItem]));
+  return searchItems(index, name, limit)
+    .map(match => ({
+      rowId: match.entry.id,
+      feeItem: rowsById.get(match.entry.id),
+      score: match.score,
+    }))
+    .filter((match): match is IBulkyFeeMatch => !!match.feeItem);
+}
+
+/**
+ * The fee row for a name when the match is unambiguous (used for AI scan results).
+ * Size variants of the same item score the same, so they are left for the user to pick.
+ */
+export function matchBulkyFeeItem(
+  bulkyWaste: IBulkyWasteRules,
+  index: IItemSearchEntry[],
+  name: string
+): IBulkyFeeItem | null {
+  const [best, second] = findBulkyFeeItems(bulkyWaste, index, name, 2);
+  if (!best || best.score < AUTO_MATCH_SCORE) return null;
+  if (second && second.score === best.score) return null;
+  return best.feeItem;
+}
+
+// ============================================
+// ESTIMATE
+// ============================================
+
+/**
+ * Stickers needed for one item: largest denominations first, topped up with the
+ * smallest one when the fee is not an exact combination
+ */
+function stickersForFee(fee: number, denominations: number[]): number[] {
+  const sorted = denominations.filter(d => d > 0).sort((a, b) => b - a);
+  if (sorted.length === 0 || fee <= 0) return [];
+
+  const stickers: number[] = [];
+  let remaining = fee;
+  sorted.forEach(denomination => {
+    while (remaining >= denomination) {
+      stickers.push(denomination);
+      remaining -= denomination;
+    }
+  });
+  if (remaining > 0) stickers.push(sorted[sorted.length - 1]);
+  return stickers;
+}
+
+export function estimateBulkyWasteFee(bulkyWaste: IBulkyWasteRules, lines: IBulkyWasteLine[]): IBulkyFeeEstimate {
+  const denominations = bulkyWaste.sticker?.denominations || [];
+  const stickerCounts = new Map<number, number>();
+  let total = 0;
+  let unpricedCount = 0;
+  let itemCount = 0;
+
+  lines.forEach(line => {
+    const quantity = Math.max(0, Math.floor(line.quantity));
+    itemCount += quantity;
+    if (!line.feeItem) {
+      unpricedCount += quantity;
+      return;
+    }
+
+    total += line.feeItem.fee * quantity;
+    // Each item carries its own stickers
+    stickersForFee(line.feeItem.fee, denominations).forEach(denomination => {
+      stickerCounts.set(denomination, (stickerCounts.get(denomination) || 0) + quantity);
+    });
+  });
+
+  return {
+    total,
+    unpricedCount,
+    itemCount,
+    stickers: Array.from(stickerCounts.entries())
+      .map(([denomination, count]) => ({ denomination, count }))
+      .sort((a, b) => b.denomination - a.denomination),
+    exceedsMaxItems: !!bulkyWaste.pickup?.max_items && itemCount > bulkyWaste.pickup.max_items,
+  };
+}
+
+// ============================================
+// PICKUP DATE
+// ============================================
+
+/**
+ * First day a pickup can be booked for, honouring the booking lead time and the
+ * city's pickup schedule. Null when the city has no fixed pickup days.
+ */
+export function getEarliestPickupDate(bulkyWaste: IBulkyWasteRules, from: Date = new Date()): Date | null {
+  const rules = bulkyWaste.pickup?.schedule || [];
+  if (rules.length === 0) return null;
+
+  const start = addDays(startOfDay(from), Math.max(1, bulkyWaste.booking?.lead_time_days || 0));
+  for (let offset = 0; offset < PICKUP_SEARCH_DAYS; offset++) {
+    const date = addDays(start, offset);
+    if (isJapaneseHoliday(date)) continue;
+    if (rules.some(rule => matchesScheduleRule(rule, date))) return date;
+  }
+  return null;
+}
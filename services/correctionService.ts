@@ -0,0 +1,110 @@
+// services/correctionService.ts
+// "This is wrong" reports: upload, submit to the moderation queue, and admin review
+
+import { collection, getDocs, orderBy, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, functions, storage } from '../firebase/firebaseConfig';
+import {
+  IGarbageCorrection,
+  IGarbageCorrectionInput,
+  IReviewCorrectionInput,
+} from '../types/corrections';
+import { toEpochMillis } from './rulesCacheService';
+
+const CORRECTIONS_COLLECTION = 'garbage_corrections';
+
+// Same prefix as functions/src/correctionFunctions.ts (checked on submit)
+const CORRECTION_IMAGES_PATH = 'corrections';
+
+function toDate(value: unknown): Date | null {
+  const millis = toEpochMillis(value);
+  return millis === null ? null : new Date(millis);
+}
+
+// ============================================
+// USER REPORTS
+// ============================================
+
+/**
+ * Upload the scanned photo so admins can see what the AI was looking at
+ */
+async function uploadCorrectionImage(userId: string, imageUri: string): Promise<string> {
+  const response = await fetch(imageUri);
+  const blob = await response.blob();
+  const path = `${CORRECTION_IMAGES_PATH}/${userId}/${Date.now()}.jpg`;
+  await uploadBytes(ref(storage, path), blob, { contentType: 'image/jpeg' });
+  return path;
+}
+
+/**
+ * Send a report to the moderation queue.
+ * The photo is optional: a failed upload still sends the report without it.
+ * Throws i18n key: errorSubmittingCorrection
+ */
+export async function submitGarbageCorrection(userId: string, input: IGarbageCorrectionInput): Promise<string> {
+  let imagePath: string | null = null;
+  if (input.imageUri) {
+    try {
+      imagePath = await uploadCorrectionImage(userId, input.imageUri);
+    } catch (error) {
+      console.warn('Error uploading correction image:', error);
+    }
+  }
+
+  const { imageUri, ...report } = input;
+  const callSubmit = httpsCallable<Omit<IGarbageCorrectionInput, 'imageUri'> & { imagePath: string | null }, { id: string }>(
+    functions,
+    'submitGarbageCorrection'
+  );
+
+  try {
+    const { data } = await callSubmit({ ...report, imagePath });
+    return data.id;
+  } catch (error) {
+    console.error('Error submitting correction:', error);
+    throw new Error('errorSubmittingCorrection');
+  }
+}
+
+// ============================================
+// ADMIN REVIEW
+// ============================================
+
+/**
+ * Reports waiting for review, oldest first
+ */
+export async function getPendingCorrections(): Promise<IGarbageCorrection[]> {
+  const snapshot = await getDocs(query(
+    collection(db, CORRECTIONS_COLLECTION),
+    where('status', '==', 'pending'),
+    orderBy('createdAt', 'asc')
+  ));
+
+  return snapshot.docs.map(correctionDoc => {
+    const data = correctionDoc.data();
+    return {
+      ...data,
+      id: correctionDoc.id,
+      note: data.note ?? null,
+      imagePath: data.imagePath ?? null,
+      analysis: data.analysis ?? null,
+      itemIndex: data.itemIndex ?? null,
+      createdAt: toDate(data.createdAt),
+      reviewedAt: toDate(data.reviewedAt),
+    } as IGarbageCorrection;
+  });
+}
+
+export async function getCorrectionImageUrl(imagePath: string): Promise<string> {
+  return getDownloadURL(ref(storage, imagePath));
+}
+
+/**
+ * Approve (the item is moved in the municipality's rules) or reject a report.
+ * Errors keep the server code ('functions/permission-denied', 'functions/failed-precondition'...).
+ */
+export async function reviewGarbageCorrection(input: IReviewCorrectionInput): Promise<void> {
+  const callReview = httpsCallable<IReviewCorrectionInput, { status: string }>(functions, 'reviewGarbageCorrection');
+  await callReview(input);
+}
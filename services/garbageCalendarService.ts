@@ -0,0 +1,619 @@
+// services/garbageCalendarService.ts
+// Expands the collection_schedule of each waste category into concrete dates
+
+import type { TFunction } from 'i18next';
+import {
+  ICollectionDay,
+  IDistrictSchedule,
+  IResolvedSchedule,
+  IScheduleExceptions,
+  ISuspensionWindow,
+  IWasteCategory,
+  TCollectionSchedule,
+  TScheduleRule,
+} from '../types/garbageRules';
+
+// A single parsed weekday rule ("Monday", "2nd and 4th Wednesday", "第1・3月曜日")
+export interface IDayRule {
+  weekday: number; // 0 = Sunday ... 6 = Saturday (same as Date.getDay())
+  nths: number[] | null; // null = every week, -1 = last occurrence of the month
+}
+
+const ENGLISH_WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  wed: 3,
+  thu: 4,
+  fri: 5,
+  sat: 6,
+};
+
+const JAPANESE_WEEKDAYS: Record<string, number> = {
+  '日': 0,
+  '月': 1,
+  '火': 2,
+  '水': 3,
+  '木': 4,
+  '金': 5,
+  '土': 6,
+};
+
+const WEEKDAY_KEYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Legacy `days` entries meaning "no fixed day" (粗大ごみ etc.)
+const APPOINTMENT_PATTERN = /appointment|reservation|予約|申込|申し込み/i;
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  last: -1,
+};
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+/**
+ * Format a date as YYYY-MM-DD in local time (used as map key)
+ */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Sunday-based week start (Japanese municipal calendars start on Sunday)
+ */
+export function startOfWeek(date: Date): Date {
+  return addDays(startOfDay(date), -date.getDay());
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+/**
+ * Parse a YYYY-MM-DD key back into a local date (null if malformed)
+ */
+export function parseDateKey(dateKey: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey || '');
+  if (!match) return null;
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
+
+/**
+ * Whole days between two local dates (DST-safe)
+ */
+function diffInDays(a: Date, b: Date): number {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcA - utcB) / 86400000);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Which occurrence of its weekday the date is within its month (1-5)
+ */
+export function getWeekdayOrdinal(date: Date): number {
+  return Math.ceil(date.getDate() / 7);
+}
+
+function isLastWeekdayOfMonth(date: Date): boolean {
+  return date.getDate() + 7 > daysInMonth(date.getFullYear(), date.getMonth());
+}
+
+// ============================================
+// JAPANESE NATIONAL HOLIDAYS (祝日)
+// ============================================
+
+const holidayCache = new Map<number, Set<string>>();
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): Date {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (nth - 1) * 7);
+}
+
+/**
+ * Compute the national holidays of a given year, including substitute holidays
+ * (振替休日) and citizens' holidays (国民の休日). Equinox dates use the standard
+ * approximation which is valid for 1980-2099.
+ */
+export function getJapaneseHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const yearOffset = year - 1980;
+  const springEquinox = Math.floor(20.8431 + 0.242194 * yearOffset - Math.floor(yearOffset / 4));
+  const autumnEquinox = Math.floor(23.2488 + 0.242194 * yearOffset - Math.floor(yearOffset / 4));
+
+  const base: Date[] = [
+    new Date(year, 0, 1), // 元日
+    nthWeekdayOfMonth(year, 0, 1, 2), // 成人の日
+    new Date(year, 1, 11), // 建国記念の日
+    new Date(year, 1, 23), // 天皇誕生日
+    new Date(year, 2, springEquinox), // 春分の日
+    new Date(year, 3, 29), // 昭和の日
+    new Date(year, 4, 3), // 憲法記念日
+    new Date(year, 4, 4), // みどりの日
+    new Date(year, 4, 5), // こどもの日
+    nthWeekdayOfMonth(year, 6, 1, 3), // 海の日
+    new Date(year, 7, 11), // 山の日
+    nthWeekdayOfMonth(year, 8, 1, 3), // 敬老の日
+    new Date(year, 8, autumnEquinox), // 秋分の日
+    nthWeekdayOfMonth(year, 9, 1, 2), // スポーツの日
+    new Date(year, 10, 3), // 文化の日
+    new Date(year, 10, 23), // 勤労感謝の日
+  ];
+
+  const holidays = new Set(base.map(toDateKey));
+
+  // 国民の休日: a weekday sandwiched between two holidays
+  base.forEach(date => {
+    const nextNext = addDays(date, 2);
+    const between = addDays(date, 1);
+    if (holidays.has(toDateKey(nextNext)) && !holidays.has(toDateKey(between)) && between.getDay() !== 0) {
+      holidays.add(toDateKey(between));
+    }
+  });
+
+  // 振替休日: a holiday on Sunday moves to the next non-holiday day
+  base
+    .filter(date => date.getDay() === 0)
+    .forEach(date => {
+      let substitute = addDays(date, 1);
+      while (holidays.has(toDateKey(substitute))) {
+        substitute = addDays(substitute, 1);
+      }
+      holidays.add(toDateKey(substitute));
+    });
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export function isJapaneseHoliday(date: Date): boolean {
+  return getJapaneseHolidays(date.getFullYear()).has(toDateKey(date));
+}
+
+// ============================================
+// SCHEDULE PARSING
+// ============================================
+
+/**
+ * Fold full-width digits (０-９) to ASCII
+ */
+function foldDigits(text: string): string {
+  return text.replace(/[０-９]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0));
+}
+
+/**
+ * Parse one entry of a `days` array into weekday rules.
+ * Supports "Monday", "Mon", "月曜日", "月", "2nd and 4th Wednesday",
+ * "1st & 3rd Monday", "last Friday", "第2・第4水曜日" and lists like "月・木曜日".
+ */
+export function parseDayRule(day: string): IDayRule[] {
+  if (!day) return [];
+  const text = foldDigits(day).trim();
+  const lower = text.toLowerCase();
+
+  // 1. Weekdays
+  const weekdays: number[] = [];
+  const englishMatches = lower.match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(rs?)?|fri|sat)\b/g) || [];
+  englishMatches.forEach(match => {
+    const weekday = ENGLISH_WEEKDAYS[match.slice(0, 3)];
+    if (weekday !== undefined && !weekdays.includes(weekday)) weekdays.push(weekday);
+  });
+
+  // "月・木曜日": every weekday of a list that ends in 曜
+  const japaneseLists = text.match(/[日月火水木金土](?:\s*[・、,，]\s*[日月火水木金土])*(?=曜)/g) || [];
+  japaneseLists.forEach(list => {
+    (list.match(/[日月火水木金土]/g) || []).forEach(match => {
+      const weekday = JAPANESE_WEEKDAYS[match];
+      if (!weekdays.includes(weekday)) weekdays.push(weekday);
+    });
+  });
+
+  if (weekdays.length === 0 && JAPANESE_WEEKDAYS[text] !== undefined) {
+    weekdays.push(JAPANESE_WEEKDAYS[text]);
+  }
+
+  if (weekdays.length === 0) return [];
+
+  // 2. Ordinals ("2nd", "第2", "second", "last", "最終")
+  const nths: number[] = [];
+  const hasOrdinalMarker = /\d\s*(st|nd|rd|th)\b|第|週目/.test(lower);
+  if (hasOrdinalMarker) {
+    (lower.match(/[1-5]/g) || []).forEach(n => {
+      const value = parseInt(n, 10);
+      if (!nths.includes(value)) nths.push(value);
+    });
+  }
+  Object.entries(ORDINAL_WORDS).forEach(([word, value]) => {
+    if (new RegExp(`\\b${word}\\b`).test(lower) && !nths.includes(value)) nths.push(value);
+  });
+  if (text.includes('最終') && !nths.includes(-1)) nths.push(-1);
+
+  return weekdays.map(weekday => ({
+    weekday,
+    nths: nths.length > 0 ? nths.sort((a, b) => a - b) : null,
+  }));
+}
+
+/**
+ * Convert legacy `days` strings into structured rules
+ */
+export function daysToScheduleRules(days: string[]): TScheduleRule[] {
+  const rules: TScheduleRule[] = [];
+
+  (days || []).forEach(day => {
+    if (typeof day !== 'string') return;
+    const parsed = parseDayRule(day);
+    if (parsed.length === 0) {
+      if (APPOINTMENT_PATTERN.test(day)) rules.push({ kind: 'by_appointment', note: day });
+      return;
+    }
+    parsed.forEach(rule => {
+      rules.push(
+        rule.nths
+          ? { kind: 'monthly_nth', weekdays: [rule.weekday], nths: rule.nths }
+          : { kind: 'weekly', weekdays: [rule.weekday] }
+      );
+    });
+  });
+
+  return rules;
+}
+
+function findDistrict(
+  districts: IDistrictSchedule[] | undefined,
+  districtId: string | null
+): IDistrictSchedule | undefined {
+  if (!districtId) return undefined;
+  return (districts || []).find(d => d.district_id === districtId);
+}
+
+function districtRules(district: IDistrictSchedule): TScheduleRule[] {
+  return [...daysToScheduleRules(district.days || []), ...(district.rules || [])];
+}
+
+/**
+ * Resolve the `days` list of a schedule for the selected district
+ * Returns null when the schedule cannot be resolved (no schedule, unknown district,
+ * or a structured schedule without legacy days)
+ */
+export function getDaysForDistrict(
+  schedule: TCollectionSchedule,
+  districtId: string | null
+): string[] | null {
+  if (!schedule) return null;
+
+  if (schedule.type === 'uniform') {
+    return schedule.days || [];
+  }
+
+  if (schedule.type === 'district_based' || schedule.type === 'rules') {
+    const districtSchedule = findDistrict(schedule.districts, districtId);
+    return districtSchedule?.days ? districtSchedule.days : null;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve any schedule shape into structured rules plus exceptions for the selected district
+ * Schedule-level exceptions and district-level exceptions are merged
+ * Returns null when the schedule cannot be resolved (no schedule, unknown district)
+ */
+export function resolveSchedule(
+  schedule: TCollectionSchedule,
+  districtId: string | null
+): IResolvedSchedule | null {
+  if (!schedule) return null;
+
+  let rules: TScheduleRule[] | null = null;
+  let district: IDistrictSchedule | undefined;
+
+  if (schedule.type === 'uniform') {
+    rules = daysToScheduleRules(schedule.days || []);
+  } else if (schedule.type === 'district_based') {
+    district = findDistrict(schedule.districts, districtId);
+    rules = district ? districtRules(district) : null;
+  } else if (schedule.type === 'rules') {
+    district = findDistrict(schedule.districts, districtId);
+    if (district) {
+      rules = districtRules(district);
+    } else if (schedule.rules) {
+      rules = schedule.rules;
+    }
+  }
+
+  if (!rules) return null;
+
+  const sources: IScheduleExceptions[] = district ? [schedule, district] : [schedule];
+  return {
+    rules,
+    extraDates: sources.flatMap(source => source.extra_dates || []),
+    cancelledDates: sources.flatMap(source => source.cancelled_dates || []),
+    suspensions: sources.flatMap(source => source.suspensions || []),
+  };
+}
+
+/**
+ * Check whether a single rule matches a date
+ */
+export function matchesDayRule(rule: IDayRule, date: Date): boolean {
+  if (date.getDay() !== rule.weekday) return false;
+  if (!rule.nths) return true;
+
+  return rule.nths.some(nth =>
+    nth === -1 ? isLastWeekdayOfMonth(date) : getWeekdayOrdinal(date) === nth
+  );
+}
+
+/**
+ * Check whether a structured rule matches a date
+ */
+export function matchesScheduleRule(rule: TScheduleRule, date: Date): boolean {
+  switch (rule.kind) {
+    case 'weekly':
+      return (rule.weekdays || []).includes(date.getDay());
+
+    case 'monthly_nth':
+      return (rule.weekdays || []).some(weekday =>
+        matchesDayRule({ weekday, nths: rule.nths || null }, date)
+      );
+
+    case 'interval': {
+      const anchor = parseDateKey(rule.anchor);
+      const interval = rule.interval_weeks > 0 ? Math.floor(rule.interval_weeks) : 1;
+      if (!anchor) return false;
+
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [anchor.getDay()];
+      if (!weekdays.includes(date.getDay())) return false;
+      if (diffInDays(date, anchor) < 0) return false;
+
+      const weeksSinceAnchor = diffInDays(startOfWeek(date), startOfWeek(anchor)) / 7;
+      return weeksSinceAnchor % interval === 0;
+    }
+
+    case 'dates':
+      return (rule.dates || []).includes(toDateKey(date));
+
+    case 'by_appointment':
+      return false;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a date falls inside a suspension window
+ * Windows are either one-off ("YYYY-MM-DD") or yearly ("MM-DD", may wrap over New Year)
+ */
+export function isInSuspension(window: ISuspensionWindow, date: Date): boolean {
+  if (!window?.from || !window?.to) return false;
+  const dateKey = toDateKey(date);
+
+  if (window.from.length === 5 && window.to.length === 5) {
+    const monthDay = dateKey.slice(5);
+    return window.from <= window.to
+      ? monthDay >= window.from && monthDay <= window.to
+      : monthDay >= window.from || monthDay <= window.to;
+  }
+
+  return dateKey >= window.from && dateKey <= window.to;
+}
+
+/**
+ * Shared schedule evaluator used by the calendar, the cards and the reminders
+ * - 'collect': collection happens on this date
+ * - 'suspended': a rule matches but the date is cancelled or inside a suspension window
+ * - 'none': no collection
+ * Explicit extra dates win over suspensions; cancelled dates win over everything
+ */
+export function evaluateSchedule(
+  resolved: IResolvedSchedule | null,
+  date: Date
+): 'collect' | 'suspended' | 'none' {
+  if (!resolved) return 'none';
+  const dateKey = toDateKey(date);
+
+  const isExtra = resolved.extraDates.includes(dateKey);
+  const matchesRule = isExtra || resolved.rules.some(rule => matchesScheduleRule(rule, date));
+  if (!matchesRule) return 'none';
+
+  if (resolved.cancelledDates.includes(dateKey)) return 'suspended';
+  if (!isExtra && resolved.suspensions.some(window => isInSuspension(window, date))) return 'suspended';
+
+  return 'collect';
+}
+
+/**
+ * Whether the schedule has no fixed days and must be booked (粗大ごみ etc.)
+ */
+export function isByAppointment(resolved: IResolvedSchedule | null): boolean {
+  return !!resolved && resolved.rules.some(rule => rule.kind === 'by_appointment');
+}
+
+/**
+ * Check whether a category is scheduled on a date (ignoring holiday skips and suspensions)
+ */
+export function isCategoryScheduledOn(
+  category: IWasteCategory,
+  districtId: string | null,
+  date: Date
+): boolean {
+  return evaluateSchedule(resolveSchedule(category?.collection_schedule ?? null, districtId), date) === 'collect';
+}
+
+// ============================================
+// SCHEDULE DESCRIPTION
+// ============================================
+
+function formatOrdinal(nth: number, t: TFunction): string {
+  if (nth === -1) return t('ordinalLast', 'last');
+  const suffix = nth === 1 ? 'st' : nth === 2 ? 'nd' : nth === 3 ? 'rd' : 'th';
+  return t(`ordinal${nth}`, `${nth}${suffix}`);
+}
+
+function formatWeekdays(weekdays: number[], t: TFunction): string {
+  return weekdays.map(weekday => t(WEEKDAY_KEYS[weekday], WEEKDAY_KEYS[weekday])).join(', ');
+}
+
+/**
+ * Human-readable description of one structured rule, e.g. "1st & 3rd Monday"
+ */
+export function describeScheduleRule(rule: TScheduleRule, t: TFunction): string {
+  switch (rule.kind) {
+    case 'weekly':
+      return formatWeekdays(rule.weekdays || [], t);
+
+    case 'monthly_nth':
+      return `${(rule.nths || []).map(nth => formatOrdinal(nth, t)).join(' & ')} ${formatWeekdays(rule.weekdays || [], t)}`;
+
+    case 'interval': {
+      const anchor = parseDateKey(rule.anchor);
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : anchor ? [anchor.getDay()] : [];
+      const every = rule.interval_weeks === 2
+        ? t('everyOtherWeek', 'Every other week')
+        : t('everyNWeeks', 'Every {{count}} weeks', { count: rule.interval_weeks });
+      const since = anchor ? ` (${t('startingFrom', 'from')} ${anchor.getMonth() + 1}/${anchor.getDate()})` : '';
+      return `${every}: ${formatWeekdays(weekdays, t)}${since}`;
+    }
+
+    case 'dates':
+      return (rule.dates || [])
+        .map(parseDateKey)
+        .filter((date): date is Date => !!date)
+        .map(date => `${date.getMonth() + 1}/${date.getDate()}`)
+        .join(', ');
+
+    case 'by_appointment':
+      return rule.note ? `${t('byAppointment', 'By appointment')} (${t(rule.note, rule.note)})` : t('byAppointment', 'By appointment');
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Human-readable description of a resolved schedule including suspension windows
+ */
+export function describeSchedule(resolved: IResolvedSchedule, t: TFunction): string {
+  const parts = resolved.rules.map(rule => describeScheduleRule(rule, t)).filter(Boolean);
+
+  resolved.suspensions.forEach(window => {
+    const range = `${window.from.slice(-5).replace('-', '/')} - ${window.to.slice(-5).replace('-', '/')}`;
+    parts.push(`${t('collectionSuspended', 'No collection')}: ${window.label ? `${t(window.label, window.label)} ` : ''}${range}`);
+  });
+
+  return parts.join(', ');
+}
+
+// ============================================
+// CALENDAR EXPANSION
+// ============================================
+
+/**
+ * Build the collection day for one date
+ */
+export function getCollectionDay(
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  districtId: string | null,
+  date: Date
+): ICollectionDay {
+  const day = startOfDay(date);
+  const isHoliday = isJapaneseHoliday(day);
+  const categories: string[] = [];
+  const skippedCategories: string[] = [];
+  const suspendedCategories: string[] = [];
+
+  Object.entries(wasteCategories || {}).forEach(([categoryKey, category]) => {
+    if (!category || typeof category !== 'object') return;
+    const evaluation = evaluateSchedule(resolveSchedule(category.collection_schedule ?? null, districtId), day);
+    if (evaluation === 'none') return;
+    if (evaluation === 'suspended') {
+      suspendedCategories.push(categoryKey);
+      return;
+    }
+
+    if (isHoliday && category.skip_holidays) {
+      skippedCategories.push(categoryKey);
+    } else {
+      categories.push(categoryKey);
+    }
+  });
+
+  return {
+    dateKey: toDateKey(day),
+    date: day,
+    categories,
+    isHoliday,
+    skippedCategories,
+    suspendedCategories,
+  };
+}
+
+/**
+ * Expand the schedules of all categories into concrete dates
+ * @param from First date (inclusive)
+ * @param dayCount Number of days to expand
+ */
+export function expandCollectionCalendar(
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  districtId: string | null,
+  from: Date,
+  dayCount: number
+): ICollectionDay[] {
+  const start = startOfDay(from);
+  const result: ICollectionDay[] = [];
+
+  for (let i = 0; i < dayCount; i++) {
+    result.push(getCollectionDay(wasteCategories, districtId, addDays(start, i)));
+  }
+
+  return result;
+}
+
+/**
+ * Find the next date (from `from`, inclusive) on which a category is collected
+ * Looks ahead up to `maxDays` days, returns null if nothing is found
+ */
+export function getNextCollectionDate(
+  category: IWasteCategory,
+  districtId: string | null,
+  from: Date,
+  maxDays: number = 62
+): Date | null {
+  const start = startOfDay(from);
+  const resolved = resolveSchedule(category?.collection_schedule ?? null, districtId);
+  if (!resolved) return null;
+
+  for (let i = 0; i < maxDays; i++) {
+    const date = addDays(start, i);
+    if (evaluateSchedule(resolved, date) !== 'collect') continue;
+    if (category.skip_holidays && isJapaneseHoliday(date)) continue;
+    return date;
+  }
+
+  return null;
+}
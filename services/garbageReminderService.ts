@@ -0,0 +1,256 @@
+// services/garbageReminderService.ts
+// Local notifications reminding the user the night before each collection day
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import type { TFunction } from 'i18next';
+import { Platform } from 'react-native';
+import { ICollectionDay, IReminderSettings, IWasteCategory } from '../types/garbageRules';
+import { ISavedLocation } from '../types/locations';
+import { addDays, expandCollectionCalendar } from './garbageCalendarService';
+import { readCachedRules } from './rulesCacheService';
+import { loadSavedLocations } from './savedLocationsService';
+
+// Settings per saved location: { [locationId]: IReminderSettings }
+const REMINDER_SETTINGS_KEY = '@garbageReminderSettings_v2';
+// Single settings object used before saved locations existed (default for every location)
+const LEGACY_REMINDER_SETTINGS_KEY = '@garbageReminderSettings_v1';
+const REMINDER_CHANNEL_ID = 'garbage-reminders';
+const REMINDER_DATA_TYPE = 'garbage_reminder';
+
+// iOS keeps at most 64 pending local notifications: two weeks for a single location,
+// the budget is shared when several locations have reminders enabled
+const REMINDER_LOOKAHEAD_DAYS = 14;
+const MAX_PENDING_REMINDERS = 60;
+
+export const DEFAULT_REMINDER_SETTINGS: IReminderSettings = {
+  enabled: false,
+  hour: 20,
+  minute: 0,
+  mutedCategories: [],
+};
+
+// Translation function (i18next `t`) passed in by the caller
+export type ReminderTranslate = TFunction;
+
+// Serialize reschedule calls so two quick location/rules changes cannot interleave
+let rescheduleQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Show reminders as banners even when the app is in the foreground
+ * Call once from the root layout
+ */
+export function configureNotificationHandler(): void {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+async function loadAllReminderSettings(): Promise<Record<string, IReminderSettings>> {
+  const json = await AsyncStorage.getItem(REMINDER_SETTINGS_KEY);
+  return json ? JSON.parse(json) : {};
+}
+
+async function loadLegacyReminderSettings(): Promise<IReminderSettings> {
+  const json = await AsyncStorage.getItem(LEGACY_REMINDER_SETTINGS_KEY);
+  return json ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(json) } : DEFAULT_REMINDER_SETTINGS;
+}
+
+/**
+ * Load the reminder settings of a saved location (falls back to defaults)
+ */
+export async function getReminderSettings(locationId: string | null): Promise<IReminderSettings> {
+  try {
+    const all = await loadAllReminderSettings();
+    if (locationId && all[locationId]) {
+      return { ...DEFAULT_REMINDER_SETTINGS, ...all[locationId] };
+    }
+    return await loadLegacyReminderSettings();
+  } catch (error) {
+    console.error('Error loading reminder settings:', error);
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+}
+
+/**
+ * Persist the reminder settings of a saved location
+ */
+export async function saveReminderSettings(locationId: string, settings: IReminderSettings): Promise<void> {
+  const all = await loadAllReminderSettings();
+  await AsyncStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify({ ...all, [locationId]: settings }));
+}
+
+/**
+ * Drop the settings of a removed location
+ */
+export async function removeReminderSettings(locationId: string): Promise<void> {
+  try {
+    const all = await loadAllReminderSettings();
+    if (!all[locationId]) return;
+    delete all[locationId];
+    await AsyncStorage.setItem(REMINDER_SETTINGS_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Error removing reminder settings:', error);
+  }
+}
+
+/**
+ * Ask for notification permission (and create the Android channel)
+ */
+export async function requestReminderPermission(): Promise<boolean> {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Garbage collection reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+/**
+ * Cancel every garbage reminder scheduled by this service
+ * (other scheduled notifications are left untouched)
+ */
+export async function cancelGarbageReminders(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(notification => notification.content.data?.type === REMINDER_DATA_TYPE)
+      .map(notification => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+  );
+}
+
+/**
+ * Build the reminder text, e.g. "Tomorrow: Burnable Waste + PET Bottles, Designated bag required"
+ * The location label is added to the title when several locations have reminders
+ */
+export function buildReminderMessage(
+  categories: string[],
+  wasteCategories: Record<string, IWasteCategory>,
+  t: ReminderTranslate,
+  locationLabel?: string
+): { title: string; body: string } {
+  const names = categories.map(category => t(category, category)).join(' + ');
+
+  const bagTypes = new Set(
+    categories
+      .map(category => wasteCategories[category]?.bag_requirement?.type)
+      .filter(Boolean)
+  );
+  const bagNotes: string[] = [];
+  if (bagTypes.has('designated')) bagNotes.push(t('designatedBagRequired', 'Designated bag required'));
+  if (bagTypes.has('transparent')) bagNotes.push(t('transparentBagRequired', 'Transparent bag (any brand)'));
+
+  const title = t('garbageReminderTitle', 'Garbage collection tomorrow');
+  return {
+    title: locationLabel ? `${title} (${locationLabel})` : title,
+    body: [`${t('tomorrow', 'Tomorrow')}: ${names}`, ...bagNotes].join(', '),
+  };
+}
+
+/**
+ * Days that should trigger a reminder, with muted categories removed
+ */
+export function getReminderDays(
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  districtId: string | null,
+  settings: IReminderSettings,
+  from: Date = new Date(),
+  lookaheadDays: number = REMINDER_LOOKAHEAD_DAYS
+): ICollectionDay[] {
+  // Start from tomorrow: today's collection is already past its reminder time
+  return expandCollectionCalendar(wasteCategories, districtId, addDays(from, 1), lookaheadDays)
+    .map(day => ({
+      ...day,
+      categories: day.categories.filter(category => !settings.mutedCategories.includes(category)),
+    }))
+    .filter(day => day.categories.length > 0);
+}
+
+async function scheduleReminders(t: ReminderTranslate): Promise<number> {
+  await cancelGarbageReminders();
+
+  const { locations } = await loadSavedLocations();
+  const enabledLocations: { location: ISavedLocation; settings: IReminderSettings }[] = [];
+  for (const location of locations) {
+    const settings = await getReminderSettings(location.id);
+    if (settings.enabled) enabledLocations.push({ location, settings });
+  }
+  if (enabledLocations.length === 0) {
+    return 0;
+  }
+
+  const hasPermission = await requestReminderPermission();
+  if (!hasPermission) {
+    console.warn('Notification permission not granted, skipping garbage reminders');
+    return 0;
+  }
+
+  const now = new Date();
+  const lookaheadDays = Math.max(
+    1,
+    Math.min(REMINDER_LOOKAHEAD_DAYS, Math.floor(MAX_PENDING_REMINDERS / enabledLocations.length))
+  );
+  let scheduledCount = 0;
+
+  for (const { location, settings } of enabledLocations) {
+    // Rules of every saved location come from the per-city cache
+    const cached = await readCachedRules(location.compositeId);
+    const wasteCategories = cached?.rules.waste_categories;
+    if (!wasteCategories) continue;
+
+    const locationLabel = enabledLocations.length > 1 ? location.label : undefined;
+
+    for (const day of getReminderDays(wasteCategories, location.districtId, settings, now, lookaheadDays)) {
+      const previousDay = addDays(day.date, -1);
+      const triggerDate = new Date(
+        previousDay.getFullYear(),
+        previousDay.getMonth(),
+        previousDay.getDate(),
+        settings.hour,
+        settings.minute
+      );
+      if (triggerDate <= now) continue;
+
+      const { title, body } = buildReminderMessage(day.categories, wasteCategories, t, locationLabel);
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title,
+          body,
+          data: {
+            type: REMINDER_DATA_TYPE,
+            locationId: location.id,
+            dateKey: day.dateKey,
+            categories: day.categories,
+          },
+        },
+        trigger: { channelId: REMINDER_CHANNEL_ID, date: triggerDate },
+      });
+      scheduledCount++;
+    }
+  }
+
+  console.log(`Scheduled ${scheduledCount} garbage reminders for ${enabledLocations.length} location(s)`);
+  return scheduledCount;
+}
+
+/**
+ * Recompute the reminders of every saved location
+ * Call whenever saved locations, cached rules or reminder settings change
+ */
+export function rescheduleGarbageReminders(t: ReminderTranslate): Promise<number> {
+  const next = rescheduleQueue
+    .catch(() => undefined)
+    .then(() => scheduleReminders(t));
+  rescheduleQueue = next;
+  return next;
+}
@@ -0,0 +1,326 @@
+// services/itemSearchService.ts
+// Fuzzy, multilingual search over the items of the loaded garbage rules
+
+import type { i18n as I18n } from 'i18next';
+import { GARBAGE_SYNONYM_GROUPS } from '../constants/garbageSynonyms';
+import { IWasteCategory } from '../types/garbageRules';
+
+// One searchable form of an item (original name, a translation or a synonym)
+interface ISearchTerm {
+  text: string; // normalized text (hiragana, folded width, no diacritics)
+  romaji: string; // canonical romaji of `text` (latin text stays as is)
+  weight: number;
+}
+
+export interface IItemSearchEntry {
+  id: string;
+  category: string;
+  item: string;
+  terms: ISearchTerm[];
+}
+
+export interface IItemSearchMatch {
+  entry: IItemSearchEntry;
+  score: number;
+}
+
+// Relative importance of each term source
+const WEIGHT_ORIGINAL = 1;
+const WEIGHT_TRANSLATION = 0.95;
+const WEIGHT_SYNONYM = 0.85;
+
+const MIN_SCORE = 20;
+const DEFAULT_RESULT_LIMIT = 50;
+
+// ============================================
+// TEXT NORMALIZATION
+// ============================================
+
+// Hiragana → canonical (Kunrei-style) romaji; Hepburn input is folded to the same form
+const KANA_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'さ': 'sa', 'し': 'si', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'た': 'ta', 'ち': 'ti', 'つ': 'tu', 'て': 'te', 'と': 'to',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'hu', 'へ': 'he', 'ほ': 'ho',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'を': 'o', 'ん': 'n',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'ざ': 'za', 'じ': 'zi', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'だ': 'da', 'ぢ': 'zi', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ゔ': 'bu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+};
+
+// Small ya/yu/yo combine with the preceding i-row kana (きゃ → kya, しゃ → sya)
+const SMALL_Y: Record<string, string> = { 'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo' };
+
+// Small vowels replace the vowel of the preceding kana in loanwords (てぃ → ti, ふぁ → ha)
+const SMALL_VOWELS: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o' };
+
+// Hepburn → canonical romaji, applied to latin input and to the kana conversion output
+const ROMAJI_FOLDS: [RegExp, string][] = [
+  [/tch/g, 'tt'],
+  [/shi/g, 'si'],
+  [/chi/g, 'ti'],
+  [/tsu/g, 'tu'],
+  [/fu/g, 'hu'],
+  [/ji/g, 'zi'],
+  [/sh/g, 'sy'],
+  [/ch/g, 'ty'],
+  [/j/g, 'zy'],
+  [/m(?=[bp])/g, 'n'],
+  [/ou/g, 'o'],
+  [/([aiueo])\1+/g, '$1'],
+  [/[-ー]/g, ''],
+];
+
+/**
+ * Normalize text for matching:
+ * - NFKC folds full-width latin/digits and half-width katakana (ﾍﾟｯﾄ → ペット)
+ * - lower case, latin diacritics removed (chai nhựa → chai nhua)
+ * - katakana → hiragana
+ * - whitespace and punctuation removed
+ */
+export function normalizeSearchText(text: string): string {
+  if (!text) return '';
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/đ/g, 'd')
+    .replace(/[ァ-ヶ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60))
+    .replace(/[\s・、。,.\/()（）「」『』【】\[\]'"!?！？:：;；~〜_]/g, '');
+}
+
+/**
+ * Convert normalized text (hiragana + latin) to canonical romaji
+ * Kanji and other scripts are kept as is
+ */
+export function toCanonicalRomaji(normalized: string): string {
+  let result = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const ch = normalized[i];
+    const next = normalized[i + 1];
+
+    if (ch === 'っ') {
+      // Sokuon: double the first consonant of the following kana
+      const following = next ? KANA_ROMAJI[next] : undefined;
+      if (following) result += following[0];
+      continue;
+    }
+
+    const romaji = KANA_ROMAJI[ch];
+    if (romaji === undefined) {
+      result += ch;
+      continue;
+    }
+
+    if (next && SMALL_Y[next] && romaji.endsWith('i') && romaji.length > 1) {
+      result += romaji.slice(0, -1) + SMALL_Y[next];
+      i++;
+      continue;
+    }
+
+    if (next && SMALL_VOWELS[next] && romaji.length > 1) {
+      result += romaji.slice(0, -1) + SMALL_VOWELS[next];
+      i++;
+      continue;
+    }
+
+    result += romaji;
+  }
+
+  return ROMAJI_FOLDS.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), result);
+}
+
+function makeTerm(text: string, weight: number): ISearchTerm | null {
+  const normalized = normalizeSearchText(text);
+  if (!normalized) return null;
+  return { text: normalized, romaji: toCanonicalRomaji(normalized), weight };
+}
+
+// ============================================
+// FUZZY MATCHING
+// ============================================
+
+/**
+ * Smallest edit distance (with transpositions) between `pattern` and any
+ * substring of `text`. Returns early once every cell exceeds `maxDistance`.
+ */
+export function fuzzySubstringDistance(pattern: string, text: string, maxDistance: number): number {
+  const m = pattern.length;
+  const n = text.length;
+  if (m === 0) return 0;
+
+  // prevPrev/prev/current rows over the text; row 0 is all zeros (match may start anywhere)
+  let prevPrev: number[] = new Array(n + 1).fill(0);
+  let prev: number[] = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= m; i++) {
+    const current: number[] = new Array(n + 1);
+    current[0] = i;
+    let rowMin = current[0];
+
+    for (let j = 1; j <= n; j++) {
+      const cost = pattern[i - 1] === text[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && pattern[i - 1] === text[j - 2] && pattern[i - 2] === text[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      if (value < rowMin) rowMin = value;
+    }
+
+    if (rowMin > maxDistance) return rowMin;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return Math.min(...prev);
+}
+
+// Allowed typos grow with the query length
+function allowedTypos(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+function scoreForm(query: string, target: string): number {
+  if (!query || !target) return 0;
+  if (target === query) return 100;
+  if (target.startsWith(query)) return 85 - Math.min(10, target.length - query.length);
+  if (target.includes(query)) return 70 - Math.min(10, target.length - query.length);
+
+  const maxTypos = allowedTypos(query.length);
+  if (maxTypos === 0) return 0;
+  const distance = fuzzySubstringDistance(query, target, maxTypos);
+  return distance <= maxTypos ? 50 - distance * 15 : 0;
+}
+
+function scoreTerm(queryTerm: ISearchTerm, term: ISearchTerm): number {
+  return Math.max(
+    scoreForm(queryTerm.text, term.text),
+    scoreForm(queryTerm.romaji, term.romaji)
+  ) * term.weight;
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// Pre-normalized synonym groups (built once)
+const SYNONYM_INDEX: ISearchTerm[][] = GARBAGE_SYNONYM_GROUPS.map(group =>
+  group.map(term => makeTerm(term, WEIGHT_SYNONYM)).filter((term): term is ISearchTerm => !!term)
+);
+
+/**
+ * Synonym terms for an item name. CJK synonyms match anywhere in the name
+ * (ペットボトルのキャップ), latin ones only when they are the whole name (so "can"
+ * does not expand "candle").
+ */
+function findSynonyms(itemTerms: ISearchTerm[]): ISearchTerm[] {
+  const synonyms: ISearchTerm[] = [];
+
+  SYNONYM_INDEX.forEach(group => {
+    const matched = group.some(synonym =>
+      itemTerms.some(term =>
+        CJK_PATTERN.test(synonym.text) ? term.text.includes(synonym.text) : term.text === synonym.text
+      )
+    );
+    if (matched) synonyms.push(...group);
+  });
+
+  return synonyms;
+}
+
+/**
+ * Index a plain list of item names under one category key, with the translations
+ * of every loaded locale and the matching synonym groups
+ */
+export function buildItemListSearchIndex(
+  categoryKey: string,
+  items: string[],
+  i18n: I18n
+): IItemSearchEntry[] {
+  const languages = Object.keys(i18n.store?.data || {});
+  const entries: IItemSearchEntry[] = [];
+
+  items.forEach(item => {
+    if (typeof item !== 'string' || !item) return;
+
+    const terms: ISearchTerm[] = [];
+    const seen = new Set<string>();
+    const addTerm = (term: ISearchTerm | null) => {
+      if (!term || seen.has(term.text)) return;
+      seen.add(term.text);
+      terms.push(term);
+    };
+
+    addTerm(makeTerm(item, WEIGHT_ORIGINAL));
+    languages.forEach(lng => {
+      const translated = i18n.t(item, { lng, defaultValue: item });
+      if (typeof translated === 'string') addTerm(makeTerm(translated, WEIGHT_TRANSLATION));
+    });
+    findSynonyms([...terms]).forEach(addTerm);
+
+    entries.push({
+      id: `${categoryKey}-${item}`,
+      category: categoryKey,
+      item,
+      terms,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Build the search index from each category's `items`
+ */
+export function buildItemSearchIndex(
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  i18n: I18n
+): IItemSearchEntry[] {
+  if (!wasteCategories) return [];
+
+  return Object.entries(wasteCategories).flatMap(([categoryKey, categoryData]) =>
+    categoryData && Array.isArray(categoryData.items)
+      ? buildItemListSearchIndex(categoryKey, categoryData.items, i18n)
+      : []
+  );
+}
+
+/**
+ * Search the index, best matches first
+ */
+export function searchItems(
+  index: IItemSearchEntry[],
+  query: string,
+  limit: number = DEFAULT_RESULT_LIMIT
+): IItemSearchMatch[] {
+  const queryTerm = makeTerm(query, 1);
+  if (!queryTerm) return [];
+
+  const matches: IItemSearchMatch[] = [];
+
+  index.forEach(entry => {
+    const score = entry.terms.reduce((best, term) => Math.max(best, scoreTerm(queryTerm, term)), 0);
+    if (score >= MIN_SCORE) matches.push({ entry, score });
+  });
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.entry.item.length - b.entry.item.length)
+    .slice(0, limit);
+}
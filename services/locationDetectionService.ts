@@ -0,0 +1,348 @@
+// services/locationDetectionService.ts
+// Resolve the device position or a postcode to a municipality document and schedule_group_id
+
+import * as Location from 'expo-location';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where
+} from 'firebase/firestore';
+import { db } from '../firebase/firebaseConfig';
+import { IDistrictCandidate, ILocationDetectionResult } from '../types/locations';
+
+// Firestore table of district centroids:
+// { geohash, lat, lng, municipality_id, prefecture_romaji, schedule_group_id, postal_code? }
+const CENTROIDS_COLLECTION = 'district_centroids';
+
+// 5 characters ≈ 4.9 km x 4.9 km cells; the 3x3 neighbourhood covers ~7 km around the user
+const GEOHASH_PRECISION = 5;
+const MAX_CANDIDATES = 5;
+
+// Two districts closer than this (or within this ratio) are considered ambiguous
+const AMBIGUOUS_DISTANCE_KM = 0.3;
+const AMBIGUOUS_RATIO = 1.5;
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+// ============================================
+// GEO HELPERS
+// ============================================
+
+export function encodeGeohash(lat: number, lng: number, precision: number = GEOHASH_PRECISION): string {
+  let latRange = [-90, 90];
+  let lngRange = [-180, 180];
+  let hash = '';
+  let bit = 0;
+  let charIndex = 0;
+  let isLngBit = true;
+
+  while (hash.length < precision) {
+    const range = isLngBit ? lngRange : latRange;
+    const value = isLngBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (value >= mid) {
+      charIndex = (charIndex << 1) | 1;
+      range[0] = mid;
+    } else {
+      charIndex = charIndex << 1;
+      range[1] = mid;
+    }
+
+    isLngBit = !isLngBit;
+    if (++bit === 5) {
+      hash += GEOHASH_BASE32[charIndex];
+      bit = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * The cell of the point plus its 8 neighbours (computed from the cell size)
+ */
+export function geohashNeighbourhood(lat: number, lng: number, precision: number = GEOHASH_PRECISION): string[] {
+  const lngBits = Math.ceil((precision * 5) / 2);
+  const latBits = Math.floor((precision * 5) / 2);
+  const cellHeight = 180 / Math.pow(2, latBits);
+  const cellWidth = 360 / Math.pow(2, lngBits);
+
+  const hashes = new Set<string>();
+  [-1, 0, 1].forEach(dLat => {
+    [-1, 0, 1].forEach(dLng => {
+      const neighbourLat = Math.max(-89.999, Math.min(89.999, lat + dLat * cellHeight));
+      const neighbourLng = ((lng + dLng * cellWidth + 540) % 360) - 180;
+      hashes.add(encodeGeohash(neighbourLat, neighbourLng, precision));
+    });
+  });
+  return Array.from(hashes);
+}
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// ============================================
+// POSITION
+// ============================================
+
+/**
+ * Ask for permission and read the current position (coarse accuracy is enough)
+ * Throws i18n keys: errorLocationPermissionDenied, errorLocationUnavailable
+ */
+export async function getCurrentCoordinates(): Promise<{ lat: number; lng: number }> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    throw new Error('errorLocationPermissionDenied');
+  }
+
+  try {
+    const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+    return { lat: position.coords.latitude, lng: position.coords.longitude };
+  } catch (error) {
+    console.error('Error reading current position:', error);
+    // Last known position works offline and indoors
+    const lastKnown = await Location.getLastKnownPositionAsync();
+    if (lastKnown) {
+      return { lat: lastKnown.coords.latitude, lng: lastKnown.coords.longitude };
+    }
+    throw new Error('errorLocationUnavailable');
+  }
+}
+
+// ============================================
+// POSTCODE
+// ============================================
+
+/**
+ * Normalize user input to the 7-digit form stored in `postal_codes`.
+ * Accepts full-width digits, a 〒 prefix, spaces and any dash variant
+ * ("〒５００－８７０１" → "5008701"). Returns null if it is not a postcode.
+ */
+export function normalizePostcode(input: string): string | null {
+  const stripped = input
+    .normalize('NFKC')
+    .replace(/^\s*〒/, '')
+    .replace(/[\s\-\u2010-\u2015\u2212\u30FC]/g, '');
+  return /^\d{7}$/.test(stripped) ? stripped : null;
+}
+
+/**
+ * Every municipality/district pair served by a postcode. A code can span several
+ * schedule groups and even several municipalities, so nothing is picked here.
+ * Municipalities listing the code without a matching district get a city-level
+ * entry (scheduleGroupId null) so the user chooses the district manually.
+ */
+export async function findDistrictsByPostcode(
+  postcode: string,
+  language: string,
+  labelsCache: Map<string, IMunicipalityLabels | null> = new Map()
+): Promise<IDistrictCandidate[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'municipalities'),
+    where('postal_codes', 'array-contains', postcode)
+  ));
+
+  const candidates: IDistrictCandidate[] = [];
+  snapshot.docs.forEach(docSnap => {
+    const labels = toMunicipalityLabels(docSnap.id, docSnap.data(), language);
+    labelsCache.set(docSnap.id, labels);
+
+    const matching = Array.from(labels.districtPostalCodes.entries())
+      .filter(([, districtPostcodes]) => districtPostcodes.includes(postcode))
+      .map(([scheduleGroupId]) => scheduleGroupId);
+
+    const base = {
+      municipalityId: docSnap.id,
+      prefecture: labels.prefecture,
+      cityLabel: labels.cityLabel,
+      postalCode: postcode,
+      distanceKm: 0,
+    };
+    if (matching.length === 0) {
+      candidates.push({ ...base, scheduleGroupId: null, label: labels.cityLabel });
+      return;
+    }
+    matching.forEach(scheduleGroupId => {
+      candidates.push({
+        ...base,
+        scheduleGroupId,
+        label: labels.districtLabels.get(scheduleGroupId) || scheduleGroupId,
+      });
+    });
+  });
+
+  return candidates.sort(
+    (a, b) => a.cityLabel.localeCompare(b.cityLabel) || a.label.localeCompare(b.label)
+  );
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+interface IMunicipalityLabels {
+  cityLabel: string;
+  districtLabels: Map<string, string>;
+  districtPostalCodes: Map<string, string[]>; // Every district of a schedule group has its own postcode
+  prefecture: string;
+}
+
+function toMunicipalityLabels(municipalityId: string, data: any, language: string): IMunicipalityLabels {
+  const districts: any[] = data.districts || [];
+  const labels: IMunicipalityLabels = {
+    cityLabel: language === 'ja' && districts.length > 0 ? districts[0].city_kanji : municipalityId,
+    districtLabels: new Map(),
+    districtPostalCodes: new Map(),
+    prefecture: data.prefecture_romaji,
+  };
+  districts.forEach(district => {
+    const groupId = district.schedule_group_id;
+    if (!groupId) return;
+    if (district.postal_code) {
+      const postcode = normalizePostcode(district.postal_code) || district.postal_code;
+      const groupPostcodes = labels.districtPostalCodes.get(groupId) || [];
+      if (!groupPostcodes.includes(postcode)) {
+        labels.districtPostalCodes.set(groupId, [...groupPostcodes, postcode]);
+      }
+    }
+    // The label comes from the first district of the group
+    if (labels.districtLabels.has(groupId)) return;
+    labels.districtLabels.set(groupId, (language === 'ja' ? district.name_kanji : district.name) || groupId);
+  });
+  return labels;
+}
+
+async function loadMunicipalityLabels(
+  municipalityId: string,
+  language: string,
+  cache: Map<string, IMunicipalityLabels | null>
+): Promise<IMunicipalityLabels | null> {
+  if (cache.has(municipalityId)) return cache.get(municipalityId) || null;
+
+  const snap = await getDoc(doc(db, 'municipalities', municipalityId));
+  if (!snap.exists()) {
+    cache.set(municipalityId, null);
+    return null;
+  }
+
+  const labels = toMunicipalityLabels(snap.id, snap.data(), language);
+  cache.set(municipalityId, labels);
+  return labels;
+}
+
+function isAmbiguous(candidates: IDistrictCandidate[]): boolean {
+  if (candidates.length < 2) return false;
+  const [first, second] = candidates;
+  if (first.municipalityId !== second.municipalityId) return true;
+  return second.distanceKm - first.distanceKm < AMBIGUOUS_DISTANCE_KM
+    || second.distanceKm <= first.distanceKm * AMBIGUOUS_RATIO;
+}
+
+/**
+ * Nearest districts from the centroid table (one entry per schedule_group_id)
+ */
+async function findNearbyCentroids(
+  lat: number,
+  lng: number,
+  language: string,
+  labelsCache: Map<string, IMunicipalityLabels | null>
+): Promise<IDistrictCandidate[]> {
+  const snapshots = await Promise.all(
+    geohashNeighbourhood(lat, lng).map(prefix =>
+      getDocs(query(
+        collection(db, CENTROIDS_COLLECTION),
+        where('geohash', '>=', prefix),
+        where('geohash', '<', `${prefix}~`)
+      ))
+    )
+  );
+
+  const nearestByDistrict = new Map<string, { data: any; distanceKm: number }>();
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach(docSnap => {
+      const data = docSnap.data();
+      if (typeof data.lat !== 'number' || typeof data.lng !== 'number') return;
+      const key = `${data.municipality_id}/${data.schedule_group_id}`;
+      const distanceKm = haversineKm(lat, lng, data.lat, data.lng);
+      const existing = nearestByDistrict.get(key);
+      if (!existing || distanceKm < existing.distanceKm) {
+        nearestByDistrict.set(key, { data, distanceKm });
+      }
+    });
+  });
+
+  const nearest = Array.from(nearestByDistrict.values())
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, MAX_CANDIDATES);
+
+  const candidates: IDistrictCandidate[] = [];
+  for (const { data, distanceKm } of nearest) {
+    const labels = await loadMunicipalityLabels(data.municipality_id, language, labelsCache);
+    if (!labels) continue;
+    candidates.push({
+      municipalityId: data.municipality_id,
+      prefecture: data.prefecture_romaji || labels.prefecture,
+      scheduleGroupId: data.schedule_group_id,
+      label: labels.districtLabels.get(data.schedule_group_id) || data.schedule_group_id,
+      cityLabel: labels.cityLabel,
+      postalCode: data.postal_code || labels.districtPostalCodes.get(data.schedule_group_id)?.[0],
+      distanceKm,
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Fallback when no centroid is close enough: OS reverse geocoding to a postcode,
+ * then the same lookup as the manual postcode search
+ */
+async function findByReverseGeocodedPostcode(
+  lat: number,
+  lng: number,
+  language: string,
+  labelsCache: Map<string, IMunicipalityLabels | null>
+): Promise<IDistrictCandidate[]> {
+  const addresses = await Location.reverseGeocodeAsync({ latitude: lat, longitude: lng });
+  const postcode = normalizePostcode(addresses.find(a => a.postalCode)?.postalCode || '');
+  if (!postcode) return [];
+  return findDistrictsByPostcode(postcode, language, labelsCache);
+}
+
+/**
+ * Detect the municipality and district of the current position
+ * Throws i18n keys: errorLocationPermissionDenied, errorLocationUnavailable, errorLocationNotSupported
+ */
+export async function detectDistrictFromPosition(language: string): Promise<ILocationDetectionResult> {
+  const { lat, lng } = await getCurrentCoordinates();
+  const labelsCache = new Map<string, IMunicipalityLabels | null>();
+
+  let candidates = await findNearbyCentroids(lat, lng, language, labelsCache);
+  let ambiguous = isAmbiguous(candidates);
+
+  if (candidates.length === 0) {
+    try {
+      candidates = await findByReverseGeocodedPostcode(lat, lng, language, labelsCache);
+    } catch (error) {
+      // Reverse geocoding needs the network on Android
+      console.warn('Reverse geocoding failed:', error);
+    }
+    ambiguous = candidates.length > 1;
+  }
+
+  if (candidates.length === 0) {
+    throw new Error('errorLocationNotSupported');
+  }
+
+  return { candidates, isAmbiguous: ambiguous };
+}
@@ -0,0 +1,166 @@
+// services/productLookupService.ts
+// Barcode (JAN/EAN) lookup and recycling marks: packaging materials → the municipality's waste categories
+
+import { doc, getDoc } from 'firebase/firestore';
+import type { i18n as I18n } from 'i18next';
+import { db } from '../firebase/firebaseConfig';
+import { IWasteCategory } from '../types/garbageRules';
+import {
+  IBarcodeLookupResult,
+  IProductPartDisposal,
+  IProductRecord,
+  TPackagingMaterial,
+} from '../types/products';
+import type { RecyclingMarkDetection } from './geminiService';
+import { buildItemSearchIndex, IItemSearchEntry, searchItems } from './itemSearchService';
+
+// Community-maintained table, one document per JAN code
+const PRODUCTS_COLLECTION = 'product_materials';
+
+// An item of the city's list is used for a material above this score
+const ITEM_MATCH_SCORE = 80;
+
+// Category keys used by the rules documents for each material, most specific first
+const MATERIAL_CATEGORY_KEYS: Record<TPackagingMaterial, string[]> = {
+  pet: ['pet_bottles', 'pet', 'plastic_bottles', 'recyclables'],
+  plastic: ['plastic', 'plastic_packaging', 'plastics'],
+  paper: ['paper', 'paper_packaging', 'recyclable_paper', 'recyclables'],
+  paper_carton: ['paper_packs', 'milk_cartons', 'paper', 'recyclables'],
+  aluminum_can: ['cans', 'cans_bottles', 'recyclables'],
+  steel_can: ['cans', 'cans_bottles', 'recyclables'],
+  glass: ['glass_bottles', 'bottles', 'cans_bottles', 'recyclables'],
+  metal: ['metal', 'non_burnable'],
+  burnable: ['burnable', 'combustible'],
+  other: [],
+};
+
+// Names searched in the city's item lists when no category key matches
+const MATERIAL_SEARCH_TERMS: Record<TPackagingMaterial, string> = {
+  pet: 'ペットボトル',
+  plastic: 'プラスチック製容器包装',
+  paper: '紙製容器包装',
+  paper_carton: '紙パック',
+  aluminum_can: '缶',
+  steel_can: '缶',
+  glass: 'びん',
+  metal: '金属',
+  burnable: '可燃ごみ',
+  other: '',
+};
+
+// Results for this session, a miss is cached as null
+const productCache = new Map<string, IProductRecord | null>();
+
+// ============================================
+// JAN CODE
+// ============================================
+
+/**
+ * Validate the GS1 check digit of an 8 or 13 digit code
+ */
+function hasValidCheckDigit(code: string): boolean {
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  // From the right: weights 3, 1, 3, 1... (excluding the check digit)
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Normalize a scanned code to JAN-8 / JAN-13, null when it is not a valid product code.
+ * UPC-A (12 digits, imported goods) is the same code as EAN-13 with a leading zero.
+ */
+export function normalizeJanCode(raw: string): string | null {
+  const digits = (raw || '').replace(/\D/g, '');
+  const code = digits.length === 12 ? `0${digits}` : digits;
+  if (code.length !== 8 && code.length !== 13) return null;
+  return hasValidCheckDigit(code) ? code : null;
+}
+
+// ============================================
+// PRODUCT TABLE
+// ============================================
+
+/**
+ * Product document for a JAN code, null when the table has no entry
+ */
+export async function lookupProductByJan(jan: string): Promise<IProductRecord | null> {
+  if (productCache.has(jan)) {
+    return productCache.get(jan)!;
+  }
+
+  const snapshot = await getDoc(doc(db, PRODUCTS_COLLECTION, jan));
+  const data = snapshot.exists() ? (snapshot.data() as Omit<IProductRecord, 'jan'>) : null;
+  const product = data && Array.isArray(data.parts) && data.parts.length > 0
+    ? { ...data, jan }
+    : null;
+
+  productCache.set(jan, product);
+  return product;
+}
+
+// ============================================
+// MATERIAL → CATEGORY
+// ============================================
+
+/**
+ * Category of the current municipality for a packaging material:
+ * known category keys first, then the city's own item lists
+ */
+export function resolveMaterialCategory(
+  material: TPackagingMaterial,
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  searchIndex: IItemSearchEntry[]
+): string | null {
+  if (!wasteCategories) return null;
+
+  const categoryKey = (MATERIAL_CATEGORY_KEYS[material] || []).find(key => !!wasteCategories[key]);
+  if (categoryKey) return categoryKey;
+
+  const searchTerm = MATERIAL_SEARCH_TERMS[material];
+  if (!searchTerm) return null;
+
+  const [bestMatch] = searchItems(searchIndex, searchTerm, 1);
+  return bestMatch && bestMatch.score >= ITEM_MATCH_SCORE ? bestMatch.entry.category : null;
+}
+
+/**
+ * Look up a scanned barcode and map each part of the product to a category.
+ * Returns null on a miss (unknown code or no entry), the caller falls back to the image AI.
+ */
+export async function lookupBarcode(
+  rawCode: string,
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  i18n: I18n
+): Promise<IBarcodeLookupResult | null> {
+  const jan = normalizeJanCode(rawCode);
+  if (!jan) return null;
+
+  const product = await lookupProductByJan(jan);
+  if (!product) return null;
+
+  const searchIndex = buildItemSearchIndex(wasteCategories, i18n);
+  const parts: IProductPartDisposal[] = product.parts.map(part => ({
+    ...part,
+    category: resolveMaterialCategory(part.material, wasteCategories, searchIndex),
+  }));
+
+  return { jan, product, parts };
+}
+
+/**
+ * Map the parts read in recycling-mark mode to the current municipality's categories
+ */
+export function mapRecyclingMarksToCategories(
+  parts: RecyclingMarkDetection[],
+  wasteCategories: Record<string, IWasteCategory> | undefined,
+  i18n: I18n
+): (RecyclingMarkDetection & { category: string | null })[] {
+  const searchIndex = buildItemSearchIndex(wasteCategories, i18n);
+  return parts.map(part => ({
+    ...part,
+    category: resolveMaterialCategory(part.material, wasteCategories, searchIndex),
+  }));
+}
@@ -0,0 +1,184 @@
+// services/rulesCacheService.ts
+// Offline-first, versioned cache of the garbage rules documents
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  collection,
+  documentId as fsDocumentId,
+  getDocs,
+  query,
+  where
+} from 'firebase/firestore';
+import { TARGET_COLLECTION } from '../config';
+import { db } from '../firebase/firebaseConfig';
+import { ICachedRules, IRulesData } from '../types/garbageRules';
+
+export const RULES_STORAGE_KEY = '@garbageRulesData_';
+
+// Bump when the cache entry layout changes; older entries are revalidated immediately
+const CACHE_SCHEMA_VERSION = 2;
+
+// Don't hit Firestore on every app start, rules change a few times a year at most
+const REVALIDATE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// ============================================
+// VERSION HELPERS
+// ============================================
+
+/**
+ * Convert the `updated_at` field (Timestamp, serialized Timestamp, ISO string or ms) to epoch ms
+ */
+export function toEpochMillis(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+  if (typeof value === 'object') {
+    const timestamp = value as { toMillis?: () => number; seconds?: number; _seconds?: number };
+    if (typeof timestamp.toMillis === 'function') return timestamp.toMillis();
+    const seconds = timestamp.seconds ?? timestamp._seconds;
+    if (typeof seconds === 'number') return seconds * 1000;
+  }
+  return null;
+}
+
+function buildCacheEntry(rules: IRulesData): ICachedRules {
+  return {
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    rules,
+    version: rules.version ?? null,
+    updatedAt: toEpochMillis(rules.updated_at),
+    cachedAt: Date.now(),
+  };
+}
+
+/**
+ * Whether the remote rules differ from the cached copy.
+ * Uses `version` / `updated_at` when the document carries them, the content otherwise.
+ */
+export function hasRulesChanged(cached: ICachedRules, remote: IRulesData): boolean {
+  const remoteVersion = remote.version ?? null;
+  const remoteUpdatedAt = toEpochMillis(remote.updated_at);
+
+  if (remoteVersion !== null || remoteUpdatedAt !== null) {
+    return remoteVersion !== cached.version || remoteUpdatedAt !== cached.updatedAt;
+  }
+  return JSON.stringify(remote) !== JSON.stringify(cached.rules);
+}
+
+// ============================================
+// CACHE
+// ============================================
+
+/**
+ * Read the cached rules of a municipality.
+ * Legacy entries (raw rules object) are wrapped and marked for immediate revalidation.
+ */
+export async function readCachedRules(compositeId: string): Promise<ICachedRules | null> {
+  try {
+    const json = await AsyncStorage.getItem(RULES_STORAGE_KEY + compositeId);
+    if (!json) return null;
+
+    const parsed = JSON.parse(json);
+    if (parsed?.schemaVersion === CACHE_SCHEMA_VERSION && parsed.rules?.waste_categories) {
+      return parsed as ICachedRules;
+    }
+
+    if (parsed?.waste_categories) {
+      return { ...buildCacheEntry(parsed as IRulesData), cachedAt: 0 };
+    }
+
+    // Unreadable entry: drop only this key
+    await invalidateCachedRules(compositeId);
+    return null;
+  } catch (error) {
+    console.error('Error reading cached rules:', error);
+    await invalidateCachedRules(compositeId);
+    return null;
+  }
+}
+
+export async function writeCachedRules(compositeId: string, rules: IRulesData): Promise<ICachedRules> {
+  const entry = buildCacheEntry(rules);
+  await AsyncStorage.setItem(RULES_STORAGE_KEY + compositeId, JSON.stringify(entry));
+  return entry;
+}
+
+/**
+ * Remove the cached rules of one municipality (never the whole storage)
+ */
+export async function invalidateCachedRules(compositeId: string): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(RULES_STORAGE_KEY + compositeId);
+  } catch (error) {
+    console.error('Error invalidating cached rules:', error);
+  }
+}
+
+export function shouldRevalidate(cached: ICachedRules, now: number = Date.now()): boolean {
+  return now - cached.cachedAt >= REVALIDATE_INTERVAL_MS;
+}
+
+// ============================================
+// FIRESTORE
+// ============================================
+
+/**
+ * Fetch the rules document of a municipality from Firestore
+ * Throws `errorRuleNotFound` / `errorInvalidRules` (i18n keys) like the screen expects
+ */
+export async function fetchRemoteRules(compositeId: string): Promise<IRulesData> {
+  const q = query(
+    collection(db, TARGET_COLLECTION),
+    where(fsDocumentId(), "==", compositeId)
+  );
+  const querySnap = await getDocs(q);
+
+  if (querySnap.empty) {
+    throw new Error('errorRuleNotFound');
+  }
+
+  const rulesData = querySnap.docs[0].data() as IRulesData;
+  if (!rulesData.waste_categories) {
+    throw new Error('errorInvalidRules');
+  }
+  return rulesData;
+}
+
+/**
+ * Fetch from Firestore and store in the cache
+ */
+export async function refreshRules(compositeId: string): Promise<ICachedRules> {
+  const rules = await fetchRemoteRules(compositeId);
+  return writeCachedRules(compositeId, rules);
+}
+
+/**
+ * Stale-while-revalidate: refresh in the background and report whether anything changed.
+ * Network errors keep the cached copy (offline-first) and resolve to null.
+ */
+export async function revalidateRules(
+  compositeId: string,
+  cached: ICachedRules
+): Promise<ICachedRules | null> {
+  try {
+    const remote = await fetchRemoteRules(compositeId);
+    if (!hasRulesChanged(cached, remote)) {
+      // Same rules: only bump cachedAt so we don't re-check too soon
+      const touched = { ...cached, cachedAt: Date.now() };
+      await AsyncStorage.setItem(RULES_STORAGE_KEY + compositeId, JSON.stringify(touched));
+      return null;
+    }
+    console.log(`Rules updated for ${compositeId} (version ${remote.version ?? 'n/a'})`);
+    return writeCachedRules(compositeId, remote);
+  } catch (error: any) {
+    if (error?.message === 'errorRuleNotFound') {
+      // The municipality was removed server-side: the cached copy is no longer valid
+      await invalidateCachedRules(compositeId);
+    }
+    console.warn('Background rules refresh failed, keeping cached rules:', error?.message || error);
+    return null;
+  }
+}
@@ -0,0 +1,193 @@
+// services/savedLocationsService.ts
+// Saved locations: local persistence plus sync with the user's Firestore profile
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { db } from '../firebase/firebaseConfig';
+import { ISavedLocation, ISavedLocationInput, ISavedLocationsState } from '../types/locations';
+
+const SAVED_LOCATIONS_KEY = '@savedLocations_v1';
+
+// Single location key used before saved locations existed (migrated once)
+const LEGACY_LOCATION_KEY = '@userSelectedLocation_v2';
+
+export const EMPTY_SAVED_LOCATIONS: ISavedLocationsState = {
+  locations: [],
+  activeLocationId: null,
+  updatedAt: 0,
+};
+
+function generateLocationId(): string {
+  return `loc_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createSavedLocation(input: ISavedLocationInput, fallbackLabel: string): ISavedLocation {
+  const now = Date.now();
+  return {
+    id: generateLocationId(),
+    label: input.label?.trim() || fallbackLabel,
+    locationString: input.locationString,
+    compositeId: input.compositeId,
+    districtId: input.districtId,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function isValidLocation(location: any): location is ISavedLocation {
+  return !!location
+    && typeof location.id === 'string'
+    && typeof location.compositeId === 'string'
+    && typeof location.districtId === 'string'
+    && typeof location.locationString === 'string';
+}
+
+// ============================================
+// LOCAL STORAGE
+// ============================================
+
+/**
+ * Load saved locations from AsyncStorage.
+ * On first run, the legacy single location is migrated into a "Home" entry.
+ */
+export async function loadSavedLocations(defaultLabel: string = 'Home'): Promise<ISavedLocationsState> {
+  try {
+    const json = await AsyncStorage.getItem(SAVED_LOCATIONS_KEY);
+    if (json) {
+      const parsed = JSON.parse(json);
+      const locations = (parsed?.locations || []).filter(isValidLocation);
+      const activeLocationId = locations.some((l: ISavedLocation) => l.id === parsed.activeLocationId)
+        ? parsed.activeLocationId
+        : locations[0]?.id ?? null;
+      return {
+        locations,
+        activeLocationId,
+        updatedAt: parsed?.updatedAt || 0,
+        lastSyncedAt: parsed?.lastSyncedAt || 0,
+      };
+    }
+
+    const legacyJson = await AsyncStorage.getItem(LEGACY_LOCATION_KEY);
+    if (legacyJson) {
+      const { locationString, compositeId, districtId } = JSON.parse(legacyJson);
+      if (locationString && compositeId && districtId) {
+        const location = createSavedLocation({ locationString, compositeId, districtId }, defaultLabel);
+        const migrated: ISavedLocationsState = {
+          locations: [location],
+          activeLocationId: location.id,
+          updatedAt: Date.now(),
+        };
+        await saveSavedLocationsLocally(migrated);
+        await AsyncStorage.removeItem(LEGACY_LOCATION_KEY);
+        console.log('Migrated legacy location to saved locations');
+        return migrated;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading saved locations:', error);
+    // Only this key is dropped, other app data stays intact
+    await AsyncStorage.removeItem(SAVED_LOCATIONS_KEY).catch(() => undefined);
+  }
+
+  return EMPTY_SAVED_LOCATIONS;
+}
+
+export async function saveSavedLocationsLocally(state: ISavedLocationsState): Promise<void> {
+  await AsyncStorage.setItem(SAVED_LOCATIONS_KEY, JSON.stringify(state));
+}
+
+// ============================================
+// FIRESTORE PROFILE SYNC
+// ============================================
+
+/**
+ * Read the saved locations stored on `users/{uid}` (null if never synced)
+ */
+export async function loadSavedLocationsFromProfile(
+  userId: string
+): Promise<{ locations: ISavedLocation[]; updatedAt: number } | null> {
+  try {
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    if (!userDoc.exists()) return null;
+
+    const data = userDoc.data();
+    if (!Array.isArray(data.savedLocations)) return null;
+
+    return {
+      locations: data.savedLocations.filter(isValidLocation),
+      updatedAt: data.savedLocationsUpdatedAt || 0,
+    };
+  } catch (error) {
+    console.error('Error loading saved locations from profile:', error);
+    return null;
+  }
+}
+
+/**
+ * Write the saved locations to `users/{uid}` (merge, other profile fields untouched)
+ * Returns false when offline / not permitted, the local copy stays authoritative
+ */
+export async function syncSavedLocationsToProfile(
+  userId: string,
+  state: ISavedLocationsState
+): Promise<boolean> {
+  try {
+    await setDoc(
+      doc(db, 'users', userId),
+      {
+        savedLocations: state.locations,
+        savedLocationsUpdatedAt: state.updatedAt,
+      },
+      { merge: true }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error syncing saved locations to profile:', error);
+    return false;
+  }
+}
+
+/**
+ * Merge local and remote lists: the most recently updated list wins. Locations
+ * only present in the other list are kept if they were created after this device
+ * last synced (added offline / on another device) and dropped otherwise (deleted
+ * on the winning side). The active location stays device-local.
+ */
+export function mergeSavedLocations(
+  local: ISavedLocationsState,
+  remote: { locations: ISavedLocation[]; updatedAt: number }
+): ISavedLocationsState {
+  const remoteWins = remote.updatedAt > local.updatedAt;
+  const [primary, secondary] = remoteWins
+    ? [remote.locations, local.locations]
+    : [local.locations, remote.locations];
+  const lastSyncedAt = local.lastSyncedAt || 0;
+
+  const byId = new Map<string, ISavedLocation>();
+  primary.forEach(location => byId.set(location.id, location));
+  secondary.forEach(location => {
+    const existing = byId.get(location.id);
+    if (!existing) {
+      if (location.createdAt <= lastSyncedAt) return;
+      // Same place saved on both devices under different ids: keep one
+      const duplicate = Array.from(byId.values()).some(
+        l => l.compositeId === location.compositeId && l.districtId === location.districtId && l.label === location.label
+      );
+      if (!duplicate) byId.set(location.id, location);
+    } else if (location.updatedAt > existing.updatedAt) {
+      byId.set(location.id, location);
+    }
+  });
+
+  const locations = Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt);
+  const activeLocationId = locations.some(l => l.id === local.activeLocationId)
+    ? local.activeLocationId
+    : locations[0]?.id ?? null;
+
+  return {
+    locations,
+    activeLocationId,
+    updatedAt: Math.max(local.updatedAt, remote.updatedAt),
+    lastSyncedAt: Date.now(),
+  };
+}
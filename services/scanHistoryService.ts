@@ -0,0 +1,220 @@
+// services/scanHistoryService.ts
+// Scan history written by analyzeGarbageImage, thumbnails, and the user's saved items
+
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, storage } from '../firebase/firebaseConfig';
+import { IScanHistoryEntry, ISavedGarbageItem, TSavedGarbageItemInput } from '../types/scanHistory';
+import { normalizeSearchText } from './itemSearchService';
+import { toEpochMillis } from './rulesCacheService';
+
+// Written by the server (functions/src/garbageFunctions.ts), the app only adds the thumbnail
+const SCAN_HISTORY_COLLECTION = 'scan_history';
+const SAVED_ITEMS_COLLECTION = 'saved_garbage_items';
+const THUMBNAILS_PATH = 'scan_history';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const THUMBNAIL_WIDTH = 320;
+
+// Download URLs for this session, keyed by Storage path
+const thumbnailUrlCache = new Map<string, string>();
+
+function toDate(value: unknown): Date | null {
+  const millis = toEpochMillis(value);
+  return millis === null ? null : new Date(millis);
+}
+
+// ============================================
+// SCAN HISTORY
+// ============================================
+
+/**
+ * Most recent scans first (a repeated scan moves back to the top)
+ */
+export async function getScanHistory(userId: string, maxEntries: number = DEFAULT_HISTORY_LIMIT): Promise<IScanHistoryEntry[]> {
+  const snapshot = await getDocs(query(
+    collection(db, SCAN_HISTORY_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('lastScannedAt', 'desc'),
+    limit(maxEntries)
+  ));
+
+  return snapshot.docs.map(entryDoc => {
+    const data = entryDoc.data();
+    return {
+      ...data,
+      id: entryDoc.id,
+      itemNames: data.itemNames || [],
+      categories: data.categories || [],
+      thumbnailPath: data.thumbnailPath ?? null,
+      imageAspectRatio: data.imageAspectRatio ?? null,
+      scanCount: data.scanCount || 1,
+      createdAt: toDate(data.createdAt),
+      lastScannedAt: toDate(data.lastScannedAt),
+    } as IScanHistoryEntry;
+  });
+}
+
+/**
+ * Store a small copy of the scanned photo for the history list.
+ * Best effort: the history entry is usable without it.
+ */
+export async function attachScanThumbnail(
+  userId: string,
+  historyId: string,
+  imageUri: string,
+  imageAspectRatio: number
+): Promise<void> {
+  try {
+    const thumbnail = await manipulateAsync(
+      imageUri,
+      [{ resize: { width: THUMBNAIL_WIDTH } }],
+      { compress: 0.6, format: SaveFormat.JPEG }
+    );
+    const blob = await (await fetch(thumbnail.uri)).blob();
+    const path = `${THUMBNAILS_PATH}/${userId}/${historyId}.jpg`;
+    await uploadBytes(ref(storage, path), blob, { contentType: 'image/jpeg' });
+    await updateDoc(doc(db, SCAN_HISTORY_COLLECTION, historyId), {
+      thumbnailPath: path,
+      imageAspectRatio,
+    });
+  } catch (error) {
+    console.warn('Error saving scan thumbnail:', error);
+  }
+}
+
+export async function getScanThumbnailUrl(thumbnailPath: string): Promise<string> {
+  const cached = thumbnailUrlCache.get(thumbnailPath);
+  if (cached) return cached;
+
+  const url = await getDownloadURL(ref(storage, thumbnailPath));
+  thumbnailUrlCache.set(thumbnailPath, url);
+  return url;
+}
+
+export async function deleteScanHistoryEntry(entry: IScanHistoryEntry): Promise<void> {
+  await deleteDoc(doc(db, SCAN_HISTORY_COLLECTION, entry.id));
+  if (entry.thumbnailPath) {
+    thumbnailUrlCache.delete(entry.thumbnailPath);
+    await deleteObject(ref(storage, entry.thumbnailPath)).catch(error => {
+      console.warn('Error deleting scan thumbnail:', error);
+    });
+  }
+}
+
+/**
+ * Filter history by item name, category (raw key or its translation) or municipality
+ */
+export function filterScanHistory(
+  entries: IScanHistoryEntry[],
+  searchQuery: string,
+  translate: (key: string) => string
+): IScanHistoryEntry[] {
+  const normalizedQuery = normalizeSearchText(searchQuery);
+  if (!normalizedQuery) return entries;
+
+  return entries.filter(entry => {
+    const fields = [
+      ...entry.itemNames,
+      ...entry.categories,
+      ...entry.categories.map(translate),
+      entry.compositeId,
+    ];
+    return fields.some(field => normalizeSearchText(field).includes(normalizedQuery));
+  });
+}
+
+// ============================================
+// SAVED ITEMS
+// ============================================
+
+// One saved entry per item name and municipality, saving again overwrites it
+function buildSavedItemId(userId: string, compositeId: string, itemName: string): string {
+  const slug = itemName.trim().toLowerCase().replace(/[\s\/.#\[\]]+/g, '_').slice(0, 80);
+  return `${userId}_${compositeId}_${slug}`;
+}
+
+export async function getSavedItems(userId: string): Promise<ISavedGarbageItem[]> {
+  const snapshot = await getDocs(query(
+    collection(db, SAVED_ITEMS_COLLECTION),
+    where('userId', '==', userId),
+    orderBy('savedAt', 'desc')
+  ));
+
+  return snapshot.docs.map(itemDoc => {
+    const data = itemDoc.data();
+    return {
+      ...data,
+      id: itemDoc.id,
+      components: data.components || [],
+      historyId: data.historyId ?? null,
+      savedAt: toDate(data.savedAt),
+    } as ISavedGarbageItem;
+  });
+}
+
+export async function saveGarbageItem(
+  userId: string,
+  compositeId: string,
+  item: TSavedGarbageItemInput,
+  historyId: string | null
+): Promise<ISavedGarbageItem> {
+  const id = buildSavedItemId(userId, compositeId, item.itemName);
+  const savedItem = {
+    id,
+    userId,
+    compositeId,
+    itemName: item.itemName,
+    category: item.category,
+    instructions: item.instructions,
+    additionalInfo: item.additionalInfo ?? null,
+    isBulky: !!item.isBulky,
+    components: item.components || [],
+    historyId,
+  };
+  await setDoc(doc(db, SAVED_ITEMS_COLLECTION, id), { ...savedItem, savedAt: serverTimestamp() });
+  return { ...savedItem, savedAt: new Date() };
+}
+
+export async function removeSavedItem(savedItemId: string): Promise<void> {
+  await deleteDoc(doc(db, SAVED_ITEMS_COLLECTION, savedItemId));
+}
+
+export function findSavedItem(
+  savedItems: ISavedGarbageItem[],
+  compositeId: string,
+  itemName: string
+): ISavedGarbageItem | undefined {
+  return savedItems.find(saved => saved.compositeId === compositeId && saved.itemName === itemName);
+}
+
+/**
+ * Saved items of a municipality matching the query (name or category), for instant answers
+ */
+export function findSavedItems(
+  savedItems: ISavedGarbageItem[],
+  compositeId: string | null,
+  searchQuery: string,
+  translate: (key: string) => string
+): ISavedGarbageItem[] {
+  const normalizedQuery = normalizeSearchText(searchQuery);
+  return savedItems.filter(saved => {
+    if (compositeId && saved.compositeId !== compositeId) return false;
+    if (!normalizedQuery) return true;
+    const fields = [saved.itemName, saved.category || '', saved.category ? translate(saved.category) : ''];
+    return fields.some(field => normalizeSearchText(field).includes(normalizedQuery));
+  });
+}
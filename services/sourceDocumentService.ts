@@ -0,0 +1,72 @@
+// services/sourceDocumentService.ts
+// Municipal source PDFs: download once into the cache directory for the in-app viewer
+
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+
+// The viewer page is copied next to the PDFs: a WebView only reads files under the page's directory on iOS
+export const SOURCE_DOCUMENTS_DIR = `${FileSystem.cacheDirectory}source_documents/`;
+
+// pdf.js viewer built by scripts/build-pdf-viewer.js (bundled, works offline)
+const VIEWER_ASSET = require('../assets/pdfjs/viewer.html');
+
+// A cached PDF older than this is downloaded again (cities update their guides yearly)
+const DOCUMENT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Stable file name for a URL (FNV-1a hash, URLs contain characters invalid in paths)
+ */
+function documentFileName(pdfUrl: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < pdfUrl.length; i++) {
+    hash ^= pdfUrl.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${hash.toString(16)}.pdf`;
+}
+
+/**
+ * Local URI of the PDF, downloading it when missing or stale.
+ * Falls back to a stale copy when offline.
+ * Throws i18n key: errorSourceDocumentUnavailable
+ */
+export async function getCachedSourceDocument(pdfUrl: string): Promise<string> {
+  const fileUri = `${SOURCE_DOCUMENTS_DIR}${documentFileName(pdfUrl)}`;
+  const info = await FileSystem.getInfoAsync(fileUri);
+  const isFresh = info.exists && Date.now() - info.modificationTime * 1000 < DOCUMENT_MAX_AGE_MS;
+  if (isFresh) return fileUri;
+
+  try {
+    await FileSystem.makeDirectoryAsync(SOURCE_DOCUMENTS_DIR, { intermediates: true });
+    const tempUri = `${fileUri}.download`;
+    const result = await FileSystem.downloadAsync(pdfUrl, tempUri);
+    if (result.status !== 200) {
+      await FileSystem.deleteAsync(tempUri, { idempotent: true });
+      throw new Error(`HTTP ${result.status}`);
+    }
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    await FileSystem.moveAsync({ from: tempUri, to: fileUri });
+    return fileUri;
+  } catch (error) {
+    console.error('Error downloading source document:', error);
+    if (info.exists) return fileUri;
+    throw new Error('errorSourceDocumentUnavailable');
+  }
+}
+
+/**
+ * Local URI of the pdf.js viewer page, in the same directory as the cached PDFs
+ */
+export async function getSourceDocumentViewerUri(): Promise<string> {
+  const asset = Asset.fromModule(VIEWER_ASSET);
+  // Named by content hash, an app update brings a new viewer
+  const viewerUri = `${SOURCE_DOCUMENTS_DIR}viewer-${asset.hash}.html`;
+  const info = await FileSystem.getInfoAsync(viewerUri);
+  if (info.exists) return viewerUri;
+
+  await asset.downloadAsync();
+  if (!asset.localUri) throw new Error('errorSourceDocumentUnavailable');
+  await FileSystem.makeDirectoryAsync(SOURCE_DOCUMENTS_DIR, { intermediates: true });
+  await FileSystem.copyAsync({ from: asset.localUri, to: viewerUri });
+  return viewerUri;
+}
@@ -0,0 +1,91 @@
+// types/ai.ts
+
+import type { AIModelTier } from './credits';
+import type { GarbageAnalysisResult, RecyclingMarkAnalysisResult } from '../services/geminiService';
+
+export type TJlptLevel = 'N1' | 'N2' | 'N3' | 'N4' | 'N5';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Chat features keep their history in the app; conversationId enables the server-side context cache
+export interface IAIChatInput {
+  messages: ChatMessage[];
+  conversationId?: string; // Chat document id
+}
+
+export interface IAIImageInput {
+  imageBase64: string;
+  compositeId: string; // Thành phố có rules để phân loại
+}
+
+// Input của từng tính năng AI (tên giống featureType của Cloud Function)
+export interface IAIFeatureInputs {
+  ai_chat: IAIChatInput;
+  japanese_learning: IAIChatInput & { jlptLevel: TJlptLevel };
+  ai_map: IAIChatInput;
+  web_summary: { pageText: string };
+  web_qa: { pageText: string; question: string };
+  japanese_translation: { text: string };
+  garbage_analysis: IAIImageInput;
+  recycling_marks: IAIImageInput;
+}
+
+export interface IAITextOutput {
+  text: string;
+  warnings: string[]; // e.g. older messages summarized to fit the token limit
+}
+
+export interface IAIScanOutput<T> {
+  analysis: T;
+  cached: boolean; // Cùng ảnh đã quét trước đó: trả kết quả cũ, không trừ credits
+  historyId: string | null; // Document trong `scan_history`
+}
+
+export interface IAIFeatureOutputs {
+  ai_chat: IAITextOutput;
+  japanese_learning: IAITextOutput;
+  ai_map: IAITextOutput;
+  web_summary: IAITextOutput;
+  web_qa: IAITextOutput;
+  japanese_translation: IAITextOutput;
+  garbage_analysis: IAIScanOutput<GarbageAnalysisResult>;
+  recycling_marks: IAIScanOutput<RecyclingMarkAnalysisResult>;
+}
+
+export type TAIFeature = keyof IAIFeatureInputs;
+
+export interface IAIRunOptions {
+  modelTier?: AIModelTier; // Mặc định theo từng tính năng (xem AI_FEATURES)
+  language?: string; // App language code, e.g. 'vi'
+  signal?: AbortSignal; // Hủy request (màn hình đóng, người dùng bấm dừng...)
+  onTextChunk?: (text: string) => void; // Text features: the reply is streamed when set
+}
+
+// Charged by the server; creditsCharged is 0 for super admins and repeated scans
+export interface IAIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  creditsCharged: number;
+  remainingCredits: number | null; // null for super admins (not charged)
+}
+
+export interface IAIRunResult<F extends TAIFeature> {
+  output: IAIFeatureOutputs[F];
+  usage: IAIUsage;
+}
+
+export type TAIErrorCode =
+  | 'insufficient_credits'
+  | 'model_not_allowed'
+  | 'rate_limited'
+  | 'safety_blocked'
+  | 'unauthenticated'
+  | 'invalid_request'
+  | 'cancelled'
+  | 'unavailable' // Proxy not configured or unreachable
+  | 'internal';
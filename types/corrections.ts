@@ -0,0 +1,49 @@
+// types/corrections.ts
+
+import type { GarbageAnalysisResult } from '../services/geminiService';
+
+// Nơi người dùng báo sai: kết quả AI scanner hoặc một mục trong rules
+export type TCorrectionSource = 'scanner' | 'rules';
+
+export type TCorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+// Dữ liệu gửi lên khi người dùng bấm "Thông tin này sai"
+export interface IGarbageCorrectionInput {
+  source: TCorrectionSource;
+  compositeId: string;
+  itemName: string;
+  originalCategory: string | null; // Loại rác AI / rules đang ghi
+  correctedCategory: string; // Loại rác người dùng cho là đúng
+  note?: string;
+  imageUri?: string | null; // Ảnh đã chụp (chỉ với scanner), được tải lên Storage khi gửi
+  analysis?: GarbageAnalysisResult | null; // Kết quả AI đầy đủ để admin đối chiếu
+  itemIndex?: number; // Đồ vật nào trong `analysis.items`
+}
+
+// Document trong collection `garbage_corrections` (hàng đợi kiểm duyệt)
+export interface IGarbageCorrection {
+  id: string;
+  userId: string;
+  source: TCorrectionSource;
+  compositeId: string;
+  itemName: string;
+  originalCategory: string | null;
+  correctedCategory: string;
+  note: string | null;
+  imagePath: string | null; // Đường dẫn trong Firebase Storage
+  analysis: GarbageAnalysisResult | null;
+  itemIndex: number | null;
+  status: TCorrectionStatus;
+  createdAt: Date | null;
+  reviewedBy?: string | null;
+  reviewedAt?: Date | null;
+  finalCategory?: string | null; // Loại rác admin đã duyệt (có thể khác correctedCategory)
+  finalItemName?: string | null;
+}
+
+export interface IReviewCorrectionInput {
+  correctionId: string;
+  decision: 'approve' | 'reject';
+  category?: string; // Ghi đè loại rác khi duyệt
+  itemName?: string; // Ghi đè tên đồ vật khi duyệt (ví dụ: chuẩn hoá sang tiếng Nhật)
+}
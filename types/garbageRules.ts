@@ -0,0 +1,181 @@
+// types/garbageRules.ts
+
+// Ngày ngoại lệ / tạm dừng thu gom, dùng chung cho mọi dạng lịch
+export interface IScheduleExceptions {
+  extra_dates?: string[]; // YYYY-MM-DD: ngày thu gom bổ sung (ví dụ: thu gom bù)
+  cancelled_dates?: string[]; // YYYY-MM-DD: ngày bị huỷ
+  suspensions?: ISuspensionWindow[]; // Khoảng tạm dừng (ví dụ: 年末年始)
+}
+
+// Khoảng tạm dừng: "YYYY-MM-DD" (một lần) hoặc "MM-DD" (lặp lại hằng năm, có thể vắt qua năm mới)
+export interface ISuspensionWindow {
+  from: string;
+  to: string;
+  label?: string; // ví dụ: "年末年始"
+}
+
+// Một quy tắc lịch có cấu trúc
+export type TScheduleRule = {
+  kind: 'weekly'; // Hằng tuần
+  weekdays: number[]; // 0 = Chủ nhật ... 6 = Thứ bảy
+} | {
+  kind: 'monthly_nth'; // Thứ N trong tháng, ví dụ: thứ 2 tuần 1 & 3
+  weekdays: number[];
+  nths: number[]; // 1-5, -1 = tuần cuối
+} | {
+  kind: 'interval'; // Cách tuần, tính từ một ngày mốc
+  anchor: string; // YYYY-MM-DD: một ngày thu gom đã biết
+  interval_weeks: number; // 2 = cách tuần
+  weekdays?: number[]; // Mặc định: thứ của ngày mốc
+} | {
+  kind: 'dates'; // Danh sách ngày cụ thể
+  dates: string[];
+} | {
+  kind: 'by_appointment'; // Theo hẹn (ví dụ: 粗大ごみ), không có ngày cố định
+  note?: string;
+};
+
+// Lịch trình cho một khu vực
+export interface IDistrictSchedule extends IScheduleExceptions {
+  district_id: string;
+  days?: string[];
+  rules?: TScheduleRule[];
+}
+
+// Lịch thu gom (thống nhất, theo khu vực, hoặc quy tắc có cấu trúc)
+export type TCollectionSchedule = ({
+  type: 'uniform';
+  days: string[];
+} & IScheduleExceptions) | ({
+  type: 'district_based';
+  districts: IDistrictSchedule[];
+} & IScheduleExceptions) | ({
+  type: 'rules';
+  rules?: TScheduleRule[]; // Áp dụng cho mọi khu vực
+  districts?: IDistrictSchedule[]; // Ghi đè theo khu vực (nếu có)
+} & IScheduleExceptions) | null;
+
+// Lịch đã "giải" cho khu vực đang chọn, đầu vào của bộ đánh giá
+export interface IResolvedSchedule {
+  rules: TScheduleRule[];
+  extraDates: string[];
+  cancelledDates: string[];
+  suspensions: ISuspensionWindow[];
+}
+
+// Yêu cầu về túi rác
+export interface IBagRequirement {
+  type: 'designated' | 'transparent' | 'no_bag' | 'unknown';
+  specifications?: string;
+  sizes?: string[]; // ví dụ: ["45L", "30L", "15L"]
+  purchase_locations?: string[]; // Nơi bán túi chỉ định, ví dụ: "スーパー", "コンビニ"
+}
+
+// Một loại rác (ví dụ: "burnable")
+export interface IWasteCategory {
+  items: string[];
+  notes: string[];
+  collection_schedule: TCollectionSchedule;
+  bag_requirement: IBagRequirement | null;
+  reference_page?: number;
+  skip_holidays?: boolean; // true = không thu gom vào ngày lễ (祝日)
+}
+
+// Một dòng trong bảng phí rác cỡ lớn (粗大ごみ)
+export interface IBulkyFeeItem {
+  item: string; // ví dụ: "ソファ（2人掛け以上）"
+  fee: number; // Yên, theo mỗi món
+  size_note?: string; // ví dụ: "最大辺が180cm以上"
+}
+
+// Quy trình vứt rác cỡ lớn: đặt lịch trước, mua tem phí, để rác vào ngày hẹn
+export interface IBulkyWasteRules {
+  booking: {
+    phone?: string;
+    url?: string;
+    hours?: string; // ví dụ: "月〜金 9:00-17:00"
+    lead_time_days?: number; // Phải đặt trước ít nhất N ngày
+    notes?: string[];
+  };
+  fee_table: IBulkyFeeItem[];
+  sticker: {
+    name?: string; // ví dụ: "粗大ごみ処理券"
+    denominations?: number[]; // Mệnh giá tem, ví dụ: [200, 400]
+    purchase_locations: string[]; // ví dụ: "コンビニ", "市役所"
+  };
+  pickup: {
+    schedule?: TScheduleRule[]; // Ngày có thể thu gom (nếu thành phố có lịch cố định)
+    place?: string; // ví dụ: "玄関先"
+    time?: string; // ví dụ: "当日朝8時まで"
+    max_items?: number; // Số món tối đa mỗi lần đặt
+    notes?: string[];
+  };
+  notes?: string[];
+}
+
+// Sửa lỗi do người dùng báo cáo và admin đã duyệt, đưa vào prompt của AI scanner
+export interface IAcceptedCorrection {
+  item: string;
+  category: string;
+  from?: string | null; // Loại rác cũ (AI hoặc rules đã phân loại sai)
+}
+
+// Toàn bộ document rules từ Firestore
+export interface IRulesData {
+  waste_categories: {
+    [key: string]: IWasteCategory; // Dạng dictionary: { burnable: { ... }, plastic: { ... } }
+  };
+  bulky_waste?: IBulkyWasteRules; // Quy trình 粗大ごみ (nếu thành phố đã có dữ liệu)
+  ai_corrections?: IAcceptedCorrection[]; // Mới nhất trước, do reviewGarbageCorrection ghi
+  source_document?: {
+    pdf_url?: string;
+  };
+  version?: number | string; // Tăng mỗi khi thành phố cập nhật rules
+  updated_at?: unknown; // Firestore Timestamp, ISO string hoặc epoch ms
+}
+
+// Bản rules lưu trong AsyncStorage (cache có phiên bản)
+export interface ICachedRules {
+  schemaVersion: number;
+  rules: IRulesData;
+  version: number | string | null;
+  updatedAt: number | null; // epoch ms, "rules last updated"
+  cachedAt: number; // epoch ms, lần cuối đồng bộ với Firestore
+}
+
+// Một ngày thu gom cụ thể sau khi đã "mở rộng" lịch
+export interface ICollectionDay {
+  dateKey: string; // YYYY-MM-DD (giờ địa phương)
+  date: Date;
+  categories: string[];
+  isHoliday: boolean;
+  skippedCategories: string[]; // Các loại rác bị hoãn vì ngày lễ
+  suspendedCategories: string[]; // Các loại rác bị tạm dừng (年末年始, ngày huỷ)
+}
+
+// Một món người dùng muốn vứt trong trợ lý rác cỡ lớn
+export interface IBulkyWasteLine {
+  id: string;
+  name: string; // Tên người dùng nhập (hoặc từ AI scanner)
+  feeItem: IBulkyFeeItem | null; // Dòng tương ứng trong bảng phí (null = chưa xác định)
+  quantity: number;
+}
+
+// Kết quả ước tính phí
+export interface IBulkyFeeEstimate {
+  total: number; // Tổng phí của các món đã xác định (Yên)
+  unpricedCount: number; // Số món chưa có trong bảng phí
+  itemCount: number;
+  stickers: { denomination: number; count: number }[]; // Số tem cần mua theo mệnh giá
+  exceedsMaxItems: boolean;
+}
+
+export type CalendarViewMode = 'day' | 'week' | 'month';
+
+// Cài đặt nhắc nhở vứt rác (lưu local)
+export interface IReminderSettings {
+  enabled: boolean;
+  hour: number; // Giờ gửi nhắc nhở vào tối hôm trước (0-23)
+  minute: number;
+  mutedCategories: string[]; // Các loại rác người dùng tắt nhắc nhở
+}
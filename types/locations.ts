@@ -0,0 +1,45 @@
+// types/locations.ts
+
+// Một địa điểm đã lưu (nhà, chỗ làm, nhà bố mẹ...)
+export interface ISavedLocation {
+  id: string;
+  label: string; // Tên do người dùng đặt, ví dụ: "Home"
+  locationString: string; // "District, City, Prefecture" (để hiển thị)
+  compositeId: string; // `${prefecture}_${cityId}` = ID document rules
+  districtId: string; // schedule_group_id
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+}
+
+// Danh sách địa điểm lưu local (AsyncStorage)
+export interface ISavedLocationsState {
+  locations: ISavedLocation[];
+  activeLocationId: string | null; // Chỉ lưu trên thiết bị, không đồng bộ
+  updatedAt: number; // epoch ms, dùng để so sánh với bản trên Firestore
+  lastSyncedAt?: number; // epoch ms, lần cuối đồng bộ với Firestore profile
+}
+
+// Dữ liệu nhập khi thêm / thay địa điểm
+export interface ISavedLocationInput {
+  label?: string;
+  locationString: string;
+  compositeId: string;
+  districtId: string;
+}
+
+// Một khu vực ứng viên (gần vị trí GPS hoặc cùng mã bưu điện)
+export interface IDistrictCandidate {
+  municipalityId: string; // ID document trong 'municipalities'
+  prefecture: string; // prefecture_romaji
+  scheduleGroupId: string | null; // null = chỉ biết thành phố, người dùng tự chọn khu vực
+  label: string; // Tên khu vực (kanji hoặc romaji theo ngôn ngữ)
+  cityLabel: string;
+  postalCode?: string;
+  distanceKm: number; // 0 với kết quả theo mã bưu điện
+}
+
+// Kết quả nhận diện vị trí
+export interface ILocationDetectionResult {
+  candidates: IDistrictCandidate[]; // Gần nhất trước
+  isAmbiguous: boolean; // true = cần người dùng xác nhận khu vực
+}
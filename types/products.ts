@@ -0,0 +1,44 @@
+// types/products.ts
+
+// Vật liệu bao bì (theo ký hiệu tái chế in trên sản phẩm: プラ, PET, 紙, アルミ, スチール...)
+export type TPackagingMaterial =
+  | 'pet' // Thân chai PET
+  | 'plastic' // プラ: bao bì nhựa
+  | 'paper' // 紙: bao bì giấy
+  | 'paper_carton' // 紙パック: hộp sữa, hộp nước
+  | 'aluminum_can'
+  | 'steel_can'
+  | 'glass'
+  | 'metal' // Kim loại khác (nắp kim loại, hộp thiếc...)
+  | 'burnable' // Không tái chế (giấy bẩn, gỗ...)
+  | 'other';
+
+// Ký hiệu nhận biết in trên bao bì (識別表示マーク): プラ, PET, 紙, 紙パック, 段ボール, アルミ, スチール
+export type TRecyclingMark = 'pla' | 'pet' | 'paper' | 'paper_carton' | 'cardboard' | 'aluminum' | 'steel';
+
+// Một phần của sản phẩm, ví dụ: { part: "キャップ", material: "plastic" }
+export interface IProductPart {
+  part: string;
+  material: TPackagingMaterial;
+  note?: string; // ví dụ: "ラベルをはがす"
+}
+
+// Document trong collection `product_materials`, id = mã JAN (8 hoặc 13 chữ số)
+export interface IProductRecord {
+  jan: string;
+  name: string;
+  brand?: string;
+  parts: IProductPart[];
+  updated_at?: unknown; // Firestore Timestamp
+}
+
+// Một phần sản phẩm sau khi đã đối chiếu với loại rác của thành phố
+export interface IProductPartDisposal extends IProductPart {
+  category: string | null; // null = thành phố không có loại rác tương ứng
+}
+
+export interface IBarcodeLookupResult {
+  jan: string;
+  product: IProductRecord;
+  parts: IProductPartDisposal[];
+}
@@ -0,0 +1,49 @@
+// types/scanHistory.ts
+
+import type {
+  DetectedGarbageItem,
+  GarbageAnalysisResult,
+  GarbageItemComponent,
+  RecyclingMarkAnalysisResult,
+} from '../services/geminiService';
+
+export type TScanMode = 'items' | 'marks';
+
+// Document trong collection `scan_history`, do server ghi sau mỗi lần phân tích
+// id = userId + hash của ảnh: chụp lại đúng ảnh đó sẽ trả kết quả cũ, không trừ credits
+export interface IScanHistoryEntry {
+  id: string;
+  userId: string;
+  mode: TScanMode;
+  compositeId: string; // Thành phố lúc quét
+  language: string;
+  analysis: GarbageAnalysisResult | RecyclingMarkAnalysisResult;
+  itemNames: string[]; // Để hiển thị và tìm kiếm trong lịch sử
+  categories: string[]; // Rỗng với chế độ 'marks' (app tự đối chiếu loại rác)
+  thumbnailPath: string | null; // Ảnh thu nhỏ trong Firebase Storage, app tải lên sau khi quét
+  imageAspectRatio: number | null;
+  creditsCharged: number;
+  scanCount: number;
+  createdAt: Date | null;
+  lastScannedAt: Date | null;
+}
+
+// Đồ vật người dùng đã lưu: tra lại ngay, không cần chụp ảnh / gọi Gemini
+export interface ISavedGarbageItem {
+  id: string;
+  userId: string;
+  compositeId: string;
+  itemName: string;
+  category: string | null;
+  instructions: string;
+  additionalInfo?: string | null;
+  isBulky?: boolean;
+  components: GarbageItemComponent[];
+  historyId: string | null; // Lần quét đã tạo ra mục này
+  savedAt: Date | null;
+}
+
+export type TSavedGarbageItemInput = Pick<
+  DetectedGarbageItem,
+  'itemName' | 'category' | 'instructions' | 'additionalInfo' | 'isBulky' | 'components'
+>;